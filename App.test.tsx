@@ -0,0 +1,169 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import App from './App';
+import { DEFAULT_PLACE } from './constants';
+import { parseOpenMeteo } from './services/weather/openMeteo';
+import { writeWeatherCache, WEATHER_CACHE_TTL } from './utils/locationStore';
+import { HIGH_CONTRAST_QUERY } from './utils/mediaQuery';
+import { stubFetch, status } from './test/fetch';
+import { axeViolations, AXE_TIMEOUT_MS } from './test/axe';
+import openMeteoMeixian from './fixtures/open-meteo-meixian.json';
+
+const FORECAST_URL = 'https://api.open-meteo.com/v1/forecast';
+
+// jsdom has no geolocation, so every launch here falls back to the default place. Only the forecast call is
+// answered; climate history and air quality fail fast with a 404, which is not retried.
+const serveForecast = (forecast: (url: string) => Response | Promise<Response>) => stubFetch({
+  [FORECAST_URL]: (url: string) => url.includes('current=') ? forecast(url) : new Response('', { status: 404 }),
+  'https://air-quality-api.open-meteo.com': status(404),
+  'https://archive-api.open-meteo.com': status(404)
+});
+
+const cacheMeixian = (age: number) => {
+  const fetchedAt = Date.now() - age;
+  writeWeatherCache({ ...parseOpenMeteo(openMeteoMeixian, DEFAULT_PLACE), fetchedAt }, fetchedAt);
+};
+
+describe('App', () => {
+  it('shows the syncing screen while the first forecast loads', async () => {
+    serveForecast(() => new Promise<Response>(() => {}));
+    render(<App />);
+    expect(await screen.findByText('Establishing Sync...')).toBeTruthy();
+  });
+
+  it('renders the forecast for the default place when there is no position fix', async () => {
+    serveForecast(() => Response.json(openMeteoMeixian));
+    render(<App />);
+    expect(await screen.findByText('MEIXIAN')).toBeTruthy();
+    expect(screen.getByText('No Geolocation')).toBeTruthy();
+  });
+
+  it('offers a retry instead of made-up data when the first load fails', async () => {
+    const fetch = serveForecast(status(404));
+    render(<App />);
+    expect(await screen.findByText('No forecast yet')).toBeTruthy();
+    expect(screen.getByText('Weather service unavailable')).toBeTruthy();
+
+    serveForecast(() => Response.json(openMeteoMeixian));
+    fireEvent.click(screen.getByText('Try again'));
+    expect(await screen.findByText('MEIXIAN')).toBeTruthy();
+    expect(fetch).toHaveBeenCalled();
+  });
+
+  it('falls back to the saved forecast with its age and the error in the footer', async () => {
+    cacheMeixian(2 * WEATHER_CACHE_TTL);
+    serveForecast(status(404));
+    render(<App />);
+    expect(await screen.findByText(/Sync failed — showing data from .* \(1h ago\)/)).toBeTruthy();
+    expect(screen.getByText('Weather service unavailable')).toBeTruthy();
+  });
+
+  it('resumes a fresh saved forecast without a request', async () => {
+    cacheMeixian(WEATHER_CACHE_TTL / 2);
+    const fetch = serveForecast(() => Response.json(openMeteoMeixian));
+    render(<App />);
+    expect(await screen.findByText('MEIXIAN')).toBeTruthy();
+    expect(fetch.mock.calls.some(([url]) => String(url).includes('current='))).toBe(false);
+  });
+
+  it('runs on recorded data alone with the fixture provider', async () => {
+    localStorage.setItem('atmo_settings_v1', JSON.stringify({ weatherProvider: 'fixture' }));
+    const fetch = stubFetch({});
+    render(<App />);
+    expect(await screen.findByText('MEIXIAN')).toBeTruthy();
+    expect(screen.getByText('SOURCE: FIXTURES')).toBeTruthy();
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('raises no alert while a threshold is cleared to be retyped', async () => {
+    const notify = vi.fn();
+    vi.stubGlobal('Notification', class {
+      static permission = 'granted';
+      constructor(title: string) {
+        notify(title);
+      }
+    });
+    serveForecast(() => Response.json(openMeteoMeixian));
+    render(<App />);
+    await screen.findByText('MEIXIAN');
+    const raised = notify.mock.calls.length;
+
+    fireEvent.click(screen.getByRole('button', { name: 'Settings' }));
+    const gust = screen.getByLabelText(/^Gusts/);
+    fireEvent.change(gust, { target: { value: '' } });
+    fireEvent.blur(gust);
+    expect(screen.queryByText('Strong Gusts')).toBeNull();
+    expect(notify.mock.calls.length).toBe(raised);
+  });
+
+  it('switches the whole screen to e-ink', async () => {
+    serveForecast(() => Response.json(openMeteoMeixian));
+    const { container } = render(<App />);
+    await screen.findByText('MEIXIAN');
+    expect(container.querySelector('.border-black')).toBeNull();
+    fireEvent.click(screen.getByRole('button', { name: 'E-ink mode' }));
+    expect(container.querySelector('.border-black')).not.toBeNull();
+  });
+});
+
+describe('App accessibility', () => {
+  it('passes an automated audit, with the search, settings and activity panels open too', async () => {
+    serveForecast(() => Response.json(openMeteoMeixian));
+    const { container } = render(<App />);
+    await screen.findByText('MEIXIAN');
+    expect(await axeViolations(container)).toEqual([]);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Search places' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Settings' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Activities' }));
+    expect(await axeViolations(container)).toEqual([]);
+   }, AXE_TIMEOUT_MS);
+
+  it('passes an audit on the screen shown when nothing loads', async () => {
+    serveForecast(status(404));
+    const { container } = render(<App />);
+    expect((await screen.findByRole('alert')).textContent).toBe('Weather service unavailable');
+    expect(await axeViolations(container)).toEqual([]);
+   }, AXE_TIMEOUT_MS);
+
+  it('announces the forecast once it arrives', async () => {
+    serveForecast(() => Response.json(openMeteoMeixian));
+    render(<App />);
+    expect(screen.getByRole('status').textContent).toBe('Establishing Sync...');
+    await screen.findByText('MEIXIAN');
+    // Units follow the browser's locale, which is en-US under jsdom.
+    expect(screen.getByRole('status').textContent).toBe('Weather for Meixian: 64°, clear');
+  });
+
+  it('opens search and toggles e-ink from the keyboard, but not while typing', async () => {
+    serveForecast(() => Response.json(openMeteoMeixian));
+    render(<App />);
+    await screen.findByText('MEIXIAN');
+    const eink = screen.getByRole('button', { name: 'E-ink mode' });
+
+    fireEvent.keyDown(document.body, { key: 'e' });
+    expect(eink.getAttribute('aria-pressed')).toBe('true');
+
+    fireEvent.keyDown(document.body, { key: '/' });
+    const search = screen.getByRole('combobox', { name: 'Search places' });
+    expect(document.activeElement).toBe(search);
+    fireEvent.keyDown(search, { key: 'e' });
+    expect(eink.getAttribute('aria-pressed')).toBe('true');
+  });
+
+  it('uses the e-ink styling when the system asks for more contrast', async () => {
+    vi.stubGlobal('matchMedia', (query: string) => ({
+      matches: query === HIGH_CONTRAST_QUERY,
+      addEventListener: () => {},
+      removeEventListener: () => {},
+      addListener: () => {},
+      removeListener: () => {}
+    }));
+    serveForecast(() => Response.json(openMeteoMeixian));
+    const { container } = render(<App />);
+    await screen.findByText('MEIXIAN');
+    expect(container.querySelector('.border-black')).not.toBeNull();
+    expect(screen.getByRole('button', { name: 'E-ink mode' }).getAttribute('aria-pressed')).toBe('true');
+  });
+});
@@ -1,35 +1,95 @@
 
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Sun, Cloud, CloudRain, Moon, Wind, Tablet, Loader2, Navigation, Search, Droplets, Sunrise, Sunset } from 'lucide-react';
-import { GoogleGenAI } from "@google/genai";
-import { WeatherData, WeatherCondition } from './types';
-import { ATMOSPHERIC_THEMES, MOCK_WEATHER } from './constants';
-import TennisIndex from './components/TennisIndex';
+import { Wind, Tablet, Share2, Loader2, Navigation, Search, Droplets, Sunrise, Sunset, SlidersHorizontal, Bookmark, BookmarkCheck, Settings, WifiOff } from 'lucide-react';
+import { WeatherData, ActivityProfile, SavedLocation, AppSettings, CachedWeather, AlertThresholds } from './types';
+import { MOCK_WEATHER, DEFAULT_PLACE, TENNIS_PROFILE } from './constants';
+import { createLocale, LocaleProvider } from './i18n';
+import ActivityIndex from './components/ActivityIndex';
+import ActivityPicker from './components/ActivityPicker';
+import PlacesBar from './components/PlacesBar';
+import LocationSearch from './components/LocationSearch';
+import SettingsPanel from './components/SettingsPanel';
+import AlertSettings from './components/AlertSettings';
+import AlertBanners from './components/AlertBanners';
+import { getReverseGeocoder } from './services/reverseGeocoding';
+import { locateDevice } from './services/geolocation';
+import { DataError } from './services/http';
+import { getWeatherProvider } from './services/weather';
+import { fetchWeatherWithAirQuality } from './services/airQuality';
+import { loadSettings, saveSettings } from './utils/settings';
 import WeatherAnimations from './components/WeatherAnimations';
 import GrainOverlay from './components/GrainOverlay';
+import AtmoLogo from './components/AtmoLogo';
+import WeatherIcon from './components/WeatherIcon';
+import HeaderAction from './components/HeaderAction';
+import StatCard from './components/StatCard';
+import SkyBackdrop from './components/SkyBackdrop';
+import ForecastTimeline from './components/ForecastTimeline';
+import TennisPlanner from './components/TennisPlanner';
+import ClimateTrends from './components/ClimateTrends';
+import SunArc from './components/SunArc';
+import AirQualityPanel from './components/AirQualityPanel';
+import DailyBriefing from './components/DailyBriefing';
+import { getDryingContext, scoreActivity } from './utils/activityScoring';
+import { formatClock, toLocalIso, zonedTimeToUtc } from './utils/time';
+import { computeSolarDay, computeMoonDay, isSunUp } from './utils/astronomy';
+import { atmosphereAt, EINK_THEME } from './utils/atmosphere';
+import { makePlace, isWeatherFresh, resumableWeather, WEATHER_CACHE_TTL, CURRENT_LOCATION_NAME, loadPlaces, savePlaces, readWeatherCache, writeWeatherCache, removeWeatherCache, readLastWeatherCache, movePlace } from './utils/locationStore';
+import { removeHistory } from './utils/historyStore';
+import { useMediaQuery, HIGH_CONTRAST_QUERY } from './utils/mediaQuery';
+import { renderShareCard, shareCardFileName, shareImage } from './utils/shareCard';
+import { loadCustomProfiles, saveCustomProfiles, loadVisibleCards, saveVisibleCards, allProfiles } from './utils/activityProfiles';
+import { loadAlertThresholds, saveAlertThresholds, thresholdsFor, evaluateAlerts, loadAlertLog, saveAlertLog, recordAlerts, dismissAlert, notifyAlerts, AlertLog } from './utils/alerts';
 
-const CACHE_KEY = 'open_meteo_weather_cache_v4';
-const CACHE_DURATION = 30 * 60 * 1000; 
+const REFRESH_RETRY_MS = 60 * 1000;
+const SWIPE_THRESHOLD = 60;
+// Single keys, as aria-keyshortcuts spells them; ignored while typing and when a modifier is held.
+const SHORTCUTS = { search: '/', locate: 'L', eink: 'E' };
+const PERMISSION_DENIED = 1; // GeolocationPositionError.PERMISSION_DENIED
 
-const AtmoLogo = ({ className }: { className?: string }) => (
-  <svg viewBox="0 0 32 32" className={className} fill="currentColor">
-    <circle cx="16" cy="16" r="13" fill="none" stroke="currentColor" strokeWidth="1.5" />
-    <circle cx="23" cy="9" r="4" />
-  </svg>
-);
+// What the footer says about a failed load; whatever was on screen stays there.
+const errorKey = (err: unknown): string => {
+  if (!(err instanceof DataError)) return 'error.sync-failed';
+  switch (err.kind) {
+    case 'network': return navigator.onLine ? 'error.network' : 'error.offline';
+    case 'http': return 'error.service';
+    case 'schema': return 'error.schema';
+    case 'geolocation': return err.status === undefined ? 'error.no-geolocation'
+      : err.status === PERMISSION_DENIED ? 'error.location-denied' : 'error.location-unavailable';
+  }
+};
 
 const App: React.FC = () => {
   const [weather, setWeather] = useState<WeatherData | null>(null);
-  const [isEink, setIsEink] = useState<boolean>(false);
+  const [einkMode, setEinkMode] = useState<boolean>(false);
+  // A system request for more contrast gets the e-ink styling, whatever the toggle says.
+  const highContrast = useMediaQuery(HIGH_CONTRAST_QUERY);
+  const isEink = einkMode || highContrast;
   const [currentTime, setCurrentTime] = useState(new Date());
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [isLocating, setIsLocating] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  const [manualSearch, setManualSearch] = useState<string>('');
+  const [loadFailed, setLoadFailed] = useState<boolean>(false);
   const [showSearch, setShowSearch] = useState<boolean>(false);
+  const [selectedHour, setSelectedHour] = useState<number | null>(null);
+  const [customProfiles, setCustomProfiles] = useState<ActivityProfile[]>(loadCustomProfiles);
+  const [visibleCards, setVisibleCards] = useState<string[]>(loadVisibleCards);
+  const [showActivities, setShowActivities] = useState<boolean>(false);
+  const [places, setPlaces] = useState<SavedLocation[]>(loadPlaces);
+  const [currentPlace, setCurrentPlace] = useState<SavedLocation | null>(null);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [showSettings, setShowSettings] = useState<boolean>(false);
+  const [alertThresholds, setAlertThresholds] = useState<Record<string, AlertThresholds>>(loadAlertThresholds);
+  const [alertLog, setAlertLog] = useState<AlertLog>(loadAlertLog);
+  const [isOnline, setIsOnline] = useState<boolean>(navigator.onLine);
+  const [isSharing, setIsSharing] = useState<boolean>(false);
+  const locale = useMemo(() => createLocale(settings.language, settings.units), [settings.language, settings.units]);
   
   const initialFetchCalled = useRef(false);
+  const touchStartX = useRef<number | null>(null);
+  const lastRefreshAttempt = useRef(0);
+  const request = useRef<AbortController | null>(null);
 
   useEffect(() => {
     document.body.classList.add('app-mounted');
@@ -37,283 +97,534 @@ const App: React.FC = () => {
     return () => clearInterval(timer);
   }, []);
 
-  const mapWmoCodeToCondition = (code: number, isDay: boolean): WeatherCondition => {
-    if (!isDay) return 'night';
-    if (code <= 1) return 'clear';
-    if (code <= 3) return 'cloudy';
-    if (code === 45 || code === 48) return 'hazy';
-    return 'rainy';
-  };
+  useEffect(() => {
+    document.documentElement.lang = settings.language;
+  }, [settings.language]);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
 
-  const fetchWeather = useCallback(async (lat: number, lon: number, locationName: string = "MEIXIAN", force = false) => {
+  // Starting a load cancels the one in flight, so a slow answer never replaces the place picked after it.
+  const beginRequest = useCallback(() => {
+    request.current?.abort();
+    const controller = new AbortController();
+    request.current = controller;
+    return controller;
+  }, []);
+
+  const cancelRequest = useCallback(() => {
+    request.current?.abort();
+    request.current = null;
+  }, []);
+
+  const fetchWeather = useCallback(async (place: SavedLocation, controller = beginRequest()) => {
     setIsLoading(true);
     setError(null);
+    setCurrentPlace(place);
     
     try {
-      const url = `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&current=temperature_2m,relative_humidity_2m,is_day,precipitation,weather_code,wind_speed_10m&daily=sunrise,sunset&timezone=auto`;
-      
-      const response = await fetch(url);
-      if (!response.ok) throw new Error("Weather service unavailable");
-      
-      const data = await response.json();
-      const current = data.current;
-      const daily = data.daily;
-
-      const weatherData: WeatherData = {
-        temp: current.temperature_2m,
-        condition: mapWmoCodeToCondition(current.weather_code, current.is_day === 1),
-        location: locationName.toUpperCase(),
-        windSpeed: current.wind_speed_10m,
-        humidity: current.relative_humidity_2m,
-        precipitation: current.precipitation,
-        sunrise: daily.sunrise[0].split('T')[1],
-        sunset: daily.sunset[0].split('T')[1]
-      };
+      const weatherData = await fetchWeatherWithAirQuality(getWeatherProvider(settings.weatherProvider), place, controller.signal);
 
       setWeather(weatherData);
-      localStorage.setItem(CACHE_KEY, JSON.stringify({ 
-        data: weatherData, 
-        timestamp: Date.now(),
-        lat,
-        lon
-      }));
+      setLoadFailed(false);
+      setSelectedHour(null);
+      writeWeatherCache(weatherData, weatherData.fetchedAt);
       setShowSearch(false);
-    } catch (err: any) {
+    } catch (err) {
+      if (controller.signal.aborted) return;
       console.error(err);
-      setError("Sync Failed");
-      if (!weather) setWeather(MOCK_WEATHER.current);
+      setError(errorKey(err));
+      setLoadFailed(true);
+      // The place's saved forecast if there is one, otherwise whatever was on screen; the notice says how old it is.
+      const cached = readWeatherCache(place.id);
+      if (cached) {
+        setWeather({ ...cached.data, fetchedAt: cached.data.fetchedAt ?? cached.timestamp });
+        setSelectedHour(null);
+      } else if (weather) {
+        setCurrentPlace(weather.location);
+      }
     } finally {
+      if (request.current === controller) {
+        request.current = null;
+        setIsLoading(false);
+        setIsLocating(false);
+      }
+    }
+  }, [weather, settings.weatherProvider, beginRequest]);
+
+  const isFresh = useCallback((cached: CachedWeather | null): cached is CachedWeather =>
+    isWeatherFresh(cached, settings.weatherProvider),
+  [settings.weatherProvider]);
+
+  const handleLocate = useCallback(async (force = false) => {
+    const resumed = force ? null : resumableWeather(readLastWeatherCache(), settings.weatherProvider);
+    if (resumed) {
+      cancelRequest();
+      setWeather(resumed.data);
+      setLoadFailed(false);
+      setCurrentPlace(resumed.data.location);
+      setSelectedHour(null);
       setIsLoading(false);
       setIsLocating(false);
+      return;
     }
-  }, [weather]);
 
-  const searchCity = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!manualSearch.trim()) return;
-    
-    setIsLoading(true);
+    const controller = beginRequest();
+    setIsLocating(true);
+    let place: SavedLocation;
     try {
-      const geoUrl = `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(manualSearch)}&count=1&language=en&format=json`;
-      const geoRes = await fetch(geoUrl);
-      const geoData = await geoRes.json();
-      
-      if (!geoData.results || geoData.results.length === 0) {
-        setError("Location not found");
-        setIsLoading(false);
-        return;
+      const { lat, lon } = await locateDevice(controller.signal);
+      place = makePlace(lat, lon, CURRENT_LOCATION_NAME);
+      try {
+        const nearby = (name: string) => locale.t('places.near', { place: name });
+        place = await getReverseGeocoder(settings.reverseGeocoder, nearby).reverse(lat, lon, controller.signal) || place;
+      } catch (e) {
+        if (controller.signal.aborted) return;
+        console.error("Reverse geocoding failed", e);
       }
-
-      const { latitude, longitude, name } = geoData.results[0];
-      fetchWeather(latitude, longitude, name, true);
     } catch (err) {
-      setError("Search failed");
-      setIsLoading(false);
+      if (controller.signal.aborted) return;
+      console.error("Geolocation error", err);
+      // With a forecast already on screen there is nothing to fall back to; the first launch gets the default place.
+      if (weather) {
+        request.current = null;
+        setIsLocating(false);
+      } else {
+        await fetchWeather(DEFAULT_PLACE, controller);
+      }
+      if (!controller.signal.aborted) setError(prev => prev ?? errorKey(err));
+      return;
     }
+    fetchWeather(place, controller);
+  }, [fetchWeather, settings.weatherProvider, settings.reverseGeocoder, weather, locale, beginRequest, cancelRequest]);
+
+  useEffect(() => saveCustomProfiles(customProfiles), [customProfiles]);
+  useEffect(() => saveVisibleCards(visibleCards), [visibleCards]);
+
+  const profiles = useMemo(() => allProfiles(customProfiles), [customProfiles]);
+  const activityCards = profiles.filter(p => visibleCards.includes(p.id));
+
+  const toggleCard = (id: string) =>
+    setVisibleCards(prev => prev.includes(id) ? prev.filter(v => v !== id) : [...prev, id]);
+
+  const addProfile = (profile: ActivityProfile) => {
+    setCustomProfiles(prev => [...prev, profile]);
+    setVisibleCards(prev => [...prev, profile.id]);
   };
 
-  const handleLocate = useCallback(async (force = false) => {
-    setIsLocating(true);
-    
-    if (!force) {
-      const cached = localStorage.getItem(CACHE_KEY);
-      if (cached) {
-        const { data, timestamp } = JSON.parse(cached);
-        if (Date.now() - timestamp < CACHE_DURATION && data.location !== "CURRENT LOCATION") {
-          setWeather(data);
-          setIsLoading(false);
-          setIsLocating(false);
-          return;
-        }
-      }
+  const deleteProfile = (id: string) => {
+    setCustomProfiles(prev => prev.filter(p => p.id !== id));
+    setVisibleCards(prev => prev.filter(v => v !== id));
+  };
+
+  useEffect(() => savePlaces(places), [places]);
+  useEffect(() => saveSettings(settings), [settings]);
+  useEffect(() => saveAlertThresholds(alertThresholds), [alertThresholds]);
+  useEffect(() => saveAlertLog(alertLog), [alertLog]);
+
+  // Alerts always follow the live forecast, not the scrubbed hour.
+  const alerts = useMemo(() =>
+    weather ? evaluateAlerts(weather, thresholdsFor(alertThresholds, weather.location.id)) : [],
+  [weather, alertThresholds]);
+  const visibleAlerts = alerts.filter(a => !alertLog[a.id]?.dismissed);
+
+  useEffect(() => {
+    const raised = alerts.filter(a => !alertLog[a.id]);
+    if (raised.length === 0) return;
+    notifyAlerts(raised, locale);
+    setAlertLog(prev => recordAlerts(prev, raised));
+  }, [alerts, alertLog, locale]);
+
+  const isSaved = currentPlace ? places.some(p => p.id === currentPlace.id) : false;
+
+  const selectPlace = useCallback((place: SavedLocation) => {
+    const cached = readWeatherCache(place.id);
+    if (isFresh(cached)) {
+      cancelRequest();
+      setWeather(cached.data);
+      setLoadFailed(false);
+      setCurrentPlace(place);
+      setSelectedHour(null);
+      setError(null);
+      setIsLoading(false);
+      setIsLocating(false);
+      writeWeatherCache(cached.data, cached.timestamp);
+      return;
     }
+    fetchWeather(place);
+  }, [fetchWeather, isFresh, cancelRequest]);
+
+  // Keeps a long-open screen (the e-ink wall display) current, and catches up as soon as the connection returns.
+  const weatherAge = !weather ? 0 : weather.fetchedAt !== undefined ? currentTime.getTime() - weather.fetchedAt : Infinity;
+  const needsRefresh = isOnline && !isLoading && !!currentPlace && weatherAge > WEATHER_CACHE_TTL
+    && currentTime.getTime() - lastRefreshAttempt.current > REFRESH_RETRY_MS;
+  useEffect(() => {
+    if (!needsRefresh || !currentPlace) return;
+    lastRefreshAttempt.current = Date.now();
+    fetchWeather(currentPlace);
+  }, [needsRefresh, currentPlace, fetchWeather]);
+
+  const lastProvider = useRef(settings.weatherProvider);
+  useEffect(() => {
+    if (lastProvider.current === settings.weatherProvider) return;
+    lastProvider.current = settings.weatherProvider;
+    if (currentPlace) fetchWeather(currentPlace);
+  }, [settings.weatherProvider, currentPlace, fetchWeather]);
+
+  const cyclePlace = useCallback((offset: number) => {
+    if (places.length === 0) return;
+    const index = currentPlace ? places.findIndex(p => p.id === currentPlace.id) : -1;
+    const next = index < 0
+      ? (offset > 0 ? 0 : places.length - 1)
+      : (index + offset + places.length) % places.length;
+    selectPlace(places[next]);
+  }, [places, currentPlace, selectPlace]);
 
-    if (navigator.geolocation) {
-      navigator.geolocation.getCurrentPosition(
-        async (pos) => {
-          const lat = pos.coords.latitude;
-          const lon = pos.coords.longitude;
-          let cityName = "Current Location";
-          
-          try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-            const response = await ai.models.generateContent({
-              model: 'gemini-3-flash-preview',
-              contents: `What is the name of the city/town at latitude ${lat} and longitude ${lon}? Return ONLY the short name of the city (max 2 words), no punctuation or extra words. Example: New York, Paris, Tokyo.`,
-              config: {
-                temperature: 0.1,
-              }
-            });
-            
-            const result = response.text?.trim();
-            if (result && result.length < 50) {
-              cityName = result;
-            }
-          } catch (e) {
-            console.error("Gemini reverse geocoding failed", e);
-          }
-          
-          fetchWeather(lat, lon, cityName, true);
-        },
-        (err) => {
-          console.error("Geolocation error", err);
-          setError("Location Denied");
-          fetchWeather(24.288, 116.117, "MEIXIAN", true);
-        },
-        { timeout: 10000, enableHighAccuracy: true }
-      );
-    } else {
-      setError("No Geolocation");
-      fetchWeather(24.288, 116.117, "MEIXIAN", true);
+  const saveCurrentPlace = () => {
+    if (currentPlace && !isSaved) setPlaces(prev => [...prev, currentPlace]);
+  };
+
+  const deletePlace = (id: string) => {
+    setPlaces(prev => prev.filter(p => p.id !== id));
+    if (currentPlace?.id !== id) {
+      removeWeatherCache(id);
+      removeHistory(id);
     }
-  }, [fetchWeather]);
+  };
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select')) return;
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      const key = e.key.toUpperCase();
+      if (e.key === 'ArrowLeft') cyclePlace(-1);
+      if (e.key === 'ArrowRight') cyclePlace(1);
+      if (key === SHORTCUTS.search) {
+        // Otherwise the slash would land in the search box it opens.
+        e.preventDefault();
+        setShowSearch(true);
+      }
+      if (key === SHORTCUTS.locate && !isLocating) handleLocate(true);
+      if (key === SHORTCUTS.eink) setEinkMode(prev => !prev);
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [cyclePlace, handleLocate, isLocating]);
+
+  const onTouchStart = (e: React.TouchEvent) => {
+    touchStartX.current = e.touches[0].clientX;
+  };
+
+  const onTouchEnd = (e: React.TouchEvent) => {
+    if (touchStartX.current === null) return;
+    const dx = e.changedTouches[0].clientX - touchStartX.current;
+    touchStartX.current = null;
+    // Swiping left reveals the next place, like paging through cards.
+    if (Math.abs(dx) > SWIPE_THRESHOLD) cyclePlace(dx < 0 ? 1 : -1);
+  };
 
   useEffect(() => {
     if (!initialFetchCalled.current) {
       initialFetchCalled.current = true;
-      handleLocate(false);
+      const last = readLastWeatherCache();
+      if (last && places.some(p => p.id === last.data.location.id)) selectPlace(last.data.location);
+      else handleLocate(false);
     }
-  }, [handleLocate]);
+  }, [handleLocate, selectPlace, places]);
 
-  const activeWeather = weather || MOCK_WEATHER.current;
+  // Only keeps the hooks below fed until the first forecast arrives; the screen returns early until then.
+  const baseWeather: WeatherData = weather || MOCK_WEATHER.current;
+  const hourlyForecast = baseWeather.hourly || [];
+  const scrubbedHour = selectedHour !== null ? hourlyForecast[selectedHour] : undefined;
+
+  // Everything below the header renders this view, so scrubbing the timeline re-themes the whole screen.
+  const activeWeather: WeatherData = useMemo(() => scrubbedHour ? {
+    ...baseWeather,
+    temp: scrubbedHour.temp,
+    condition: scrubbedHour.condition,
+    isDay: scrubbedHour.isDay,
+    windSpeed: scrubbedHour.windSpeed,
+    humidity: scrubbedHour.humidity,
+    precipitation: scrubbedHour.precipitation,
+    cloudCover: scrubbedHour.cloudCover
+  } : baseWeather, [baseWeather, scrubbedHour]);
+
+  const drying = useMemo(() => {
+    const past = baseWeather.pastHourly || [];
+    if (past.length === 0 && hourlyForecast.length === 0) return undefined;
+    return getDryingContext([...past, ...hourlyForecast], past.length + (selectedHour ?? 0));
+  }, [baseWeather, hourlyForecast, selectedHour]);
   
-  const theme = useMemo(() => 
-    isEink ? { gradient: 'bg-white', text: 'text-black' } : 
-    (ATMOSPHERIC_THEMES[activeWeather.condition] || ATMOSPHERIC_THEMES.clear), 
-  [activeWeather.condition, isEink]);
-
-  const WeatherIcon = ({ condition, size = 48 }: { condition: WeatherCondition, size?: number }) => {
-    const props = { size, strokeWidth: 1, className: "opacity-40 mb-6 lg:mb-8" };
-    switch (condition) {
-      case 'clear': return <Sun {...props} />;
-      case 'cloudy': return <Cloud {...props} />;
-      case 'rainy': return <CloudRain {...props} />;
-      case 'night': return <Moon {...props} />;
-      case 'hazy': return <Wind {...props} />;
-      default: return <Sun {...props} />;
+  const place = baseWeather.location;
+  const activeMoment = scrubbedHour ? zonedTimeToUtc(scrubbedHour.time, place.timezone) : currentTime.getTime();
+  const activeDate = toLocalIso(new Date(activeMoment), place.timezone).split('T')[0];
+  const solar = useMemo(() => computeSolarDay(activeDate, place.lat, place.lon), [activeDate, place.lat, place.lon]);
+  const moon = useMemo(() => computeMoonDay(activeDate, place.lat, place.lon, place.timezone), [activeDate, place.lat, place.lon, place.timezone]);
+  const clockAt = (ms: number | null) => ms === null ? '—' : locale.time(formatClock(ms, place.timezone));
+
+  // Where the sun actually is decides day or night: the provider's is_day is hourly, and only as fresh as the last fetch.
+  const timeOfDay = isSunUp(activeMoment, place.lat, place.lon) ? 'day' : 'night';
+
+  // The sky is redrawn once a minute at most; the sun moves a quarter of a degree in that time.
+  const skyMinute = Math.floor(activeMoment / 60000) * 60000;
+  const theme = useMemo(() => isEink ? EINK_THEME : atmosphereAt(skyMinute, place, activeWeather),
+  [skyMinute, place, activeWeather, isEink]);
+
+  // Shares what is on screen, scrubbed hour included, with the first activity card's playability (tennis if none).
+  const handleShare = async () => {
+    setIsSharing(true);
+    try {
+      const profile = activityCards[0] ?? TENNIS_PROFILE;
+      const blob = await renderShareCard(activeWeather, {
+        locale,
+        theme,
+        at: activeMoment,
+        activity: { profile, score: scoreActivity(profile, activeWeather, { drying, isDaylight: timeOfDay === 'day' }) },
+        sourceLabel: activeWeather.source ? getWeatherProvider(activeWeather.source).label : undefined,
+        isEink
+      });
+      await shareImage(blob, shareCardFileName(activeWeather, activeMoment), locale.t('share.title', { place: activeWeather.location.name }));
+    } catch (err) {
+      // Closing the share sheet rejects with AbortError; that is the user's choice, not a failure.
+      if (!(err instanceof DOMException && err.name === 'AbortError')) {
+        console.error(err);
+        setError('error.share-failed');
+      }
+    } finally {
+      setIsSharing(false);
     }
   };
 
-  if (isLoading && !weather) {
+  if (!weather) {
     return (
       <div className="flex flex-col items-center justify-center min-h-screen bg-[#FDFCFB] text-stone-400">
         <AtmoLogo className="w-8 h-8 mb-6 opacity-20" />
-        <Loader2 className="animate-spin mb-4" size={24} strokeWidth={1} />
-        <p className="text-[10px] uppercase tracking-[0.5em]">Establishing Sync...</p>
+        {isLoading ? (
+          <>
+            <Loader2 className="animate-spin mb-4" size={24} strokeWidth={1} />
+            <p role="status" className="text-[10px] uppercase tracking-[0.5em]">{locale.t('app.syncing')}</p>
+          </>
+        ) : (
+          <>
+            <p className="text-[10px] uppercase tracking-[0.5em] mb-2">{locale.t('app.no-data')}</p>
+            {error && <p role="alert" className="text-[9px] uppercase tracking-[0.3em] text-red-500 font-bold mb-6">{locale.t(error)}</p>}
+            <button
+              onClick={() => currentPlace ? fetchWeather(currentPlace) : handleLocate(true)}
+              className="text-[9px] uppercase tracking-[0.4em] font-bold border border-stone-300 rounded-full px-5 py-2 hover:text-stone-700 transition-colors"
+            >
+              {locale.t('app.retry')}
+            </button>
+          </>
+        )}
       </div>
     );
   }
 
-  const formattedCity = activeWeather.location.split(',')[0].trim().toUpperCase();
+  const formattedCity = activeWeather.location.name.toUpperCase();
+
+  // Follows the fetched forecast only, so scrubbing the timeline and the clock ticking stay silent.
+  const announcement = locale.t('app.updated', {
+    place: weather.location.name,
+    temp: locale.temperature(weather.temp),
+    condition: locale.condition(weather.condition, weather.isDay)
+  });
+
+  // Data older than a refresh cycle, or kept on screen after a failed load, is shown with its age, never passed off as live.
+  const offlineNotice = weather.fetchedAt !== undefined && (!isOnline || loadFailed || weatherAge > WEATHER_CACHE_TTL)
+    ? locale.t(isOnline ? 'notice.failed-since' : 'notice.offline-since', {
+      time: locale.time(formatClock(weather.fetchedAt)),
+      age: locale.age(weather.fetchedAt, currentTime.getTime())
+    })
+    : null;
 
   return (
-    <div className={`relative min-h-screen w-full transition-colors duration-1000 flex flex-col overflow-hidden ${theme.text}`}>
-      <GrainOverlay />
-      <AnimatePresence mode="wait">
-        <motion.div 
-          key={isEink ? 'eink' : activeWeather.condition} 
-          initial={{ opacity: 0 }} 
-          animate={{ opacity: 1 }} 
-          transition={{ duration: 1.5 }} 
-          className={`fixed inset-0 z-0 bg-gradient-to-br ${theme.gradient}`} 
-        />
-      </AnimatePresence>
-
-      <WeatherAnimations condition={activeWeather.condition} isEink={isEink} />
-
-      <header className="relative z-20 px-6 py-6 md:px-12 md:py-10 flex justify-between items-start w-full">
-        <div className="flex flex-col">
-          <div className="flex items-center gap-1.5 mb-0.5">
-            <AtmoLogo className="w-2.5 h-2.5 opacity-30" />
-            <span className="text-[8px] uppercase tracking-[0.5em] opacity-30 font-bold">Atmosphere</span>
-          </div>
+    <LocaleProvider value={locale}>
+      <div onTouchStart={onTouchStart} onTouchEnd={onTouchEnd} className="relative min-h-screen w-full transition-colors duration-1000 flex flex-col overflow-hidden" style={{ color: theme.text }}>
+        {!highContrast && <GrainOverlay />}
+        <p role="status" className="sr-only">{announcement}</p>
+        <SkyBackdrop background={theme.background} />
+
+        <WeatherAnimations condition={activeWeather.condition} isDay={timeOfDay === 'day'} isEink={isEink} />
+
+        <header className="relative z-20 px-6 py-6 md:px-12 md:py-10 flex justify-between items-start w-full">
           <div className="flex flex-col">
-            <button onClick={() => setShowSearch(!showSearch)} className="group text-left">
-              <span className="text-lg md:text-xl uppercase tracking-[0.3em] font-normal opacity-80 group-hover:opacity-100 transition-opacity whitespace-nowrap">
-                {formattedCity}
-              </span>
-            </button>
+            <div className="flex items-center gap-1.5 mb-0.5">
+              <AtmoLogo className="w-2.5 h-2.5 opacity-30" />
+              <span className="text-[8px] uppercase tracking-[0.5em] opacity-30 font-bold">Atmosphere</span>
+            </div>
+            <div className="flex flex-col">
+              <button onClick={() => setShowSearch(!showSearch)} className="group text-left">
+                <span className="text-lg md:text-xl uppercase tracking-[0.3em] font-normal opacity-80 group-hover:opacity-100 transition-opacity whitespace-nowrap">
+                  {formattedCity}
+                </span>
+              </button>
+              <PlacesBar
+                places={places}
+                currentId={currentPlace?.id ?? null}
+                lastSync={weather.fetchedAt}
+                onSelect={selectPlace}
+                onMove={(id, offset) => setPlaces(prev => movePlace(prev, id, offset))}
+                onDelete={deletePlace}
+              />
+            </div>
           </div>
-        </div>
-
-        <div className="flex gap-4 pt-2">
-          <HeaderAction onClick={() => setShowSearch(!showSearch)} active={showSearch} isEink={isEink}><Search size={18} /></HeaderAction>
-          <HeaderAction onClick={() => handleLocate(true)} disabled={isLocating} isEink={isEink}>
-            <Navigation size={18} className={isLocating ? 'animate-spin' : ''} />
-          </HeaderAction>
-          <HeaderAction onClick={() => setIsEink(!isEink)} active={isEink} isEink={isEink}><Tablet size={18} /></HeaderAction>
-        </div>
-      </header>
-
-      <main className="relative z-10 flex-grow flex flex-col items-center justify-center px-6 md:px-20 py-8">
-        <AnimatePresence>
-          {showSearch && (
-            <motion.div 
-              initial={{ opacity: 0, y: -10 }} 
-              animate={{ opacity: 1, y: 0 }} 
-              exit={{ opacity: 0, y: -10 }} 
-              className="absolute top-24 z-30 w-full max-w-sm px-6"
-            >
-              <form onSubmit={searchCity} className="flex gap-3 border-b border-current/20 pb-2.5 items-center bg-transparent">
-                <input autoFocus type="text" placeholder="Search City..." value={manualSearch} onChange={(e) => setManualSearch(e.target.value)} className="bg-transparent border-none outline-none flex-grow text-[11px] uppercase tracking-[0.3em] placeholder:opacity-20" />
-                <button type="submit" className="opacity-40 hover:opacity-100"><Search size={14}/></button>
-              </form>
-            </motion.div>
-          )}
-        </AnimatePresence>
-
-        <div className="w-full max-w-5xl grid grid-cols-1 lg:grid-cols-2 gap-8 lg:gap-24 items-center">
-          <section className="flex flex-col items-center lg:items-start text-center lg:text-left">
-            <WeatherIcon condition={activeWeather.condition} size={64} />
-            <h2 className={`text-[7rem] md:text-[10rem] leading-[0.75] tracking-tighter ${isEink ? 'font-serif font-black' : 'font-[100]'}`}>
-              {Math.round(activeWeather.temp)}°
-            </h2>
-            <h3 className={`mt-4 text-2xl md:text-5xl ${isEink ? 'font-serif font-black italic' : 'font-[200]'} tracking-[0.25em] uppercase opacity-70`}>
-              {activeWeather.condition}
-            </h3>
-          </section>
-
-          <section className="flex flex-col gap-5 w-full max-w-md mx-auto lg:mx-0">
-            <TennisIndex weather={activeWeather} isEink={isEink} />
-            <div className="grid grid-cols-2 gap-4">
-              <StatCard label="Wind" value={`${Math.round(activeWeather.windSpeed)} km/h`} icon={<Wind size={14} strokeWidth={1.5}/>} isEink={isEink} />
-              <StatCard label="Humidity" value={`${activeWeather.humidity}%`} icon={<Droplets size={14} strokeWidth={1.5}/>} isEink={isEink} />
-              <StatCard label="Sunrise" value={activeWeather.sunrise || "07:02"} icon={<Sunrise size={14} strokeWidth={1.5}/>} isEink={isEink} />
-              <StatCard label="Sunset" value={activeWeather.sunset || "18:08"} icon={<Sunset size={14} strokeWidth={1.5}/>} isEink={isEink} />
+
+          <div className="flex gap-4 pt-2">
+            <HeaderAction label={locale.t('action.save-place')} onClick={saveCurrentPlace} active={isSaved} disabled={!currentPlace} isEink={isEink}>
+              {isSaved ? <BookmarkCheck size={18} /> : <Bookmark size={18} />}
+            </HeaderAction>
+            <HeaderAction label={locale.t('action.search')} shortcut={SHORTCUTS.search} onClick={() => setShowSearch(!showSearch)} active={showSearch} isEink={isEink}><Search size={18} /></HeaderAction>
+            <HeaderAction label={locale.t('action.locate')} shortcut={SHORTCUTS.locate} onClick={() => handleLocate(true)} disabled={isLocating} isEink={isEink}>
+              <Navigation size={18} className={isLocating ? 'animate-spin' : ''} />
+            </HeaderAction>
+            <HeaderAction label={locale.t('action.share')} onClick={handleShare} disabled={isSharing} isEink={isEink}><Share2 size={18} /></HeaderAction>
+            <HeaderAction label={locale.t('action.eink')} shortcut={SHORTCUTS.eink} onClick={() => setEinkMode(!einkMode)} active={isEink} disabled={highContrast} isEink={isEink}><Tablet size={18} /></HeaderAction>
+            <HeaderAction label={locale.t('action.settings')} onClick={() => setShowSettings(!showSettings)} active={showSettings} isEink={isEink}><Settings size={18} /></HeaderAction>
+          </div>
+        </header>
+
+        <main className="relative z-10 flex-grow flex flex-col items-center justify-center px-6 md:px-20 py-8">
+          <AnimatePresence>
+            {showSettings && (
+              <motion.div 
+                initial={{ opacity: 0, y: -10 }} 
+                animate={{ opacity: 1, y: 0 }} 
+                exit={{ opacity: 0, y: -10 }} 
+                className="absolute top-24 right-0 z-30 w-full max-w-sm px-6"
+              >
+                <SettingsPanel settings={settings} onChange={setSettings} isEink={isEink} />
+                {weather && (
+                  <div className="mt-3">
+                    <AlertSettings
+                      placeName={weather.location.name}
+                      thresholds={thresholdsFor(alertThresholds, weather.location.id)}
+                      onChange={(thresholds) => setAlertThresholds(prev => ({ ...prev, [weather.location.id]: thresholds }))}
+                      isEink={isEink}
+                    />
+                  </div>
+                )}
+              </motion.div>
+            )}
+          </AnimatePresence>
+
+          <AnimatePresence>
+            {showSearch && (
+              <motion.div 
+                initial={{ opacity: 0, y: -10 }} 
+                animate={{ opacity: 1, y: 0 }} 
+                exit={{ opacity: 0, y: -10 }} 
+                className="absolute top-24 z-30 w-full max-w-sm px-6"
+              >
+                <LocationSearch
+                  onSelect={(place) => {
+                    setShowSearch(false);
+                    selectPlace(place);
+                  }}
+                  onError={setError}
+                  onClose={() => setShowSearch(false)}
+                  isEink={isEink}
+                />
+              </motion.div>
+            )}
+          </AnimatePresence>
+
+          {offlineNotice && (
+            <div className="w-full max-w-5xl mb-6 flex items-center gap-2 text-[9px] uppercase tracking-[0.4em] font-bold opacity-60">
+              <WifiOff size={12} strokeWidth={1.5} /> {offlineNotice}
             </div>
-          </section>
-        </div>
-      </main>
-
-      <footer className="relative z-10 p-6 md:px-12 md:py-10 flex justify-between items-center text-[7px] uppercase tracking-[0.6em] opacity-30">
-        <div className="flex items-center gap-4">
-          <AtmoLogo className="w-2.5 h-2.5" />
-          <span>SOURCE: OPEN-METEO</span>
-        </div>
+          )}
+
+          <AlertBanners alerts={visibleAlerts} onDismiss={(id) => setAlertLog(prev => dismissAlert(prev, id))} isEink={isEink} />
+
+          <div className="w-full max-w-5xl grid grid-cols-1 lg:grid-cols-2 gap-8 lg:gap-24 items-center">
+            <section className="flex flex-col items-center lg:items-start text-center lg:text-left">
+              <WeatherIcon condition={activeWeather.condition} isDay={timeOfDay === 'day'} size={64} className="opacity-40 mb-6 lg:mb-8" />
+              <h2 className={`text-[7rem] md:text-[10rem] leading-[0.75] tracking-tighter ${isEink ? 'font-serif font-black' : 'font-[100]'}`}>
+                {locale.temperature(activeWeather.temp)}
+              </h2>
+              <h3 className={`mt-4 text-2xl md:text-5xl ${isEink ? 'font-serif font-black italic' : 'font-[200]'} tracking-[0.25em] uppercase opacity-70`}>
+                {locale.condition(activeWeather.condition, timeOfDay === 'day')}
+              </h3>
+              <DailyBriefing weather={baseWeather} source={settings.briefing} now={currentTime} />
+            </section>
+
+            <section className="flex flex-col gap-5 w-full max-w-md mx-auto lg:mx-0">
+              {activityCards.map(profile => (
+                <ActivityIndex key={profile.id} profile={profile} weather={activeWeather} drying={drying} isDaylight={timeOfDay === 'day'} isEink={isEink} />
+              ))}
+              <AnimatePresence>
+                {showActivities && (
+                  <ActivityPicker
+                    profiles={profiles}
+                    visible={visibleCards}
+                    onToggle={toggleCard}
+                    onAddProfile={addProfile}
+                    onDeleteProfile={deleteProfile}
+                    isEink={isEink}
+                  />
+                )}
+              </AnimatePresence>
+              <button
+                onClick={() => setShowActivities(!showActivities)}
+                className={`self-end flex items-center gap-2 text-[8px] uppercase tracking-[0.4em] font-bold transition-opacity ${showActivities ? 'opacity-80' : 'opacity-30 hover:opacity-80'}`}
+              >
+                <SlidersHorizontal size={12} strokeWidth={1.5} /> {locale.t('app.activities')}
+              </button>
+              <div className="grid grid-cols-2 gap-4">
+                <StatCard label={locale.t('stat.wind')} value={locale.wind(activeWeather.windSpeed)} icon={<Wind size={14} strokeWidth={1.5}/>} isEink={isEink} />
+                <StatCard label={locale.t('stat.humidity')} value={`${activeWeather.humidity}%`} icon={<Droplets size={14} strokeWidth={1.5}/>} isEink={isEink} />
+                <StatCard label={locale.t('stat.sunrise')} value={clockAt(solar.sunrise)} icon={<Sunrise size={14} strokeWidth={1.5}/>} isEink={isEink} />
+                <StatCard label={locale.t('stat.sunset')} value={clockAt(solar.sunset)} icon={<Sunset size={14} strokeWidth={1.5}/>} isEink={isEink} />
+              </div>
+              <SunArc place={place} solar={solar} moon={moon} at={activeMoment} isEink={isEink} />
+              {baseWeather.airQuality && <AirQualityPanel air={baseWeather.airQuality} isEink={isEink} />}
+              <ClimateTrends place={baseWeather.location} today={baseWeather.daily?.[0]} offline={getWeatherProvider(settings.weatherProvider).offline} isEink={isEink} />
+            </section>
+          </div>
+
+          {hourlyForecast.length > 0 && (
+            <ForecastTimeline
+              hourly={hourlyForecast}
+              daily={baseWeather.daily || []}
+              selectedHour={selectedHour}
+              onSelectHour={setSelectedHour}
+              isEink={isEink}
+            />
+          )}
+
+          {hourlyForecast.length > 0 && (
+            <TennisPlanner
+              hourly={hourlyForecast}
+              daily={baseWeather.daily || []}
+              pastHourly={baseWeather.pastHourly || []}
+              onSelectHour={setSelectedHour}
+              isEink={isEink}
+            />
+          )}
+        </main>
+
+        <footer className="relative z-10 p-6 md:px-12 md:py-10 flex justify-between items-center text-[7px] uppercase tracking-[0.6em] opacity-30">
+          <div className="flex items-center gap-4">
+            <AtmoLogo className="w-2.5 h-2.5" />
+            <span>{locale.t('app.source', { source: getWeatherProvider(activeWeather.source ?? settings.weatherProvider).label }).toUpperCase()}</span>
+          </div>
         
-        <div className="flex gap-8 items-center">
-          {error && <div className="text-red-500 font-bold tracking-[0.1em]">{error}</div>}
-          <span className="whitespace-nowrap font-medium">ZEN v2.1.0</span>
-        </div>
-      </footer>
-    </div>
+          <div className="flex gap-8 items-center">
+            {error && <div role="alert" className="text-red-500 font-bold tracking-[0.1em]">{locale.t(error)}</div>}
+            <span className="whitespace-nowrap font-medium">ZEN v2.1.0</span>
+          </div>
+        </footer>
+      </div>
+    </LocaleProvider>
   );
 };
 
-const HeaderAction: React.FC<{ children: React.ReactNode, onClick: () => void, active?: boolean, disabled?: boolean, isEink: boolean }> = ({ children, onClick, active, disabled, isEink }) => (
-  <button onClick={onClick} disabled={disabled} className={`p-1 transition-all duration-300 ${disabled ? 'opacity-20 cursor-not-allowed' : 'opacity-40 hover:opacity-100'} ${active && !disabled ? 'opacity-100 scale-110' : ''}`}>
-    {children}
-  </button>
-);
-
-const StatCard: React.FC<{ label: string, value: string, icon?: React.ReactNode, isEink: boolean }> = ({ label, value, icon, isEink }) => (
-  <div className={`p-5 md:p-7 rounded-[2rem] transition-all flex flex-col justify-between ${isEink ? 'bg-white border-black text-black border-2' : 'bg-stone-800/5'}`}>
-    <div className="flex justify-between items-start mb-4">
-      <p className="text-[9px] uppercase tracking-[0.3em] font-bold opacity-30">{label}</p>
-      <span className="opacity-30">{icon}</span>
-    </div>
-    <p className={`text-2xl md:text-3xl ${isEink ? 'font-serif font-black' : 'font-[300]'} tracking-tight`}>{value}</p>
-  </div>
-);
-
 export default App;
@@ -0,0 +1,27 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import ActivityIndex from './ActivityIndex';
+import { TENNIS_PROFILE, ACTIVITY_PROFILES } from '../constants';
+import { weather } from '../test/weather';
+
+const score = () => Number(screen.getByRole('progressbar').getAttribute('aria-valuenow'));
+
+describe('ActivityIndex', () => {
+  it('scores perfect conditions in daylight', () => {
+    render(<ActivityIndex profile={TENNIS_PROFILE} weather={weather()} isDaylight isEink={false} />);
+    expect(score()).toBe(100);
+  });
+
+  it('rules out a daylight-only activity after dark, as the planner does', () => {
+    render(<ActivityIndex profile={TENNIS_PROFILE} weather={weather()} isDaylight={false} isEink={false} />);
+    expect(score()).toBe(0);
+    expect(screen.getByText('No daylight')).toBeTruthy();
+  });
+
+  it('leaves activities that need no daylight alone at night', () => {
+    const anytime = ACTIVITY_PROFILES.find(p => !p.requiresDaylight)!;
+    render(<ActivityIndex profile={anytime} weather={weather()} isDaylight={false} isEink={false} />);
+    expect(score()).toBeGreaterThan(0);
+  });
+});
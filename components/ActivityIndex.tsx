@@ -1,24 +1,21 @@
 
 import React from 'react';
 import { motion } from 'framer-motion';
-import { WeatherData } from '../types';
+import { WeatherData, ActivityProfile } from '../types';
+import { scoreActivity, DryingContext } from '../utils/activityScoring';
+import { useLocale } from '../i18n';
 
-interface TennisIndexProps {
+interface ActivityIndexProps {
+  profile: ActivityProfile;
   weather: WeatherData;
+  drying?: DryingContext;
+  isDaylight: boolean;
   isEink: boolean;
 }
 
-const TennisIndex: React.FC<TennisIndexProps> = ({ weather, isEink }) => {
-  const getTennisData = () => {
-    const { windSpeed, temp, precipitation } = weather;
-    if (precipitation > 0) return { status: "COURTS WET", score: 20, color: 'bg-red-400', label: 'Poor' };
-    if (windSpeed > 25) return { status: "TOO WINDY", score: 40, color: 'bg-amber-400', label: 'Fair' };
-    if (temp < 10 || temp > 35) return { status: "EXTREME TEMP", score: 50, color: 'bg-amber-400', label: 'Okay' };
-    if (temp >= 18 && temp <= 24 && windSpeed < 10) return { status: "ELITE PLAY", score: 100, color: 'bg-emerald-400', label: 'Perfect' };
-    return { status: "GOOD PLAY", score: 80, color: 'bg-emerald-300', label: 'Solid' };
-  };
-
-  const data = getTennisData();
+const ActivityIndex: React.FC<ActivityIndexProps> = ({ profile, weather, drying, isDaylight, isEink }) => {
+  const { t, profileTitle } = useLocale();
+  const data = scoreActivity(profile, weather, { drying, isDaylight });
 
   return (
     <motion.div 
@@ -28,13 +25,21 @@ const TennisIndex: React.FC<TennisIndexProps> = ({ weather, isEink }) => {
         ${isEink ? 'bg-white border-black text-black border-2' : 'bg-stone-800/5'}`}
     >
       <div className="flex justify-between items-baseline mb-2">
-        <span className="text-[9px] uppercase tracking-[0.4em] font-bold opacity-30">Tennis Playability</span>
+        <span className="text-[9px] uppercase tracking-[0.4em] font-bold opacity-30">{profileTitle(profile)}</span>
         <span className={`text-[9px] font-bold uppercase tracking-[0.2em] ${isEink ? '' : 'opacity-40'}`}>
-          {data.status}
+          {t(data.status)}
         </span>
       </div>
 
-      <div className="h-[1.5px] w-full bg-current/10 relative mb-6">
+      <div
+        role="progressbar"
+        aria-label={profileTitle(profile)}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={data.score}
+        aria-valuetext={`${t(data.label)}, ${t('activity.sync', { score: data.score })}`}
+        className="h-[1.5px] w-full bg-current/10 relative mb-6"
+      >
         <motion.div 
           initial={{ width: 0 }}
           animate={{ width: `${data.score}%` }}
@@ -45,14 +50,14 @@ const TennisIndex: React.FC<TennisIndexProps> = ({ weather, isEink }) => {
 
       <div className="flex justify-between items-baseline">
         <p className={`text-3xl md:text-4xl ${isEink ? 'font-serif font-black italic' : 'font-[300]'} tracking-tight`}>
-          {data.label}
+          {t(data.label)}
         </p>
         <div className="text-right">
-          <span className="text-[9px] opacity-40 uppercase tracking-[0.3em] font-bold">Sync {data.score}%</span>
+          <span className="text-[9px] opacity-40 uppercase tracking-[0.3em] font-bold">{t('activity.sync', { score: data.score })}</span>
         </div>
       </div>
     </motion.div>
   );
 };
 
-export default TennisIndex;
+export default ActivityIndex;
@@ -0,0 +1,31 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import ActivityPicker from './ActivityPicker';
+import { ACTIVITY_PROFILES } from '../constants';
+import { LocaleProvider, createLocale } from '../i18n';
+import { US_UNITS } from '../utils/units';
+
+describe('ActivityPicker', () => {
+  it('shows a custom profile\'s limits in the user\'s units and stores them metric', () => {
+    const onAddProfile = vi.fn();
+    render(
+      <LocaleProvider value={createLocale('en', US_UNITS)}>
+        <ActivityPicker profiles={ACTIVITY_PROFILES} visible={['tennis']} onToggle={vi.fn()} onAddProfile={onAddProfile} onDeleteProfile={vi.fn()} isEink={false} />
+      </LocaleProvider>
+    );
+    fireEvent.click(screen.getByRole('button', { name: 'Custom' }));
+
+    expect((screen.getByLabelText('Ideal Min °F') as HTMLInputElement).value).toBe('64.4');
+    expect((screen.getByLabelText('Max Wind mph') as HTMLInputElement).value).toBe('15.5');
+
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Pickleball' } });
+    fireEvent.change(screen.getByLabelText('Max Wind mph'), { target: { value: '20' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    const saved = onAddProfile.mock.calls[0][0];
+    expect(saved.name).toBe('Pickleball');
+    expect(saved.wind.max).toBeCloseTo(32.19, 2);
+    expect(saved.temp.idealMin).toBeCloseTo(18);
+  });
+});
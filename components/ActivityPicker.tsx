@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Plus, X } from 'lucide-react';
+import { ActivityProfile } from '../types';
+import { createCustomProfile } from '../utils/activityProfiles';
+import { convertTemperature, toCelsius, convertWind, toKmh, convertPrecipitation, toMillimetres, roundForInput, TEMPERATURE_UNIT_LABELS, WIND_UNIT_LABELS, PRECIPITATION_UNIT_LABELS } from '../utils/units';
+import { useLocale } from '../i18n';
+
+interface ActivityPickerProps {
+  profiles: ActivityProfile[];
+  visible: string[];
+  onToggle: (id: string) => void;
+  onAddProfile: (profile: ActivityProfile) => void;
+  onDeleteProfile: (id: string) => void;
+  isEink: boolean;
+}
+
+const NumberField: React.FC<{ label: string, value: number, onChange: (value: number) => void }> = ({ label, value, onChange }) => (
+  <label className="flex flex-col gap-1">
+    <span className="text-[8px] uppercase tracking-[0.3em] font-bold opacity-40">{label}</span>
+    <input
+      type="number"
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="bg-transparent border-b border-current/20 outline-none text-sm w-full pb-1"
+    />
+  </label>
+);
+
+const ActivityPicker: React.FC<ActivityPickerProps> = ({ profiles, visible, onToggle, onAddProfile, onDeleteProfile, isEink }) => {
+  const { t, units, profileName } = useLocale();
+  const [draft, setDraft] = useState<ActivityProfile | null>(null);
+
+  const startDraft = (base: ActivityProfile) => setDraft(createCustomProfile('', base, profiles));
+
+  const saveDraft = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || !draft.name.trim()) return;
+    onAddProfile(createCustomProfile(draft.name, draft, profiles));
+    setDraft(null);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -10 }}
+      className={`p-6 rounded-[2rem] ${isEink ? 'bg-white border-black text-black border-2' : 'bg-stone-800/5'}`}
+    >
+      <p className="text-[9px] uppercase tracking-[0.4em] font-bold opacity-30 mb-4">{t('activity.cards')}</p>
+      <div className="flex flex-wrap gap-2">
+        {profiles.map(p => {
+          const on = visible.includes(p.id);
+          return (
+            <span key={p.id} className={`flex items-center gap-1 rounded-full border px-3 py-1 text-[9px] uppercase tracking-[0.2em] font-bold transition-opacity
+              ${on ? 'border-current opacity-100' : 'border-current/20 opacity-40 hover:opacity-80'}`}>
+              <button onClick={() => onToggle(p.id)} aria-pressed={on}>{profileName(p)}</button>
+              {p.custom && (
+                <button onClick={() => onDeleteProfile(p.id)} aria-label={t('activity.delete', { name: profileName(p) })} className="opacity-50 hover:opacity-100"><X size={10} /></button>
+              )}
+            </span>
+          );
+        })}
+        {!draft && (
+          <button
+            onClick={() => startDraft(profiles[0])}
+            className="flex items-center gap-1 rounded-full border border-dashed border-current/30 px-3 py-1 text-[9px] uppercase tracking-[0.2em] font-bold opacity-40 hover:opacity-100"
+          >
+            <Plus size={10} /> {t('activity.custom')}
+          </button>
+        )}
+      </div>
+
+      {draft && (
+        <form onSubmit={saveDraft} className="mt-6 flex flex-col gap-4">
+          <div className="grid grid-cols-2 gap-4">
+            <label className="flex flex-col gap-1">
+              <span className="text-[8px] uppercase tracking-[0.3em] font-bold opacity-40">{t('activity.name')}</span>
+              <input
+                autoFocus
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className="bg-transparent border-b border-current/20 outline-none text-sm pb-1"
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-[8px] uppercase tracking-[0.3em] font-bold opacity-40">{t('activity.based-on')}</span>
+              <select
+                onChange={(e) => {
+                  const base = profiles.find(p => p.id === e.target.value);
+                  if (base) setDraft({ ...createCustomProfile('', base, profiles), name: draft.name });
+                }}
+                className="bg-transparent border-b border-current/20 outline-none text-sm pb-1"
+              >
+                {profiles.map(p => <option key={p.id} value={p.id}>{profileName(p)}</option>)}
+              </select>
+            </label>
+            {/* Profiles are stored metric; the fields show and accept the user's units. */}
+            <NumberField
+              label={t('activity.ideal-min', { unit: TEMPERATURE_UNIT_LABELS[units.temperature] })}
+              value={roundForInput(convertTemperature(draft.temp.idealMin, units.temperature))}
+              onChange={(v) => setDraft({ ...draft, temp: { ...draft.temp, idealMin: toCelsius(v, units.temperature) } })}
+            />
+            <NumberField
+              label={t('activity.ideal-max', { unit: TEMPERATURE_UNIT_LABELS[units.temperature] })}
+              value={roundForInput(convertTemperature(draft.temp.idealMax, units.temperature))}
+              onChange={(v) => setDraft({ ...draft, temp: { ...draft.temp, idealMax: toCelsius(v, units.temperature) } })}
+            />
+            <NumberField
+              label={t('activity.max-wind', { unit: WIND_UNIT_LABELS[units.wind] })}
+              value={roundForInput(convertWind(draft.wind.max, units.wind))}
+              onChange={(v) => setDraft({ ...draft, wind: { ...draft.wind, max: toKmh(v, units.wind) } })}
+            />
+            <NumberField label={t('activity.max-humidity')} value={draft.humidity.max} onChange={(v) => setDraft({ ...draft, humidity: { ...draft.humidity, max: v } })} />
+            <NumberField
+              label={t('activity.rain-ok', { unit: PRECIPITATION_UNIT_LABELS[units.precipitation] })}
+              value={roundForInput(convertPrecipitation(draft.precipitation.max, units.precipitation), 2)}
+              onChange={(v) => setDraft({ ...draft, precipitation: { ...draft.precipitation, max: toMillimetres(v, units.precipitation) } })}
+            />
+            <NumberField label={t('activity.wind-weight')} value={draft.wind.weight} onChange={(v) => setDraft({ ...draft, wind: { ...draft.wind, weight: v } })} />
+          </div>
+          <div className="flex justify-end gap-4 text-[9px] uppercase tracking-[0.3em] font-bold">
+            <button type="button" onClick={() => setDraft(null)} className="opacity-40 hover:opacity-100">{t('activity.cancel')}</button>
+            <button type="submit" className="opacity-70 hover:opacity-100">{t('activity.save')}</button>
+          </div>
+        </form>
+      )}
+    </motion.div>
+  );
+};
+
+export default ActivityPicker;
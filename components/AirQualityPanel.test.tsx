@@ -0,0 +1,13 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import AirQualityPanel from './AirQualityPanel';
+
+describe('AirQualityPanel', () => {
+  it('says there is no data for a missing reading instead of rating it', () => {
+    render(<AirQualityPanel air={{ pm2_5: 4.1, pm10: 6.3, ozone: 58, pollen: {} }} isEink={false} />);
+    expect(screen.getByText('AQI unavailable')).toBeTruthy();
+    expect(screen.getAllByText('No data')).toHaveLength(1);
+    expect(screen.queryByText(/^AQI 0/)).toBeNull();
+  });
+});
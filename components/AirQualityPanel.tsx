@@ -0,0 +1,91 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { AirQuality } from '../types';
+import { AirMetric, healthBand, bandCount, BAND_COLORS, POLLEN_KINDS } from '../utils/airQuality';
+import { useLocale } from '../i18n';
+
+interface AirQualityPanelProps {
+  air: AirQuality;
+  isEink: boolean;
+}
+
+// One segment per band, filled up to the current one. On e-ink the count of filled segments carries the band on its own.
+const BandMeter: React.FC<{ metric: AirMetric, value: number, isEink: boolean }> = ({ metric, value, isEink }) => {
+  const { level } = healthBand(metric, value);
+  return (
+    <span className="flex gap-[3px]" aria-hidden="true">
+      {Array.from({ length: bandCount(metric) }, (_, i) => (
+        <span
+          key={i}
+          className={`block w-2.5 h-1.5 rounded-full
+            ${isEink
+              ? i <= level ? 'bg-black' : 'border border-black'
+              : i <= level ? BAND_COLORS[level] : 'bg-current opacity-10'}`}
+        />
+      ))}
+    </span>
+  );
+};
+
+// A missing reading keeps its row, so the panel does not reflow from one hour to the next, but shows no value or band.
+const MetricRow: React.FC<{ label: string, metric: AirMetric, value?: number, unit?: string, isEink: boolean }> = ({ label, metric, value, unit, isEink }) => {
+  const { t } = useLocale();
+  return (
+    <li className="flex items-center justify-between gap-4">
+      <span className="text-[8px] uppercase tracking-[0.3em] font-bold opacity-40 w-16 shrink-0">{label}</span>
+      <span className="text-sm tabular-nums flex-grow">
+        {value === undefined ? '—' : <>{Math.round(value)}{unit && <span className="text-[9px] opacity-50"> {unit}</span>}</>}
+      </span>
+      <span className="text-[9px] uppercase tracking-[0.15em] font-bold opacity-60 text-right">
+        {t(value === undefined ? 'air.no-data' : healthBand(metric, value).label)}
+      </span>
+      {value !== undefined && <BandMeter metric={metric} value={value} isEink={isEink} />}
+    </li>
+  );
+};
+
+const AirQualityPanel: React.FC<AirQualityPanelProps> = ({ air, isEink }) => {
+  const { t } = useLocale();
+  const aqiBand = air.aqi === undefined ? null : healthBand('aqi', air.aqi);
+  const pollen = POLLEN_KINDS.filter(kind => air.pollen[kind] !== undefined);
+  const airborne = pollen.filter(kind => air.pollen[kind]! > 0);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={`flex flex-col gap-5 p-6 md:p-8 rounded-[2rem] transition-all duration-700
+        ${isEink ? 'bg-white border-black text-black border-2' : 'bg-stone-800/5'}`}
+    >
+      <div className="flex justify-between items-baseline gap-4">
+        <span className="text-[9px] uppercase tracking-[0.4em] font-bold opacity-30">{t('air.title')}</span>
+        <span className="flex items-center gap-2 text-[9px] font-bold uppercase tracking-[0.2em]">
+          {!isEink && aqiBand && <span className={`block w-2 h-2 rounded-full ${BAND_COLORS[aqiBand.level]}`} />}
+          {aqiBand ? t('air.aqi-summary', { aqi: Math.round(air.aqi!), band: t(aqiBand.label) }) : t('air.aqi-unavailable')}
+        </span>
+      </div>
+
+      <ul className="flex flex-col gap-3">
+        <MetricRow label={t('air.pm2_5')} metric="pm2_5" value={air.pm2_5} unit="µg/m³" isEink={isEink} />
+        <MetricRow label={t('air.pm10')} metric="pm10" value={air.pm10} unit="µg/m³" isEink={isEink} />
+        <MetricRow label={t('air.ozone')} metric="ozone" value={air.ozone} unit="µg/m³" isEink={isEink} />
+        <MetricRow label={t('air.uv')} metric="uv" value={air.uvIndex} isEink={isEink} />
+      </ul>
+
+      <div className="pt-4 border-t border-current/10">
+        <p className="text-[8px] uppercase tracking-[0.4em] font-bold opacity-30 mb-3">{t('air.pollen')}</p>
+        {airborne.length > 0 ? (
+          <ul className="flex flex-col gap-3">
+            {airborne.map(kind => (
+              <MetricRow key={kind} label={t(`pollen.${kind}`)} metric={kind} value={air.pollen[kind]!} unit="/m³" isEink={isEink} />
+            ))}
+          </ul>
+        ) : (
+          <p className="text-[10px] tracking-[0.1em] opacity-50">{t(pollen.length > 0 ? 'air.pollen-none' : 'air.pollen-unavailable')}</p>
+        )}
+      </div>
+    </motion.div>
+  );
+};
+
+export default AirQualityPanel;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { AlertTriangle, X } from 'lucide-react';
+import { WeatherAlert } from '../types';
+import { useLocale } from '../i18n';
+
+interface AlertBannersProps {
+  alerts: WeatherAlert[];
+  onDismiss: (id: string) => void;
+  isEink: boolean;
+}
+
+const AlertBanners: React.FC<AlertBannersProps> = ({ alerts, onDismiss, isEink }) => {
+  const { t, alertTitle, alertMessage } = useLocale();
+  return (
+    <div className="w-full max-w-5xl flex flex-col gap-2 mb-8 empty:hidden">
+      <AnimatePresence initial={false}>
+        {alerts.map(alert => (
+          <motion.div
+            key={alert.id}
+            layout
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, height: 0 }}
+            role="alert"
+            className={`flex items-center gap-4 px-5 py-3 rounded-[2rem] ${isEink ? 'bg-white border-black text-black border-2' : 'bg-amber-400/20 backdrop-blur-md'}`}
+          >
+            <AlertTriangle size={14} strokeWidth={1.5} className="shrink-0 opacity-70" />
+            <span className="flex-grow flex flex-col md:flex-row md:items-baseline md:gap-4">
+              <span className="text-[9px] uppercase tracking-[0.35em] font-bold">{alertTitle(alert)}</span>
+              <span className="text-[11px] tracking-[0.05em] opacity-70">{alertMessage(alert)}</span>
+            </span>
+            <button onClick={() => onDismiss(alert.id)} aria-label={t('action.dismiss')} className="opacity-40 hover:opacity-100"><X size={12} /></button>
+          </motion.div>
+        ))}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default AlertBanners;
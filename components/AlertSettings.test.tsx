@@ -0,0 +1,43 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import AlertSettings from './AlertSettings';
+import { DEFAULT_ALERT_THRESHOLDS } from '../utils/alerts';
+
+const renderSettings = () => {
+  const onChange = vi.fn();
+  render(<AlertSettings placeName="London" thresholds={DEFAULT_ALERT_THRESHOLDS} onChange={onChange} isEink={false} />);
+  return { onChange, gust: screen.getByLabelText('Gusts km/h') as HTMLInputElement };
+};
+
+describe('AlertSettings', () => {
+  it('saves nothing while a threshold is being retyped', () => {
+    const { onChange, gust } = renderSettings();
+    fireEvent.change(gust, { target: { value: '' } });
+    fireEvent.change(gust, { target: { value: '9' } });
+    fireEvent.change(gust, { target: { value: '90' } });
+    expect(onChange).not.toHaveBeenCalled();
+
+    fireEvent.blur(gust);
+    expect(onChange).toHaveBeenCalledExactlyOnceWith({ ...DEFAULT_ALERT_THRESHOLDS, gust: 90 });
+  });
+
+  it('saves on Enter', () => {
+    const { onChange, gust } = renderSettings();
+    fireEvent.change(gust, { target: { value: '55' } });
+    fireEvent.keyDown(gust, { key: 'Enter' });
+    expect(onChange).toHaveBeenCalledWith({ ...DEFAULT_ALERT_THRESHOLDS, gust: 55 });
+  });
+
+  it('puts the saved value back when the field is left empty or out of range', () => {
+    const { onChange, gust } = renderSettings();
+    fireEvent.change(gust, { target: { value: '' } });
+    fireEvent.blur(gust);
+    expect(gust.value).toBe('70');
+
+    fireEvent.change(gust, { target: { value: '0' } });
+    fireEvent.blur(gust);
+    expect(gust.value).toBe('70');
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Bell, BellOff } from 'lucide-react';
+import { AlertThresholds } from '../types';
+import { canNotify, requestNotificationPermission, ALERT_THRESHOLD_RANGES } from '../utils/alerts';
+import { convertTemperature, toCelsius, convertWind, toKmh, convertPrecipitation, toMillimetres, roundForInput, TEMPERATURE_UNIT_LABELS, WIND_UNIT_LABELS, PRECIPITATION_UNIT_LABELS } from '../utils/units';
+import { useLocale } from '../i18n';
+
+interface AlertSettingsProps {
+  placeName: string;
+  thresholds: AlertThresholds;
+  onChange: (thresholds: AlertThresholds) => void;
+  isEink: boolean;
+}
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+}
+
+// Saved on blur or Enter, and only when in range: a cleared or half-typed field would otherwise become a live
+// threshold that alerts, and is logged as raised, before the user has finished typing. Anything else reverts.
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, min, max, onChange }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft === null) return;
+    const next = Number(draft);
+    if (draft.trim() !== '' && Number.isFinite(next) && next >= min && next <= max && next !== value) onChange(next);
+    setDraft(null);
+  };
+
+  return (
+    <label className="flex flex-col gap-1">
+      <span className="text-[8px] uppercase tracking-[0.3em] font-bold opacity-40">{label}</span>
+      <input
+        type="number"
+        min={min}
+        max={max}
+        value={draft ?? value}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === 'Enter' && commit()}
+        className="bg-transparent border-b border-current/20 outline-none text-sm w-full pb-1"
+      />
+    </label>
+  );
+};
+
+const AlertSettings: React.FC<AlertSettingsProps> = ({ placeName, thresholds, onChange, isEink }) => {
+  const { t, units } = useLocale();
+  const [permission, setPermission] = useState<NotificationPermission>(canNotify() ? Notification.permission : 'denied');
+
+  const enableNotifications = async () => setPermission(await requestNotificationPermission());
+
+  return (
+    <div className={`flex flex-col gap-4 p-6 rounded-[2rem] ${isEink ? 'bg-white border-black text-black border-2' : 'bg-white/40 backdrop-blur-md'}`}>
+      <div className="flex justify-between items-baseline gap-4">
+        <span className="text-[8px] uppercase tracking-[0.4em] font-bold opacity-30">{t('alerts.heading', { place: placeName })}</span>
+        {canNotify() && (
+          <button
+            onClick={enableNotifications}
+            disabled={permission !== 'default'}
+            className="flex items-center gap-1.5 text-[8px] uppercase tracking-[0.3em] font-bold opacity-40 hover:opacity-100 disabled:hover:opacity-40"
+          >
+            {permission === 'granted' ? <><Bell size={10} /> {t('alerts.notifying')}</>
+              : permission === 'denied' ? <><BellOff size={10} /> {t('alerts.blocked')}</>
+              : <><Bell size={10} /> {t('alerts.notify-me')}</>}
+          </button>
+        )}
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        {/* Thresholds are stored metric so the alert rules compare like with like. */}
+        <NumberField
+          label={t('alerts.gust-threshold', { unit: WIND_UNIT_LABELS[units.wind] })}
+          value={roundForInput(convertWind(thresholds.gust, units.wind))}
+          min={roundForInput(convertWind(ALERT_THRESHOLD_RANGES.gust.min, units.wind))}
+          max={roundForInput(convertWind(ALERT_THRESHOLD_RANGES.gust.max, units.wind))}
+          onChange={(v) => onChange({ ...thresholds, gust: toKmh(v, units.wind) })}
+        />
+        <NumberField
+          label={t('alerts.rain-threshold', { unit: PRECIPITATION_UNIT_LABELS[units.precipitation] })}
+          value={roundForInput(convertPrecipitation(thresholds.precipitation, units.precipitation), 2)}
+          min={roundForInput(convertPrecipitation(ALERT_THRESHOLD_RANGES.precipitation.min, units.precipitation), 2)}
+          max={roundForInput(convertPrecipitation(ALERT_THRESHOLD_RANGES.precipitation.max, units.precipitation), 2)}
+          onChange={(v) => onChange({ ...thresholds, precipitation: toMillimetres(v, units.precipitation) })}
+        />
+        <NumberField
+          label={t('alerts.heat-threshold', { unit: TEMPERATURE_UNIT_LABELS[units.temperature] })}
+          value={roundForInput(convertTemperature(thresholds.heat, units.temperature))}
+          min={roundForInput(convertTemperature(ALERT_THRESHOLD_RANGES.heat.min, units.temperature))}
+          max={roundForInput(convertTemperature(ALERT_THRESHOLD_RANGES.heat.max, units.temperature))}
+          onChange={(v) => onChange({ ...thresholds, heat: toCelsius(v, units.temperature) })}
+        />
+        <NumberField
+          label={t('alerts.frost-threshold', { unit: TEMPERATURE_UNIT_LABELS[units.temperature] })}
+          value={roundForInput(convertTemperature(thresholds.frost, units.temperature))}
+          min={roundForInput(convertTemperature(ALERT_THRESHOLD_RANGES.frost.min, units.temperature))}
+          max={roundForInput(convertTemperature(ALERT_THRESHOLD_RANGES.frost.max, units.temperature))}
+          onChange={(v) => onChange({ ...thresholds, frost: toCelsius(v, units.temperature) })}
+        />
+      </div>
+      <label className="flex items-center gap-2 text-[9px] uppercase tracking-[0.3em] font-bold opacity-60">
+        <input
+          type="checkbox"
+          checked={thresholds.thunderstorm}
+          onChange={(e) => onChange({ ...thresholds, thunderstorm: e.target.checked })}
+        />
+        {t('alerts.thunderstorm-toggle')}
+      </label>
+    </div>
+  );
+};
+
+export default AlertSettings;
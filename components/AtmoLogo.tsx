@@ -0,0 +1,10 @@
+import React from 'react';
+
+const AtmoLogo: React.FC<{ className?: string }> = ({ className }) => (
+  <svg viewBox="0 0 32 32" className={className} fill="currentColor">
+    <circle cx="16" cy="16" r="13" fill="none" stroke="currentColor" strokeWidth="1.5" />
+    <circle cx="23" cy="9" r="4" />
+  </svg>
+);
+
+export default AtmoLogo;
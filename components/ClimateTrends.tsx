@@ -0,0 +1,153 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { SavedLocation, DailyForecast, HistoryDay, ClimateNormals } from '../types';
+import { fetchRecentHistory, fetchClimateNormals } from '../services/history';
+import { readRecentHistory, writeRecentHistory, readClimateNormals, writeClimateNormals, isHistoryFresh, RECENT_HISTORY_TTL, CLIMATE_NORMALS_TTL } from '../utils/historyStore';
+import { normalFor, temperatureAnomaly, precipitationAnomaly, recentDays } from '../utils/climate';
+import { useLocale } from '../i18n';
+
+interface ClimateTrendsProps {
+  place: SavedLocation;
+  today?: DailyForecast;
+  offline?: boolean; // show only what is cached; the fixture provider runs without a network
+  isEink: boolean;
+}
+
+const RANGES = [7, 14, 30];
+const SPARK_WIDTH = 120;
+const SPARK_HEIGHT = 32;
+
+// Shows whatever is cached at once, stale or not, and refreshes behind it: an old trend is still better context than none.
+const useWeatherHistory = (place: SavedLocation, offline: boolean) => {
+  const [recent, setRecent] = useState<HistoryDay[] | null>(() => readRecentHistory(place.id)?.data ?? null);
+  const [normals, setNormals] = useState<ClimateNormals | null>(() => readClimateNormals(place.id)?.data ?? null);
+
+  useEffect(() => {
+    const cachedRecent = readRecentHistory(place.id);
+    const cachedNormals = readClimateNormals(place.id);
+    setRecent(cachedRecent?.data ?? null);
+    setNormals(cachedNormals?.data ?? null);
+    if (offline) return;
+
+    const controller = new AbortController();
+    const onError = (err: unknown) => {
+      if (!controller.signal.aborted) console.error(err);
+    };
+    if (!isHistoryFresh(cachedRecent, RECENT_HISTORY_TTL)) {
+      fetchRecentHistory(place, controller.signal).then(days => {
+        writeRecentHistory(place.id, days);
+        setRecent(days);
+      }).catch(onError);
+    }
+    if (!isHistoryFresh(cachedNormals, CLIMATE_NORMALS_TTL)) {
+      fetchClimateNormals(place, controller.signal).then(data => {
+        writeClimateNormals(place.id, data);
+        setNormals(data);
+      }).catch(onError);
+    }
+    return () => controller.abort();
+  }, [place, offline]);
+
+  return { recent, normals };
+};
+
+// Values as a line, or as bars for rain; the normal for each day is drawn dashed behind them.
+const Sparkline: React.FC<{ values: number[], normals: (number | undefined)[], bars?: boolean }> = ({ values, normals, bars }) => {
+  const known = normals.filter((n): n is number => n !== undefined);
+  const all = [...values, ...known];
+  const min = bars ? 0 : Math.min(...all);
+  const range = Math.max(Math.max(...all) - min, bars ? 1 : 0.1);
+  const step = SPARK_WIDTH / Math.max(values.length - 1, 1);
+  const x = (i: number) => bars ? (i + 0.5) * SPARK_WIDTH / values.length : i * step;
+  const y = (v: number) => SPARK_HEIGHT - 2 - (v - min) / range * (SPARK_HEIGHT - 4);
+  const line = (series: (number | undefined)[]) =>
+    series.map((v, i) => v === undefined ? null : `${x(i).toFixed(1)},${y(v).toFixed(1)}`).filter(Boolean).join(' ');
+
+  return (
+    <svg width={SPARK_WIDTH} height={SPARK_HEIGHT} viewBox={`0 0 ${SPARK_WIDTH} ${SPARK_HEIGHT}`} className="overflow-visible shrink-0" aria-hidden="true">
+      <polyline points={line(normals)} fill="none" stroke="currentColor" strokeWidth={1} strokeDasharray="2 3" opacity={0.35} />
+      {bars
+        ? values.map((v, i) => {
+          const width = Math.max(SPARK_WIDTH / values.length - 2, 1);
+          return <rect key={i} x={x(i) - width / 2} y={y(v)} width={width} height={SPARK_HEIGHT - 2 - y(v)} fill="currentColor" opacity={0.6} />;
+        })
+        : <polyline points={line(values)} fill="none" stroke="currentColor" strokeWidth={1.5} strokeLinejoin="round" opacity={0.8} />}
+    </svg>
+  );
+};
+
+const TrendRow: React.FC<{ label: string, value: string, note: string, isEink: boolean, children: React.ReactNode }> = ({ label, value, note, isEink, children }) => (
+  <div className="flex justify-between items-end gap-4">
+    <div className="flex flex-col gap-1">
+      <span className="text-[8px] uppercase tracking-[0.3em] font-bold opacity-40">{label}</span>
+      <span className={`text-2xl ${isEink ? 'font-serif font-black' : 'font-[300]'} tracking-tight`}>{value}</span>
+      <span className="text-[9px] tracking-[0.1em] opacity-50">{note}</span>
+    </div>
+    {children}
+  </div>
+);
+
+const ClimateTrends: React.FC<ClimateTrendsProps> = ({ place, today, offline = false, isEink }) => {
+  const { t, temperature, temperatureDelta, precipitation } = useLocale();
+  const { recent, normals } = useWeatherHistory(place, offline);
+  const [range, setRange] = useState(RANGES[0]);
+
+  if (!normals) return null;
+
+  const days = recent ? recentDays(recent, range) : [];
+  const todayNormal = today && normalFor(normals, today.date);
+  const high = today && todayNormal ? temperatureAnomaly(today.tempMax, todayNormal.tempMax) : null;
+  const rain = days.length > 0 ? precipitationAnomaly(days, normals) : null;
+  const dayNormals = days.map(d => normalFor(normals, d.date));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={`flex flex-col gap-5 p-6 md:p-8 rounded-[2rem] transition-all duration-700
+        ${isEink ? 'bg-white border-black text-black border-2' : 'bg-stone-800/5'}`}
+    >
+      <div className="flex justify-between items-baseline gap-4">
+        <span className="text-[9px] uppercase tracking-[0.4em] font-bold opacity-30">
+          {t('history.heading', { start: normals.startYear, end: normals.endYear })}
+        </span>
+        <div className="flex gap-3">
+          {RANGES.map(count => (
+            <button
+              key={count}
+              onClick={() => setRange(count)}
+              aria-pressed={count === range}
+              className={`text-[8px] uppercase tracking-[0.2em] font-bold transition-opacity ${count === range ? 'opacity-80' : 'opacity-30 hover:opacity-70'}`}
+            >
+              {t('history.days', { count })}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {high && (
+        <TrendRow
+          label={t('history.today-high')}
+          value={temperature(high.value)}
+          isEink={isEink}
+          note={`${high.deviation === 'near' ? t('history.near') : t('history.delta', { delta: temperatureDelta(high.delta) })} · ${t('history.normal', { value: temperature(high.normal) })}`}
+        >
+          {days.length > 1 && <Sparkline values={days.map(d => d.tempMax)} normals={dayNormals.map(n => n?.tempMax)} />}
+        </TrendRow>
+      )}
+
+      {rain && (
+        <TrendRow
+          label={t('history.rain-total', { count: days.length })}
+          value={precipitation(rain.total)}
+          isEink={isEink}
+          note={rain.percent !== null ? t('history.rain-percent', { percent: rain.percent }) : t('history.normal', { value: precipitation(rain.normal) })}
+        >
+          <Sparkline values={days.map(d => d.precipitation)} normals={dayNormals.map(n => n?.precipitation)} bars />
+        </TrendRow>
+      )}
+    </motion.div>
+  );
+};
+
+export default ClimateTrends;
@@ -0,0 +1,60 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { WeatherData, Briefing, BriefingSourceId } from '../types';
+import { buildBriefingFacts, renderBriefing } from '../utils/briefing';
+import { briefingKey, readBriefing, writeBriefing } from '../utils/briefingStore';
+import { getBriefingModel, composeBriefing, briefingSourceLabel } from '../services/briefing';
+import { toLocalIso } from '../utils/time';
+import { useLocale } from '../i18n';
+
+interface DailyBriefingProps {
+  weather: WeatherData;
+  source: BriefingSourceId;
+  now: Date;
+}
+
+// The template shows at once; a model's version replaces it when it arrives and is kept for the rest of the hour.
+const DailyBriefing: React.FC<DailyBriefingProps> = ({ weather, source, now }) => {
+  const locale = useLocale();
+  const hour = toLocalIso(now, weather.location.timezone).slice(0, 13);
+  const facts = useMemo(() => buildBriefingFacts(weather, hour), [weather, hour]);
+  const [briefing, setBriefing] = useState<Briefing | null>(null);
+
+  useEffect(() => {
+    if (!facts || source === 'off') {
+      setBriefing(null);
+      return;
+    }
+    const model = getBriefingModel(source);
+    const key = model && briefingKey(weather.location.id, hour, model.id, locale.language, locale.units);
+    const cached = key ? readBriefing(key) : null;
+    if (cached) {
+      setBriefing(cached);
+      return;
+    }
+    setBriefing({ text: renderBriefing(facts, locale), source: 'template' });
+    if (!model || !key) return;
+
+    const controller = new AbortController();
+    composeBriefing(facts, locale, model, controller.signal).then(result => {
+      if (result.source === model.id) writeBriefing(key, result);
+      setBriefing(result);
+    }).catch(err => {
+      if (!controller.signal.aborted) console.error(err);
+    });
+    return () => controller.abort();
+  }, [facts, source, hour, locale, weather.location.id]);
+
+  if (!briefing) return null;
+
+  return (
+    <motion.div key={briefing.text} initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="mt-8 max-w-sm flex flex-col gap-2">
+      <p className="text-xs md:text-sm leading-relaxed tracking-[0.05em] opacity-70">{briefing.text}</p>
+      {briefing.source !== 'template' && (
+        <span className="text-[7px] uppercase tracking-[0.4em] font-bold opacity-30">{locale.t('briefing.written-by', { model: locale.t(briefingSourceLabel(briefing.source)) })}</span>
+      )}
+    </motion.div>
+  );
+};
+
+export default DailyBriefing;
@@ -0,0 +1,106 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { HourlyForecast, DailyForecast } from '../types';
+import { useLocale } from '../i18n';
+
+interface ForecastTimelineProps {
+  hourly: HourlyForecast[];
+  daily: DailyForecast[];
+  selectedHour: number | null;
+  onSelectHour: (index: number | null) => void;
+  isEink: boolean;
+}
+
+const ForecastTimeline: React.FC<ForecastTimelineProps> = ({ hourly, daily, selectedHour, onSelectHour, isEink }) => {
+  const { t, temperature, time, weekday } = useLocale();
+  const index = selectedHour ?? 0;
+  const hour = hourly[index];
+
+  const temps = hourly.map(h => h.temp);
+  const minTemp = Math.min(...temps);
+  const range = Math.max(Math.max(...temps) - minTemp, 1);
+
+  const jumpToDay = (date: string) => {
+    const noon = hourly.findIndex(h => h.time === `${date}T12:00`);
+    const first = hourly.findIndex(h => h.time.startsWith(date));
+    const target = noon >= 0 ? noon : first;
+    if (target >= 0) onSelectHour(target === 0 ? null : target);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={`w-full max-w-5xl mt-10 lg:mt-16 p-6 md:p-8 rounded-[2rem] transition-all duration-700
+        ${isEink ? 'bg-white border-black text-black border-2' : 'bg-stone-800/5'}`}
+    >
+      <div className="flex justify-between items-baseline mb-4">
+        <span className="text-[9px] uppercase tracking-[0.4em] font-bold opacity-30">{t('timeline.title')}</span>
+        <button
+          onClick={() => onSelectHour(null)}
+          className={`text-[9px] font-bold uppercase tracking-[0.2em] transition-opacity ${selectedHour === null ? 'opacity-40' : 'opacity-80 hover:opacity-100'}`}
+        >
+          {selectedHour === null
+            ? t('timeline.now')
+            : t('timeline.back', { time: `${weekday(hour.time.split('T')[0])} ${time(hour.time.split('T')[1])}` })}
+        </button>
+      </div>
+
+      <div className="flex items-end gap-[2px] h-12 mb-2">
+        {hourly.map((h, i) => (
+          <button
+            key={h.time}
+            onClick={() => onSelectHour(i === 0 ? null : i)}
+            title={`${time(h.time.split('T')[1])} · ${temperature(h.temp)}`}
+            className="flex-1 h-full flex items-end"
+          >
+            <span
+              className={`block w-full rounded-t-sm transition-opacity
+                ${isEink ? 'bg-black' : 'bg-current'}
+                ${i === index ? 'opacity-80' : h.isDay ? 'opacity-20' : 'opacity-10'}`}
+              style={{ height: `${20 + ((h.temp - minTemp) / range) * 80}%` }}
+            />
+          </button>
+        ))}
+      </div>
+
+      <input
+        type="range"
+        min={0}
+        max={hourly.length - 1}
+        value={index}
+        aria-label={t('timeline.hour')}
+        aria-valuetext={`${weekday(hour.time.split('T')[0])} ${time(hour.time.split('T')[1])} · ${temperature(hour.temp)}`}
+        onChange={(e) => {
+          const next = Number(e.target.value);
+          onSelectHour(next === 0 ? null : next);
+        }}
+        className={`w-full cursor-pointer ${isEink ? 'accent-black' : 'accent-current'}`}
+      />
+
+      {daily.length > 0 && (
+        <div className="grid grid-cols-7 gap-2 mt-6">
+          {daily.map(d => {
+            const isSelectedDay = hour.time.startsWith(d.date) && selectedHour !== null;
+            const inRange = hourly.some(h => h.time.startsWith(d.date));
+            return (
+              <button
+                key={d.date}
+                onClick={() => jumpToDay(d.date)}
+                disabled={!inRange}
+                className={`flex flex-col items-center gap-1 py-2 rounded-2xl transition-opacity
+                  ${isSelectedDay ? 'opacity-100' : inRange ? 'opacity-50 hover:opacity-80' : 'opacity-30 cursor-default'}`}
+              >
+                <span className="text-[8px] uppercase tracking-[0.3em] font-bold">{weekday(d.date)}</span>
+                <span className={`text-base ${isEink ? 'font-serif font-black' : 'font-[300]'}`}>{temperature(d.tempMax)}</span>
+                <span className="text-[10px] opacity-50">{temperature(d.tempMin)}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default ForecastTimeline;
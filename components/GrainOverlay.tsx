@@ -2,7 +2,7 @@ import React from 'react';
 
 const GrainOverlay: React.FC = () => {
   return (
-    <div className="fixed inset-0 pointer-events-none z-50 opacity-[0.04]">
+    <div className="fixed inset-0 pointer-events-none z-50 opacity-[0.04]" aria-hidden="true">
       <svg viewBox="0 0 200 200" xmlns="http://www.w3.org/2000/svg" className="w-full h-full">
         <filter id="noiseFilter">
           <feTurbulence 
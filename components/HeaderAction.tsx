@@ -0,0 +1,28 @@
+import React from 'react';
+
+interface HeaderActionProps {
+  children: React.ReactNode;
+  label: string;
+  onClick: () => void;
+  active?: boolean;
+  disabled?: boolean;
+  shortcut?: string;
+  isEink: boolean;
+}
+
+// Icon-only, so the label is what a screen reader and the hover tooltip say. `active` is announced as pressed.
+const HeaderAction: React.FC<HeaderActionProps> = ({ children, label, onClick, active, disabled, shortcut, isEink }) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    aria-label={label}
+    aria-pressed={active}
+    aria-keyshortcuts={shortcut}
+    title={shortcut ? `${label} (${shortcut})` : label}
+    className={`p-1 transition-all duration-300 ${disabled ? 'opacity-20 cursor-not-allowed' : 'opacity-40 hover:opacity-100'} ${active && !disabled ? 'opacity-100 scale-110' : ''}`}
+  >
+    {children}
+  </button>
+);
+
+export default HeaderAction;
@@ -0,0 +1,137 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { WeatherData, SavedLocation } from '../types';
+import { KioskConfig } from '../utils/kiosk';
+import { renderKioskSvg, rasteriseKioskSvg } from '../utils/kioskRender';
+import { getWeatherProvider } from '../services/weather';
+import { fetchWeatherWithAirQuality } from '../services/airQuality';
+import { loadSettings } from '../utils/settings';
+import { loadPlaces, readWeatherCache, readLastWeatherCache, writeWeatherCache } from '../utils/locationStore';
+import { evaluateAlerts, loadAlertThresholds, thresholdsFor } from '../utils/alerts';
+import { createLocale } from '../i18n';
+
+interface KioskDisplayProps {
+  config: KioskConfig;
+  fallbackPlace: SavedLocation;
+}
+
+const MINUTE = 60 * 1000;
+// Long enough for the panel to settle fully black, then fully white, before content is drawn again.
+const FLASH_PHASE_MS = 600;
+
+type FlashPhase = 'black' | 'white' | null;
+
+const resolvePlace = (config: KioskConfig, fallback: SavedLocation) =>
+  config.place || readLastWeatherCache()?.data.location || loadPlaces()[0] || fallback;
+
+// Ticks on wall-clock multiples of `minutes` (e.g. :00, :05, :10), not every second, to keep e-paper redraws rare.
+const useAlignedClock = (minutes: number, enabled: boolean) => {
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    if (!enabled) return;
+    let timer: ReturnType<typeof setTimeout>;
+    const schedule = () => {
+      const period = minutes * MINUTE;
+      timer = setTimeout(() => {
+        setNow(new Date());
+        schedule();
+      }, period - (Date.now() % period));
+    };
+    schedule();
+    return () => clearTimeout(timer);
+  }, [minutes, enabled]);
+  return now;
+};
+
+const KioskDisplay: React.FC<KioskDisplayProps> = ({ config, fallbackPlace }) => {
+  const [place] = useState(() => resolvePlace(config, fallbackPlace));
+  const [locale] = useState(() => {
+    const { language, units } = loadSettings();
+    return createLocale(language, units);
+  });
+  const [weather, setWeather] = useState<WeatherData | null>(() => readWeatherCache(place.id)?.data ?? null);
+  const [isOffline, setIsOffline] = useState(false);
+  const [flash, setFlash] = useState<FlashPhase>(null);
+  const [png, setPng] = useState<string | null>(null);
+  const now = useAlignedClock(config.clockMinutes, !config.isStatic);
+
+  const refresh = useCallback(async () => {
+    try {
+      const data = await fetchWeatherWithAirQuality(getWeatherProvider(loadSettings().weatherProvider), place);
+      setWeather(data);
+      setIsOffline(false);
+      writeWeatherCache(data, data.fetchedAt);
+    } catch (err) {
+      console.error(err);
+      setIsOffline(true);
+    }
+  }, [place]);
+
+  useEffect(() => {
+    refresh();
+    if (config.isStatic) return;
+    const timer = setInterval(refresh, config.refreshMinutes * MINUTE);
+    return () => clearInterval(timer);
+  }, [refresh, config.isStatic, config.refreshMinutes]);
+
+  useEffect(() => {
+    if (config.isStatic || config.flashMinutes === 0) return;
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    const interval = setInterval(() => {
+      setFlash('black');
+      timers.push(setTimeout(() => setFlash('white'), FLASH_PHASE_MS));
+      timers.push(setTimeout(() => setFlash(null), FLASH_PHASE_MS * 2));
+    }, config.flashMinutes * MINUTE);
+    return () => {
+      clearInterval(interval);
+      timers.forEach(clearTimeout);
+    };
+  }, [config.isStatic, config.flashMinutes]);
+
+  const svg = useMemo(() => {
+    if (!weather) return null;
+    return renderKioskSvg(weather, {
+      width: config.width,
+      height: config.height,
+      now,
+      locale,
+      alerts: evaluateAlerts(weather, thresholdsFor(loadAlertThresholds(), weather.location.id)),
+      sourceLabel: weather.source ? getWeatherProvider(weather.source).label : undefined,
+      isOffline
+    });
+  }, [weather, now, locale, isOffline, config.width, config.height]);
+
+  useEffect(() => {
+    if (!svg || config.format !== 'png') return;
+    let cancelled = false;
+    rasteriseKioskSvg(svg, config.width, config.height)
+      .then(url => { if (!cancelled) setPng(url); })
+      .catch(console.error);
+    return () => { cancelled = true; };
+  }, [svg, config.format, config.width, config.height]);
+
+  // Headless screenshot tools can wait on this attribute instead of guessing a delay.
+  const ready = config.format === 'png' ? !!png : !!svg;
+  useEffect(() => {
+    document.body.dataset.kioskReady = String(ready);
+  }, [ready]);
+
+  if (flash) {
+    return <div style={{ position: 'fixed', inset: 0, background: flash === 'black' ? '#000' : '#fff' }} />;
+  }
+
+  if (!svg) {
+    return (
+      <div style={{ width: config.width, height: config.height, background: '#fff', color: '#000', display: 'flex', alignItems: 'center', justifyContent: 'center', fontFamily: 'sans-serif' }}>
+        {locale.t(isOffline ? 'kiosk.offline-no-data' : 'kiosk.loading').toUpperCase()}
+      </div>
+    );
+  }
+
+  if (config.format === 'png') {
+    return png ? <img src={png} width={config.width} height={config.height} alt={locale.t('kiosk.image-alt', { place: place.name })} style={{ display: 'block' }} /> : null;
+  }
+
+  return <div style={{ width: config.width, height: config.height, background: '#fff' }} dangerouslySetInnerHTML={{ __html: svg }} />;
+};
+
+export default KioskDisplay;
@@ -0,0 +1,56 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import LocationSearch from './LocationSearch';
+import { pushRecentSearch } from '../utils/locationStore';
+import { stubFetch } from '../test/fetch';
+import { axeViolations, AXE_TIMEOUT_MS } from '../test/axe';
+import { PLACE } from '../test/weather';
+import geocodingMeixian from '../fixtures/geocoding-meixian.json';
+
+const renderSearch = () => {
+  const onSelect = vi.fn();
+  const { container } = render(<LocationSearch onSelect={onSelect} onError={vi.fn()} onClose={vi.fn()} isEink={false} />);
+  return { onSelect, container, input: screen.getByRole('combobox', { name: 'Search places' }) };
+};
+
+describe('LocationSearch', () => {
+  it('points the combobox at the highlighted suggestion while focus stays in the input', async () => {
+    stubFetch({ 'https://geocoding-api.open-meteo.com/v1/search': geocodingMeixian });
+    const { onSelect, input } = renderSearch();
+    expect(input.getAttribute('aria-expanded')).toBe('false');
+
+    fireEvent.change(input, { target: { value: 'Meixian' } });
+    const options = await screen.findAllByRole('option');
+    expect(input.getAttribute('aria-expanded')).toBe('true');
+    expect(input.getAttribute('aria-controls')).toBe(screen.getByRole('listbox').id);
+    expect(input.getAttribute('aria-activedescendant')).toBe(options[0].id);
+    expect(options.map(o => o.getAttribute('aria-selected'))).toEqual(['true', 'false', 'false']);
+
+    fireEvent.keyDown(input, { key: 'ArrowDown' });
+    expect(input.getAttribute('aria-activedescendant')).toBe(options[1].id);
+    expect(options[1].getAttribute('aria-selected')).toBe('true');
+    expect(document.activeElement).toBe(input);
+
+    fireEvent.submit(input.closest('form')!);
+    expect(onSelect).toHaveBeenCalledWith(expect.objectContaining({ name: 'Meixian', admin1: 'Shaanxi' }));
+  });
+
+  it('labels the recent searches list and passes an audit while it is open', async () => {
+    pushRecentSearch(PLACE);
+    const { onSelect, container } = renderSearch();
+    expect(screen.getByRole('listbox', { name: 'Recent' })).toBeTruthy();
+    expect(await axeViolations(container)).toEqual([]);
+
+    fireEvent.click(screen.getByRole('option', { name: new RegExp(PLACE.name) }));
+    expect(onSelect).toHaveBeenCalledWith(PLACE);
+  }, AXE_TIMEOUT_MS);
+
+  it('passes an audit with search results open', async () => {
+    stubFetch({ 'https://geocoding-api.open-meteo.com/v1/search': geocodingMeixian });
+    const { container, input } = renderSearch();
+    fireEvent.change(input, { target: { value: 'Meixian' } });
+    await screen.findAllByRole('option');
+    expect(await axeViolations(container)).toEqual([]);
+  }, AXE_TIMEOUT_MS);
+});
@@ -0,0 +1,150 @@
+import React, { useState, useEffect, useId } from 'react';
+import { Search, Loader2, History } from 'lucide-react';
+import { SavedLocation } from '../types';
+import { searchPlaces, describePlace, formatPopulation } from '../services/geocoding';
+import { loadRecentSearches, pushRecentSearch } from '../utils/locationStore';
+import { useLocale } from '../i18n';
+
+interface LocationSearchProps {
+  onSelect: (place: SavedLocation) => void;
+  onError: (messageKey: string) => void;
+  onClose: () => void;
+  isEink: boolean;
+}
+
+const DEBOUNCE_MS = 250;
+const MIN_QUERY_LENGTH = 2;
+
+const LocationSearch: React.FC<LocationSearchProps> = ({ onSelect, onError, onClose, isEink }) => {
+  const { t } = useLocale();
+  const listId = useId();
+  const recentId = useId();
+  const optionId = (i: number) => `${listId}-${i}`;
+  const [query, setQuery] = useState<string>('');
+  const [suggestions, setSuggestions] = useState<SavedLocation[]>([]);
+  const [recent, setRecent] = useState<SavedLocation[]>(loadRecentSearches);
+  const [highlighted, setHighlighted] = useState<number>(0);
+  const [isSearching, setIsSearching] = useState<boolean>(false);
+
+  const showingRecent = query.trim().length < MIN_QUERY_LENGTH;
+  const options = showingRecent ? recent : suggestions;
+  const expanded = options.length > 0;
+
+  useEffect(() => {
+    setHighlighted(0);
+    if (showingRecent) {
+      setSuggestions([]);
+      setIsSearching(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const results = await searchPlaces(query, controller.signal);
+        if (!controller.signal.aborted) setSuggestions(results);
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          console.error(err);
+          onError('error.search-failed');
+        }
+      } finally {
+        if (!controller.signal.aborted) setIsSearching(false);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, showingRecent, onError]);
+
+  const choose = (place: SavedLocation) => {
+    setRecent(pushRecentSearch(place));
+    onSelect(place);
+  };
+
+  const onSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const place = options[highlighted];
+    if (place) choose(place);
+    else if (!showingRecent && !isSearching) onError('error.location-not-found');
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown' && options.length > 0) {
+      e.preventDefault();
+      setHighlighted(i => (i + 1) % options.length);
+    } else if (e.key === 'ArrowUp' && options.length > 0) {
+      e.preventDefault();
+      setHighlighted(i => (i - 1 + options.length) % options.length);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <div>
+      <form onSubmit={onSubmit} className="flex gap-3 border-b border-current/20 pb-2.5 items-center bg-transparent">
+        {/* An ARIA 1.2 combobox: focus stays in the input and the highlighted option is pointed at, not focused. */}
+        <input
+          autoFocus
+          type="text"
+          role="combobox"
+          placeholder={t('search.placeholder')}
+          aria-label={t('action.search')}
+          aria-expanded={expanded}
+          aria-controls={listId}
+          aria-autocomplete="list"
+          aria-activedescendant={expanded ? optionId(highlighted) : undefined}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={onKeyDown}
+          className="bg-transparent border-none outline-none flex-grow text-[11px] uppercase tracking-[0.3em] placeholder:opacity-20"
+        />
+        <button type="submit" aria-label={t('action.search')} aria-busy={isSearching} className="opacity-40 hover:opacity-100">
+          {isSearching ? <Loader2 size={14} className="animate-spin" /> : <Search size={14} />}
+        </button>
+      </form>
+
+      {expanded && (
+        <div className={`mt-2 rounded-2xl overflow-hidden ${isEink ? 'bg-white border-black border-2' : 'bg-white/40 backdrop-blur-md'}`}>
+          {showingRecent && (
+            <p id={recentId} className="px-4 pt-3 pb-1 flex items-center gap-2 text-[8px] uppercase tracking-[0.4em] font-bold opacity-30">
+              <History size={10} /> {t('search.recent')}
+            </p>
+          )}
+          <ul
+            id={listId}
+            role="listbox"
+            aria-label={showingRecent ? undefined : t('action.search')}
+            aria-labelledby={showingRecent ? recentId : undefined}
+          >
+            {options.map((place, i) => (
+              <li
+                key={place.id}
+                id={optionId(i)}
+                role="option"
+                aria-selected={i === highlighted}
+                onMouseEnter={() => setHighlighted(i)}
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => choose(place)}
+                className={`w-full px-4 py-2.5 flex justify-between items-baseline gap-4 cursor-pointer transition-opacity
+                  ${i === highlighted ? (isEink ? 'bg-black text-white' : 'bg-stone-800/10') : ''}`}
+              >
+                <span className="flex flex-col">
+                  <span className="text-[11px] uppercase tracking-[0.25em]">{place.name}</span>
+                  <span className="text-[9px] tracking-[0.1em] opacity-50">{describePlace(place)}</span>
+                </span>
+                <span className="text-[9px] tracking-[0.1em] opacity-40 tabular-nums">{formatPopulation(place.population)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LocationSearch;
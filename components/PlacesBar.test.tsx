@@ -0,0 +1,36 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import PlacesBar from './PlacesBar';
+import { makePlace, writeWeatherCache } from '../utils/locationStore';
+import { weather, PLACE } from '../test/weather';
+
+const PARIS = makePlace(48.857, 2.352, 'Paris', { country: 'France' });
+const PLACES = [PLACE, PARIS];
+const NOON = Date.parse('2026-10-18T12:00:00Z');
+
+const bar = (lastSync?: number) => (
+  <PlacesBar places={PLACES} currentId={PLACE.id} lastSync={lastSync} onSelect={() => {}} onMove={() => {}} onDelete={() => {}} />
+);
+
+describe('PlacesBar', () => {
+  it('shows how long ago each place synced', () => {
+    vi.useFakeTimers({ now: NOON });
+    writeWeatherCache(weather(), NOON - 2 * 60 * 60 * 1000);
+    render(bar());
+    fireEvent.click(screen.getByText('Edit'));
+    expect(screen.getByText('2h ago')).toBeTruthy();
+    expect(screen.getByText('Never synced')).toBeTruthy();
+  });
+
+  it('reads the caches again only after a fetch, not on every render', () => {
+    writeWeatherCache(weather());
+    const getItem = vi.spyOn(Storage.prototype, 'getItem');
+    const { rerender } = render(bar(1));
+    const reads = getItem.mock.calls.length;
+    rerender(bar(1));
+    expect(getItem.mock.calls.length).toBe(reads);
+    rerender(bar(2));
+    expect(getItem.mock.calls.length).toBeGreaterThan(reads);
+  });
+});
@@ -0,0 +1,69 @@
+import React, { useState, useMemo } from 'react';
+import { ChevronLeft, ChevronRight, X } from 'lucide-react';
+import { SavedLocation } from '../types';
+import { readWeatherCache } from '../utils/locationStore';
+import { useLocale } from '../i18n';
+
+interface PlacesBarProps {
+  places: SavedLocation[];
+  currentId: string | null;
+  lastSync?: number; // when the forecast on screen was fetched; a new one may have refreshed a place's cache
+  onSelect: (place: SavedLocation) => void;
+  onMove: (id: string, offset: number) => void;
+  onDelete: (id: string) => void;
+}
+
+const PlacesBar: React.FC<PlacesBarProps> = ({ places, currentId, lastSync, onSelect, onMove, onDelete }) => {
+  const { t, age } = useLocale();
+  // Each cache entry is a whole forecast, so it is parsed when the list or a fetch changes, not on every clock tick.
+  const syncTimes = useMemo(
+    () => new Map(places.map(place => [place.id, readWeatherCache(place.id)?.timestamp])),
+    [places, lastSync]
+  );
+  const syncedAge = (id: string) => {
+    const timestamp = syncTimes.get(id);
+    return timestamp ? age(timestamp) : t('places.never-synced');
+  };
+  const [editing, setEditing] = useState(false);
+
+  if (places.length === 0) return null;
+
+  if (editing) {
+    return (
+      <div className="mt-3 flex flex-col gap-2 min-w-[14rem]">
+        {places.map((place, i) => (
+          <div key={place.id} className="flex items-center gap-3 text-[9px] uppercase tracking-[0.25em]">
+            <span className={`flex-grow font-bold ${place.id === currentId ? 'opacity-100' : 'opacity-50'}`}>
+              {place.name}{place.country ? `, ${place.country}` : ''}
+            </span>
+            <span className="opacity-30 normal-case tracking-normal">{syncedAge(place.id)}</span>
+            <button onClick={() => onMove(place.id, -1)} disabled={i === 0} aria-label={t('places.move-earlier', { place: place.name })} className="opacity-40 hover:opacity-100 disabled:opacity-10"><ChevronLeft size={12} /></button>
+            <button onClick={() => onMove(place.id, 1)} disabled={i === places.length - 1} aria-label={t('places.move-later', { place: place.name })} className="opacity-40 hover:opacity-100 disabled:opacity-10"><ChevronRight size={12} /></button>
+            <button onClick={() => onDelete(place.id)} aria-label={t('places.remove', { place: place.name })} className="opacity-40 hover:opacity-100"><X size={12} /></button>
+          </div>
+        ))}
+        <button onClick={() => setEditing(false)} className="self-start mt-1 text-[8px] uppercase tracking-[0.4em] font-bold opacity-40 hover:opacity-100">{t('places.done')}</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-x-4 gap-y-1">
+      {places.map(place => (
+        <button
+          key={place.id}
+          onClick={() => onSelect(place)}
+          title={syncedAge(place.id)}
+          aria-current={place.id === currentId ? 'location' : undefined}
+          className={`text-[8px] uppercase tracking-[0.35em] font-bold transition-opacity border-b
+            ${place.id === currentId ? 'opacity-80 border-current' : 'opacity-30 border-transparent hover:opacity-70'}`}
+        >
+          {place.name}
+        </button>
+      ))}
+      <button onClick={() => setEditing(true)} className="text-[8px] uppercase tracking-[0.35em] font-bold opacity-20 hover:opacity-70">{t('places.edit')}</button>
+    </div>
+  );
+};
+
+export default PlacesBar;
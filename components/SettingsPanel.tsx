@@ -0,0 +1,103 @@
+import React from 'react';
+import { AppSettings, UnitPreferences, Language } from '../types';
+import { REVERSE_GEOCODERS } from '../services/reverseGeocoding';
+import { WEATHER_PROVIDERS } from '../services/weather';
+import { BRIEFING_SOURCES } from '../services/briefing';
+import { TEMPERATURE_UNIT_LABELS, WIND_UNIT_LABELS, PRECIPITATION_UNIT_LABELS } from '../utils/units';
+import { useLocale, LANGUAGE_NAMES } from '../i18n';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+  isEink: boolean;
+}
+
+interface ChoiceRowProps<T extends string> {
+  label: string;
+  value: T;
+  options: { id: T; label: string; disabled?: boolean }[];
+  onSelect: (id: T) => void;
+}
+
+const ChoiceRow = <T extends string>({ label, value, options, onSelect }: ChoiceRowProps<T>) => (
+  <div role="group" aria-label={label} className="flex flex-col gap-2">
+    <span className="text-[8px] uppercase tracking-[0.4em] font-bold opacity-30" aria-hidden="true">{label}</span>
+    <div className="flex flex-wrap gap-2">
+      {options.map(o => (
+        <button
+          key={o.id}
+          onClick={() => onSelect(o.id)}
+          disabled={o.disabled}
+          aria-pressed={o.id === value}
+          className={`rounded-full border px-3 py-1 text-[9px] uppercase tracking-[0.2em] font-bold transition-opacity
+            ${o.id === value ? 'border-current opacity-100' : 'border-current/20 opacity-40 hover:opacity-80'} disabled:opacity-15 disabled:cursor-not-allowed`}
+        >
+          {o.label}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+const unitOptions = <T extends string>(labels: Record<T, string>) =>
+  (Object.keys(labels) as T[]).map(id => ({ id, label: labels[id] }));
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, isEink }) => {
+  const { t } = useLocale();
+  const setUnits = (units: Partial<UnitPreferences>) => onChange({ ...settings, units: { ...settings.units, ...units } });
+
+  return (
+    <div className={`flex flex-col gap-5 p-6 rounded-[2rem] ${isEink ? 'bg-white border-black text-black border-2' : 'bg-white/40 backdrop-blur-md'}`}>
+      <ChoiceRow
+        label={t('settings.weather-source')}
+        value={settings.weatherProvider}
+        options={WEATHER_PROVIDERS.map(({ id, label }) => ({ id, label }))}
+        onSelect={(weatherProvider) => onChange({ ...settings, weatherProvider })}
+      />
+      <ChoiceRow
+        label={t('settings.place-names')}
+        value={settings.reverseGeocoder}
+        options={REVERSE_GEOCODERS.map(g => ({ ...g, disabled: g.id === 'gemini' && !process.env.API_KEY }))}
+        onSelect={(reverseGeocoder) => onChange({ ...settings, reverseGeocoder })}
+      />
+      <ChoiceRow
+        label={t('settings.briefing')}
+        value={settings.briefing}
+        options={BRIEFING_SOURCES.map(b => ({ id: b.id, label: t(b.label), disabled: b.needsKey && !process.env.API_KEY }))}
+        onSelect={(briefing) => onChange({ ...settings, briefing })}
+      />
+      <ChoiceRow
+        label={t('settings.temperature')}
+        value={settings.units.temperature}
+        options={unitOptions(TEMPERATURE_UNIT_LABELS)}
+        onSelect={(temperature) => setUnits({ temperature })}
+      />
+      <ChoiceRow
+        label={t('settings.wind')}
+        value={settings.units.wind}
+        options={unitOptions(WIND_UNIT_LABELS)}
+        onSelect={(wind) => setUnits({ wind })}
+      />
+      <ChoiceRow
+        label={t('settings.precipitation')}
+        value={settings.units.precipitation}
+        options={unitOptions(PRECIPITATION_UNIT_LABELS)}
+        onSelect={(precipitation) => setUnits({ precipitation })}
+      />
+      <ChoiceRow
+        label={t('settings.time')}
+        value={settings.units.timeFormat}
+        options={[{ id: '24h', label: t('settings.time.24h') }, { id: '12h', label: t('settings.time.12h') }]}
+        onSelect={(timeFormat) => setUnits({ timeFormat })}
+      />
+      <ChoiceRow
+        label={t('settings.language')}
+        value={settings.language}
+        options={(Object.keys(LANGUAGE_NAMES) as Language[]).map(id => ({ id, label: LANGUAGE_NAMES[id] }))}
+        onSelect={(language) => onChange({ ...settings, language })}
+      />
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,42 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+
+interface SkyBackdropProps {
+  background: string; // CSS background
+}
+
+const FADE_SECONDS = 1.5;
+
+// CSS can't transition between gradients, so each new sky fades in over the ones before it. Those stay mounted
+// until a sky on top of them is fully opaque, so scrubbing quickly never lets the page show through.
+const SkyBackdrop: React.FC<SkyBackdropProps> = ({ background }) => {
+  const [layers, setLayers] = useState([{ id: 0, background }]);
+
+  useEffect(() => {
+    setLayers(prev => {
+      const top = prev[prev.length - 1];
+      return top.background === background ? prev : [...prev, { id: top.id + 1, background }];
+    });
+  }, [background]);
+
+  return (
+    <div className="fixed inset-0 z-0" aria-hidden="true">
+      {layers.map(layer => (
+        <motion.div
+          key={layer.id}
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ duration: FADE_SECONDS }}
+          onAnimationComplete={() => setLayers(prev => {
+            const index = prev.findIndex(l => l.id === layer.id);
+            return index > 0 ? prev.slice(index) : prev;
+          })}
+          className="absolute inset-0"
+          style={{ background: layer.background }}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default SkyBackdrop;
@@ -0,0 +1,19 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import StatCard from './StatCard';
+
+describe('StatCard', () => {
+  it('draws a bordered card in serif type for e-ink screens', () => {
+    const { container } = render(<StatCard label="Wind" value="12 km/h" isEink />);
+    expect(container.firstElementChild!.className).toContain('border-black');
+    expect(screen.getByText('12 km/h').className).toContain('font-serif');
+  });
+
+  it('draws a tinted card in light type otherwise', () => {
+    const { container } = render(<StatCard label="Wind" value="12 km/h" isEink={false} />);
+    expect(container.firstElementChild!.className).not.toContain('border-black');
+    expect(screen.getByText('12 km/h').className).toContain('font-[300]');
+    expect(screen.getByText('Wind')).toBeTruthy();
+  });
+});
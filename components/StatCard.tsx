@@ -0,0 +1,20 @@
+import React from 'react';
+
+interface StatCardProps {
+  label: string;
+  value: string;
+  icon?: React.ReactNode;
+  isEink: boolean;
+}
+
+const StatCard: React.FC<StatCardProps> = ({ label, value, icon, isEink }) => (
+  <div className={`p-5 md:p-7 rounded-[2rem] transition-all flex flex-col justify-between ${isEink ? 'bg-white border-black text-black border-2' : 'bg-stone-800/5'}`}>
+    <div className="flex justify-between items-start mb-4">
+      <p className="text-[9px] uppercase tracking-[0.3em] font-bold opacity-30">{label}</p>
+      <span className="opacity-30">{icon}</span>
+    </div>
+    <p className={`text-2xl md:text-3xl ${isEink ? 'font-serif font-black' : 'font-[300]'} tracking-tight`}>{value}</p>
+  </div>
+);
+
+export default StatCard;
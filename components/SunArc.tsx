@@ -0,0 +1,129 @@
+import React, { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { SolarDay, MoonDay, SavedLocation, TimeSpan } from '../types';
+import { sunAltitude } from '../utils/astronomy';
+import { formatClock, zonedTimeToUtc } from '../utils/time';
+import { useLocale } from '../i18n';
+
+interface SunArcProps {
+  place: SavedLocation;
+  solar: SolarDay;
+  moon: MoonDay;
+  at: number; // the moment the sun marker shows, ms epoch
+  isEink: boolean;
+}
+
+const WIDTH = 240;
+const HORIZON = 64;
+const ARC_HEIGHT = 52;
+const NIGHT_DEPTH = 14;
+const SAMPLES = 96;
+const MOON_RADIUS = 9;
+
+// The lit part of the disc: the limb on the lit side, closed by the terminator, an ellipse whose width follows the phase.
+const moonPath = (phase: number, illumination: number, r: number) => {
+  const waxing = phase < 0.5;
+  const crescent = illumination < 0.5;
+  const rx = r * Math.abs(Math.cos(phase * 2 * Math.PI));
+  const limbSweep = waxing ? 1 : 0;
+  const terminatorSweep = crescent === waxing ? 0 : 1;
+  return `M 0 ${-r} A ${r} ${r} 0 0 ${limbSweep} 0 ${r} A ${rx.toFixed(2)} ${r} 0 0 ${terminatorSweep} 0 ${-r} Z`;
+};
+
+const MoonGlyph: React.FC<{ moon: MoonDay, southern: boolean, isEink: boolean }> = ({ moon, southern, isEink }) => (
+  <svg width={MOON_RADIUS * 2 + 2} height={MOON_RADIUS * 2 + 2} viewBox={`${-MOON_RADIUS - 1} ${-MOON_RADIUS - 1} ${MOON_RADIUS * 2 + 2} ${MOON_RADIUS * 2 + 2}`} aria-hidden="true">
+    <circle r={MOON_RADIUS} fill="none" stroke="currentColor" strokeWidth={isEink ? 1.5 : 1} opacity={isEink ? 1 : 0.3} />
+    {/* Seen from the southern hemisphere the moon is lit from the other side. */}
+    <path d={moonPath(moon.phase, moon.illumination, MOON_RADIUS)} fill="currentColor" opacity={isEink ? 1 : 0.8} transform={southern ? 'scale(-1 1)' : undefined} />
+  </svg>
+);
+
+const SunArc: React.FC<SunArcProps> = ({ place, solar, moon, at, isEink }) => {
+  const { t, time } = useLocale();
+  const timeZone = place.timezone;
+  const clock = (ms: number | null) => ms === null ? '—' : time(formatClock(ms, timeZone));
+
+  // The local day end to end: 23 or 25 hours on clock-change days.
+  const [dayStart, dayEnd] = useMemo(() => {
+    const [y, m, d] = solar.date.split('-').map(Number);
+    const next = new Date(Date.UTC(y, m - 1, d + 1)).toISOString().slice(0, 10);
+    return [zonedTimeToUtc(`${solar.date}T00:00`, timeZone), zonedTimeToUtc(`${next}T00:00`, timeZone)];
+  }, [solar.date, timeZone]);
+
+  const altitudes = useMemo(() =>
+    Array.from({ length: SAMPLES + 1 }, (_, i) => sunAltitude(dayStart + (dayEnd - dayStart) * i / SAMPLES, place.lat, place.lon)),
+  [dayStart, dayEnd, place.lat, place.lon]);
+
+  // Scaled to the day's own peak, so a low winter sun still draws a readable arc.
+  const peak = Math.max(...altitudes, 20);
+  const lowest = Math.min(...altitudes, -1);
+  const x = (ms: number) => (ms - dayStart) / (dayEnd - dayStart) * WIDTH;
+  const y = (altitude: number) => altitude >= 0 ? HORIZON - altitude / peak * ARC_HEIGHT : HORIZON + altitude / lowest * NIGHT_DEPTH;
+  const path = altitudes.map((alt, i) => `${i === 0 ? 'M' : 'L'} ${(WIDTH * i / SAMPLES).toFixed(1)} ${y(alt).toFixed(1)}`).join(' ');
+
+  const band = (start: number | null, end: number | null, opacity: number, key: string) =>
+    start !== null && end !== null && <rect key={key} x={x(start)} y={0} width={Math.max(x(end) - x(start), 0)} height={HORIZON + NIGHT_DEPTH} fill="currentColor" opacity={opacity} />;
+
+  const markerVisible = at >= dayStart && at < dayEnd;
+  const markerAltitude = sunAltitude(at, place.lat, place.lon);
+  const hours = Math.floor(solar.dayLength / 3600000);
+  const minutes = Math.round((solar.dayLength % 3600000) / 60000);
+  const span = (range: TimeSpan | null) => range ? `${clock(range.start)}–${clock(range.end)}` : '—';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={`flex flex-col gap-4 p-6 md:p-8 rounded-[2rem] transition-all duration-700
+        ${isEink ? 'bg-white border-black text-black border-2' : 'bg-stone-800/5'}`}
+    >
+      <div className="flex justify-between items-baseline gap-4">
+        <span className="text-[9px] uppercase tracking-[0.4em] font-bold opacity-30">{t('sun.title')}</span>
+        <span className="text-[9px] font-bold uppercase tracking-[0.2em] opacity-60">
+          {solar.polar ? t(solar.polar === 'day' ? 'sun.polar-day' : 'sun.polar-night') : t('sun.day-length', { hours, minutes })}
+        </span>
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HORIZON + NIGHT_DEPTH}`} className="w-full overflow-visible" aria-hidden="true">
+        {/* Twilight shades the sky in steps: nautical, then civil, then full day. */}
+        {!isEink && [
+          band(solar.nauticalDawn, solar.nauticalDusk, 0.03, 'nautical'),
+          band(solar.civilDawn, solar.civilDusk, 0.04, 'civil'),
+          band(solar.sunrise, solar.sunset, 0.05, 'day')
+        ]}
+        {solar.polar === 'day' && !isEink && <rect x={0} y={0} width={WIDTH} height={HORIZON + NIGHT_DEPTH} fill="currentColor" opacity={0.05} />}
+        <line x1={0} x2={WIDTH} y1={HORIZON} y2={HORIZON} stroke="currentColor" strokeWidth={1} opacity={isEink ? 1 : 0.3} />
+        {[solar.goldenHourMorning, solar.goldenHourEvening].map((span, i) => span && (
+          <line key={i} x1={x(span.start)} x2={x(span.end)} y1={HORIZON} y2={HORIZON} stroke={isEink ? 'currentColor' : '#f59e0b'} strokeWidth={isEink ? 4 : 3} opacity={0.8} />
+        ))}
+        <path d={path} fill="none" stroke="currentColor" strokeWidth={1.5} opacity={isEink ? 1 : 0.6} />
+        {markerVisible && (
+          <circle cx={x(at)} cy={y(markerAltitude)} r={4.5} fill={markerAltitude >= 0 ? 'currentColor' : 'none'} stroke="currentColor" strokeWidth={1.5} />
+        )}
+      </svg>
+
+      <div className="flex justify-between text-[9px] uppercase tracking-[0.2em] font-bold">
+        <span className="opacity-60">{t('stat.sunrise')} {clock(solar.sunrise)}</span>
+        <span className="opacity-60">{t('stat.sunset')} {clock(solar.sunset)}</span>
+      </div>
+      <div className="flex flex-col gap-1 text-[9px] tracking-[0.1em] opacity-50">
+        <span>{t('sun.twilight', { dawn: clock(solar.civilDawn), dusk: clock(solar.civilDusk) })}</span>
+        {(solar.goldenHourMorning || solar.goldenHourEvening) && (
+          <span>{t('sun.golden-hour', { morning: span(solar.goldenHourMorning), evening: span(solar.goldenHourEvening) })}</span>
+        )}
+      </div>
+
+      <div className="flex items-center gap-4 pt-4 border-t border-current/10">
+        <MoonGlyph moon={moon} southern={place.lat < 0} isEink={isEink} />
+        <div className="flex flex-col gap-1">
+          <span className="text-[9px] uppercase tracking-[0.3em] font-bold opacity-70">
+            {t(`moon.${moon.phaseName}`)} · {t('moon.illumination', { percent: Math.round(moon.illumination * 100) })}
+          </span>
+          <span className="text-[9px] tracking-[0.1em] opacity-50">{t('moon.rise-set', { rise: clock(moon.rise), set: clock(moon.set) })}</span>
+        </div>
+      </div>
+    </motion.div>
+  );
+};
+
+export default SunArc;
@@ -0,0 +1,40 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, within, fireEvent } from '@testing-library/react';
+import TennisPlanner from './TennisPlanner';
+import { hours, day } from '../test/weather';
+
+const daily = [day('2026-10-18', { sunrise: '07:00', sunset: '18:00' }), day('2026-10-19', { sunrise: '07:00', sunset: '18:00' })];
+// A windy afternoon today, and a wet start to tomorrow that leaves the courts drying until 14:00.
+const hourly = hours('2026-10-18T09:00', 33, time => ({
+  windSpeed: time >= '2026-10-18T12:00' && time < '2026-10-19' ? 32 : 5,
+  precipitation: time === '2026-10-19T09:00' || time === '2026-10-19T10:00' ? 3 : 0
+}));
+
+describe('TennisPlanner', () => {
+  it('lists the best windows with their day and score', () => {
+    render(<TennisPlanner hourly={hourly} daily={daily} pastHourly={[]} onSelectHour={() => {}} isEink={false} />);
+    const windows = within(screen.getAllByRole('list')[0]).getAllByRole('button').map(b => b.textContent);
+    expect(windows).toEqual(['Today09:00–12:00Sync 100%', 'Tomorrow14:00–17:00Sync 100%', 'Tomorrow07:00–09:00Sync 100%']);
+  });
+
+  it('says what held the other daylight hours back, best first', () => {
+    render(<TennisPlanner hourly={hourly} daily={daily} pastHourly={[]} onSelectHour={() => {}} isEink={false} />);
+    const heldBack = screen.getByText('Held Back').nextElementSibling as HTMLElement;
+    expect(within(heldBack).getAllByRole('listitem').map(li => li.textContent)).toEqual([
+      '13:00Drying, rain 3h ago −17',
+      '12:00Drying, rain 2h ago −33',
+      '11:00Drying, rain 1h ago −50',
+      '12:00Wind 32 km/h −60'
+    ]);
+  });
+
+  it('scrubs the timeline to the start of a window', () => {
+    const onSelectHour = vi.fn();
+    render(<TennisPlanner hourly={hourly} daily={daily} pastHourly={[]} onSelectHour={onSelectHour} isEink={false} />);
+    fireEvent.click(screen.getByText('14:00–17:00'));
+    expect(onSelectHour).toHaveBeenCalledWith(29);
+    fireEvent.click(screen.getByText('09:00–12:00'));
+    expect(onSelectHour).toHaveBeenLastCalledWith(null);
+  });
+});
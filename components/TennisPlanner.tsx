@@ -0,0 +1,102 @@
+import React, { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { HourlyForecast, DailyForecast, ActivitySlot } from '../types';
+import { TENNIS_PROFILE } from '../constants';
+import { findActivityWindows, scoreActivityHours } from '../utils/activityScoring';
+import { useLocale } from '../i18n';
+
+interface TennisPlannerProps {
+  hourly: HourlyForecast[];
+  daily: DailyForecast[];
+  pastHourly: HourlyForecast[];
+  onSelectHour: (index: number | null) => void;
+  isEink: boolean;
+}
+
+const MAX_OTHER_HOURS = 4;
+
+const SlotReasons: React.FC<{ slot: ActivitySlot }> = ({ slot }) => {
+  const { time, penalty } = useLocale();
+  return (
+    <li className="flex justify-between gap-4 text-[10px] tracking-[0.1em]">
+      <span className="opacity-50 tabular-nums">{time(slot.time.split('T')[1])}</span>
+      <span className="text-right opacity-70">
+        {slot.score.penalties.map(p => `${penalty(p)} −${p.points}`).join(' · ')}
+      </span>
+    </li>
+  );
+};
+
+const TennisPlanner: React.FC<TennisPlannerProps> = ({ hourly, daily, pastHourly, onSelectHour, isEink }) => {
+  const { t, time } = useLocale();
+  const windows = useMemo(() => findActivityWindows(TENNIS_PROFILE, hourly, daily, pastHourly), [hourly, daily, pastHourly]);
+
+  // Daylight hours today and tomorrow that didn't make a window, best first, to explain what held them back.
+  const otherHours = useMemo(() => {
+    const dates = new Set(daily.slice(0, 2).map(d => d.date));
+    const inWindow = new Set(windows.flatMap(w => w.slots.map(s => s.time)));
+    return scoreActivityHours(TENNIS_PROFILE, hourly, daily, pastHourly)
+      .filter(s => dates.has(s.time.split('T')[0]) && !inWindow.has(s.time))
+      .filter(s => s.score.penalties.length > 0 && !s.score.penalties.some(p => p.kind === 'dark'))
+      .sort((a, b) => b.score.score - a.score.score)
+      .slice(0, MAX_OTHER_HOURS);
+  }, [hourly, daily, pastHourly, windows]);
+
+  const dayLabel = (date: string) => date === daily[0]?.date ? t('day.today') : date === daily[1]?.date ? t('day.tomorrow') : date;
+
+  const selectWindow = (time: string) => {
+    const index = hourly.findIndex(h => h.time === time);
+    if (index >= 0) onSelectHour(index === 0 ? null : index);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className={`w-full max-w-5xl mt-5 p-6 md:p-8 rounded-[2rem] transition-all duration-700
+        ${isEink ? 'bg-white border-black text-black border-2' : 'bg-stone-800/5'}`}
+    >
+      <div className="flex justify-between items-baseline mb-6">
+        <span className="text-[9px] uppercase tracking-[0.4em] font-bold opacity-30">{t('planner.title')}</span>
+        <span className={`text-[9px] font-bold uppercase tracking-[0.2em] ${isEink ? '' : 'opacity-40'}`}>{t('planner.range')}</span>
+      </div>
+
+      {windows.length === 0 ? (
+        <p className="text-[10px] uppercase tracking-[0.3em] opacity-50">{t('planner.none')}</p>
+      ) : (
+        <ol className="flex flex-col gap-5">
+          {windows.map((w, rank) => {
+            const docked = w.slots.filter(s => s.score.penalties.length > 0);
+            return (
+              <li key={`${w.date}${w.start}`}>
+                <button onClick={() => selectWindow(w.slots[0].time)} className="w-full flex justify-between items-baseline group">
+                  <span className={`text-xl md:text-2xl ${isEink ? 'font-serif font-black' : 'font-[300]'} tracking-tight group-hover:opacity-100 ${rank === 0 ? '' : 'opacity-70'}`}>
+                    <span className="text-[9px] uppercase tracking-[0.3em] font-bold opacity-40 mr-3">{dayLabel(w.date)}</span>
+                    {time(w.start)}–{time(w.end)}
+                  </span>
+                  <span className="text-[9px] opacity-40 uppercase tracking-[0.3em] font-bold">{t('activity.sync', { score: w.score })}</span>
+                </button>
+                {docked.length > 0 && (
+                  <ul className="mt-2 flex flex-col gap-1">
+                    {docked.map(s => <SlotReasons key={s.time} slot={s} />)}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {otherHours.length > 0 && (
+        <div className="mt-6 pt-4 border-t border-current/10">
+          <p className="text-[8px] uppercase tracking-[0.4em] font-bold opacity-30 mb-2">{t('planner.held-back')}</p>
+          <ul className="flex flex-col gap-1">
+            {otherHours.map(s => <SlotReasons key={s.time} slot={s} />)}
+          </ul>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default TennisPlanner;
@@ -1,38 +1,140 @@
-
-import React from 'react';
-import { motion } from 'framer-motion';
+import React, { useMemo } from 'react';
+import { motion, useReducedMotion } from 'framer-motion';
 import { WeatherCondition } from '../types';
 
-const WeatherAnimations: React.FC<{ condition: WeatherCondition; isEink: boolean }> = ({ condition, isEink }) => {
-  if (condition === 'clear') return null;
+interface WeatherAnimationsProps {
+  condition: WeatherCondition;
+  isDay: boolean;
+  isEink: boolean;
+}
+
+// Random layout is drawn once per mount so particles don't jump on every re-render (the clock ticks each second).
+const scatter = (count: number) =>
+  Array.from({ length: count }, () => ({ x: Math.random(), y: Math.random(), speed: Math.random(), delay: Math.random() }));
+
+const Rain: React.FC<{ count: number; light?: boolean; isEink: boolean }> = ({ count, light, isEink }) => {
+  const drops = useMemo(() => scatter(count), [count]);
+  return (
+    <div className={`absolute inset-0 ${light ? 'opacity-10' : 'opacity-20'}`}>
+      {drops.map((d, i) => (
+        <motion.div
+          key={i}
+          initial={{ y: -100, x: `${d.x * 100}vw` }}
+          animate={{ y: '110vh' }}
+          transition={{ duration: (light ? 2 : 1.2) + d.speed, repeat: Infinity, ease: "linear", delay: d.delay * 2 }}
+          className={`absolute w-[1px] ${light ? 'h-6' : 'h-12'} ${isEink ? 'bg-black' : 'bg-white'}`}
+        />
+      ))}
+    </div>
+  );
+};
+
+const Snow: React.FC<{ isEink: boolean }> = ({ isEink }) => {
+  const flakes = useMemo(() => scatter(45), []);
+  return (
+    <div className="absolute inset-0 opacity-50">
+      {flakes.map((f, i) => (
+        <motion.div
+          key={i}
+          initial={{ y: -20, x: `${f.x * 100}vw` }}
+          animate={{ y: '105vh', translateX: [0, 12, -12, 0] }}
+          transition={{
+            y: { duration: 8 + f.speed * 6, repeat: Infinity, ease: "linear", delay: f.delay * 8 },
+            translateX: { duration: 3 + f.speed * 2, repeat: Infinity, ease: "easeInOut" }
+          }}
+          className={`absolute rounded-full ${f.speed > 0.5 ? 'w-[4px] h-[4px]' : 'w-[3px] h-[3px]'} ${isEink ? 'bg-black' : 'bg-white'}`}
+        />
+      ))}
+    </div>
+  );
+};
+
+const Lightning: React.FC = () => (
+  <motion.div
+    className="absolute inset-0 bg-white"
+    initial={{ opacity: 0 }}
+    animate={{ opacity: [0, 0, 0.35, 0, 0.2, 0] }}
+    transition={{ duration: 7, times: [0, 0.8, 0.82, 0.85, 0.87, 0.9], repeat: Infinity, ease: "linear" }}
+  />
+);
+
+const Fog: React.FC<{ isEink: boolean }> = ({ isEink }) => {
+  const bands = useMemo(() => scatter(4), []);
+  return (
+    <div className="absolute inset-0">
+      {bands.map((b, i) => (
+        <motion.div
+          key={i}
+          initial={{ x: '-30%' }}
+          animate={{ x: ['-30%', '10%', '-30%'] }}
+          transition={{ duration: 30 + b.speed * 20, repeat: Infinity, ease: "easeInOut", delay: b.delay * 5 }}
+          style={{ top: `${15 + i * 20}%` }}
+          className={`absolute left-0 w-[160%] h-40 rounded-full blur-3xl ${isEink ? 'bg-black/5' : 'bg-white/25'}`}
+        />
+      ))}
+    </div>
+  );
+};
+
+const Stars: React.FC<{ count: number; isEink: boolean }> = ({ count, isEink }) => {
+  const stars = useMemo(() => scatter(count), [count]);
+  return (
+    <div className="absolute inset-0">
+      {stars.map((s, i) => (
+        <motion.div
+          key={i}
+          initial={{ opacity: s.delay, scale: s.speed * 0.5 + 0.5 }}
+          animate={{ opacity: [0.2, 1, 0.2] }}
+          transition={{ duration: 2 + s.speed * 4, repeat: Infinity, ease: "easeInOut", delay: s.delay * 5 }}
+          style={{ top: `${s.y * 100}%`, left: `${s.x * 100}%` }}
+          className={`absolute w-[2px] h-[2px] rounded-full ${isEink ? 'bg-black' : 'bg-white/60'}`}
+        />
+      ))}
+    </div>
+  );
+};
+
+const NightClouds: React.FC<{ isEink: boolean }> = ({ isEink }) => {
+  const clouds = useMemo(() => scatter(3), []);
+  return (
+    <div className="absolute inset-0">
+      {clouds.map((c, i) => (
+        <motion.div
+          key={i}
+          initial={{ x: '-40vw' }}
+          animate={{ x: '110vw' }}
+          transition={{ duration: 90 + c.speed * 60, repeat: Infinity, ease: "linear", delay: -c.delay * 90 }}
+          style={{ top: `${10 + c.y * 50}%` }}
+          className={`absolute w-[40vw] h-32 rounded-full blur-3xl ${isEink ? 'bg-black/5' : 'bg-black/20'}`}
+        />
+      ))}
+    </div>
+  );
+};
+
+const WeatherAnimations: React.FC<WeatherAnimationsProps> = ({ condition, isDay, isEink }) => {
+  // Every scene is a loop that never settles, so with reduced motion there is nothing to show; the sky and icon
+  // already say what the weather is.
+  const reduceMotion = useReducedMotion();
+  const scene = (() => {
+    if (reduceMotion) return null;
+    switch (condition) {
+      case 'drizzle': return <Rain count={20} light isEink={isEink} />;
+      case 'rainy': return <Rain count={30} isEink={isEink} />;
+      case 'thunderstorm': return <>{!isEink && <Lightning />}<Rain count={40} isEink={isEink} /></>;
+      case 'snow': return <Snow isEink={isEink} />;
+      case 'fog': return <Fog isEink={isEink} />;
+      case 'clear': return isDay ? null : <Stars count={40} isEink={isEink} />;
+      case 'partly-cloudy': return isDay ? null : <Stars count={15} isEink={isEink} />;
+      case 'cloudy': return isDay ? null : <NightClouds isEink={isEink} />;
+      default: return null;
+    }
+  })();
+
+  if (!scene) return null;
   return (
-    <div className="fixed inset-0 z-0 pointer-events-none overflow-hidden">
-      {condition === 'rainy' && (
-        <div className="absolute inset-0 opacity-20">
-          {Array.from({ length: 30 }).map((_, i) => (
-            <motion.div
-              key={i}
-              initial={{ y: -100, x: `${Math.random() * 100}%` }}
-              animate={{ y: '110vh' }}
-              transition={{ duration: 1.5 + Math.random(), repeat: Infinity, ease: "linear", delay: Math.random() * 2 }}
-              className={`absolute w-[1px] h-12 ${isEink ? 'bg-black' : 'bg-white'}`}
-            />
-          ))}
-        </div>
-      )}
-      {condition === 'night' && (
-        <div className="absolute inset-0">
-          {Array.from({ length: 40 }).map((_, i) => (
-            <motion.div
-              key={i}
-              initial={{ opacity: Math.random(), scale: Math.random() * 0.5 + 0.5, top: `${Math.random() * 100}%`, left: `${Math.random() * 100}%` }}
-              animate={{ opacity: [0.2, 1, 0.2] }}
-              transition={{ duration: 2 + Math.random() * 4, repeat: Infinity, ease: "easeInOut", delay: Math.random() * 5 }}
-              className={`absolute w-[2px] h-[2px] rounded-full ${isEink ? 'bg-black' : 'bg-white/60'}`}
-            />
-          ))}
-        </div>
-      )}
+    <div className="fixed inset-0 z-0 pointer-events-none overflow-hidden" aria-hidden="true">
+      {scene}
     </div>
   );
 };
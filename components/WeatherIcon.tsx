@@ -0,0 +1,28 @@
+import React from 'react';
+import { Sun, Cloud, CloudRain, Moon, CloudSun, CloudMoon, CloudMoonRain, CloudFog, CloudDrizzle, CloudSnow, CloudLightning, Haze } from 'lucide-react';
+import { WeatherCondition } from '../types';
+
+interface WeatherIconProps {
+  condition: WeatherCondition;
+  isDay: boolean;
+  size?: number;
+  className?: string;
+}
+
+const WeatherIcon: React.FC<WeatherIconProps> = ({ condition, isDay, size = 48, className }) => {
+  const props = { size, strokeWidth: 1, className };
+  switch (condition) {
+    case 'clear': return isDay ? <Sun {...props} /> : <Moon {...props} />;
+    case 'partly-cloudy': return isDay ? <CloudSun {...props} /> : <CloudMoon {...props} />;
+    case 'cloudy': return <Cloud {...props} />;
+    case 'hazy': return <Haze {...props} />;
+    case 'fog': return <CloudFog {...props} />;
+    case 'drizzle': return <CloudDrizzle {...props} />;
+    case 'rainy': return isDay ? <CloudRain {...props} /> : <CloudMoonRain {...props} />;
+    case 'snow': return <CloudSnow {...props} />;
+    case 'thunderstorm': return <CloudLightning {...props} />;
+    default: return <Sun {...props} />;
+  }
+};
+
+export default WeatherIcon;
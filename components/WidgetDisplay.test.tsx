@@ -0,0 +1,33 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import WidgetDisplay from './WidgetDisplay';
+import { readWidgetConfig } from '../utils/widget';
+import { writeWeatherCache } from '../utils/locationStore';
+import { stubFetch } from '../test/fetch';
+import { PLACE, weather } from '../test/weather';
+
+// The default cards, now and tennis, from a fresh cache so nothing is fetched.
+const renderWidgetAt = (iso: string) => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(iso);
+  writeWeatherCache(weather());
+  const fetch = stubFetch({});
+  render(<WidgetDisplay config={{ ...readWidgetConfig('?widget=1')!, place: PLACE }} fallbackPlace={PLACE} />);
+  expect(fetch).not.toHaveBeenCalled();
+};
+
+const score = () => Number(screen.getByRole('progressbar').getAttribute('aria-valuenow'));
+
+describe('WidgetDisplay', () => {
+  it('holds the tennis card back at night', () => {
+    renderWidgetAt('2026-10-19T23:00:00Z');
+    expect(score()).toBe(0);
+    expect(screen.getByText('No daylight')).toBeTruthy();
+  });
+
+  it('scores the tennis card in daylight', () => {
+    renderWidgetAt('2026-10-19T12:00:00Z');
+    expect(score()).toBe(100);
+  });
+});
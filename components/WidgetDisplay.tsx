@@ -0,0 +1,155 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { Wind, Droplets, Sunrise, Sunset } from 'lucide-react';
+import { WeatherData, SavedLocation } from '../types';
+import { WidgetConfig, WIDGET_THEMES } from '../utils/widget';
+import { getWeatherProvider } from '../services/weather';
+import { fetchWeatherWithAirQuality } from '../services/airQuality';
+import { loadSettings } from '../utils/settings';
+import { loadPlaces, readWeatherCache, readLastWeatherCache, writeWeatherCache } from '../utils/locationStore';
+import { allProfiles, loadCustomProfiles } from '../utils/activityProfiles';
+import { getDryingContext } from '../utils/activityScoring';
+import { atmosphereAt, EINK_THEME } from '../utils/atmosphere';
+import { computeSolarDay, isSunUp } from '../utils/astronomy';
+import { formatClock, toLocalIso } from '../utils/time';
+import { createLocale, LocaleProvider, useLocale } from '../i18n';
+import ActivityIndex from './ActivityIndex';
+import StatCard from './StatCard';
+import WeatherIcon from './WeatherIcon';
+import AtmoLogo from './AtmoLogo';
+
+interface WidgetDisplayProps {
+  config: WidgetConfig;
+  fallbackPlace: SavedLocation;
+}
+
+const MINUTE = 60 * 1000;
+
+const resolvePlace = (config: WidgetConfig, fallback: SavedLocation) =>
+  config.place || readLastWeatherCache()?.data.location || loadPlaces()[0] || fallback;
+
+const NowCard: React.FC<{ weather: WeatherData, isDay: boolean, isEink: boolean }> = ({ weather, isDay, isEink }) => {
+  const { t, temperature, condition } = useLocale();
+  const today = weather.daily?.[0];
+  return (
+    <div className="flex items-center gap-5">
+      <WeatherIcon condition={weather.condition} isDay={isDay} size={40} className="opacity-40 shrink-0" />
+      <div className="flex flex-col gap-1 min-w-0">
+        <span className="text-[9px] uppercase tracking-[0.4em] font-bold opacity-40 truncate">{weather.location.name}</span>
+        <span className={`text-5xl leading-none tracking-tighter ${isEink ? 'font-serif font-black' : 'font-[200]'}`}>{temperature(weather.temp)}</span>
+        <span className="text-[10px] uppercase tracking-[0.25em] opacity-70">
+          {condition(weather.condition, isDay)}
+          {today && ` · ${t('widget.high-low', { high: temperature(today.tempMax), low: temperature(today.tempMin) })}`}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+// A cut-down, read-only view for iframes on other sites: no header, search or settings, only the chosen cards.
+const WidgetDisplay: React.FC<WidgetDisplayProps> = ({ config, fallbackPlace }) => {
+  const [place] = useState(() => resolvePlace(config, fallbackPlace));
+  const [locale] = useState(() => {
+    const { language, units } = loadSettings();
+    return createLocale(config.language ?? language, config.units ?? units);
+  });
+  const [weather, setWeather] = useState<WeatherData | null>(() => readWeatherCache(place.id)?.data ?? null);
+  const [isOffline, setIsOffline] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+
+  const refresh = useCallback(async () => {
+    try {
+      const data = await fetchWeatherWithAirQuality(getWeatherProvider(loadSettings().weatherProvider), place);
+      setWeather(data);
+      setIsOffline(false);
+      writeWeatherCache(data, data.fetchedAt);
+    } catch (err) {
+      console.error(err);
+      setIsOffline(true);
+    }
+  }, [place]);
+
+  // A page embedding the widget is reloaded far more often than the forecast changes, so a fresh cache is used as is.
+  useEffect(() => {
+    const cached = readWeatherCache(place.id);
+    if (!cached || Date.now() - cached.timestamp > config.refreshMinutes * MINUTE) refresh();
+    const timer = setInterval(refresh, config.refreshMinutes * MINUTE);
+    return () => clearInterval(timer);
+  }, [refresh, place.id, config.refreshMinutes]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), MINUTE);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale.language;
+  }, [locale]);
+
+  const profiles = useMemo(() => allProfiles(loadCustomProfiles()), []);
+  const drying = useMemo(() => {
+    const past = weather?.pastHourly || [];
+    const hourly = weather?.hourly || [];
+    return past.length + hourly.length > 0 ? getDryingContext([...past, ...hourly], past.length) : undefined;
+  }, [weather]);
+
+  const isEink = config.theme === 'eink';
+  const theme = useMemo(() => {
+    if (isEink) return EINK_THEME;
+    if (config.theme !== 'sky') return WIDGET_THEMES[config.theme];
+    return atmosphereAt(now.getTime(), weather?.location ?? place, weather ?? { condition: 'clear' });
+  }, [isEink, config.theme, now, weather, place]);
+
+  const frame = { width: config.width, height: config.height, background: theme.background, color: theme.text };
+
+  if (!weather) {
+    return (
+      <div className="flex items-center justify-center text-[9px] uppercase tracking-[0.4em] font-bold" style={frame}>
+        <span className="opacity-50">{locale.t(isOffline ? 'widget.offline-no-data' : 'widget.loading')}</span>
+      </div>
+    );
+  }
+
+  const { lat, lon, timezone } = weather.location;
+  const isDay = isSunUp(now.getTime(), lat, lon);
+  const solar = computeSolarDay(toLocalIso(now, timezone).split('T')[0], lat, lon);
+  const clockAt = (ms: number | null) => ms === null ? '—' : locale.time(formatClock(ms, timezone));
+  const updated = weather.fetchedAt === undefined ? null
+    : locale.t(isOffline ? 'widget.offline-since' : 'widget.updated', { time: locale.time(formatClock(weather.fetchedAt, timezone)) });
+
+  const cards = config.cards.map(card => {
+    if (card === 'now') return <NowCard key={card} weather={weather} isDay={isDay} isEink={isEink} />;
+    if (card === 'stats') {
+      return (
+        <div key={card} className="grid grid-cols-2 gap-3">
+          <StatCard label={locale.t('stat.wind')} value={locale.wind(weather.windSpeed)} icon={<Wind size={14} strokeWidth={1.5} />} isEink={isEink} />
+          <StatCard label={locale.t('stat.humidity')} value={`${weather.humidity}%`} icon={<Droplets size={14} strokeWidth={1.5} />} isEink={isEink} />
+          <StatCard label={locale.t('stat.sunrise')} value={clockAt(solar.sunrise)} icon={<Sunrise size={14} strokeWidth={1.5} />} isEink={isEink} />
+          <StatCard label={locale.t('stat.sunset')} value={clockAt(solar.sunset)} icon={<Sunset size={14} strokeWidth={1.5} />} isEink={isEink} />
+        </div>
+      );
+    }
+    const profile = profiles.find(p => p.id === card);
+    return profile ? <ActivityIndex key={card} profile={profile} weather={weather} drying={drying} isDaylight={isDay} isEink={isEink} /> : null;
+  });
+
+  return (
+    <LocaleProvider value={locale}>
+      <div className={`flex flex-col overflow-hidden ${config.size === 'small' ? 'p-4 gap-3' : 'p-6 gap-5'}`} style={frame}>
+        <div className={`flex-grow overflow-y-auto ${config.width >= 600 ? 'grid grid-cols-2 gap-5 items-start' : 'flex flex-col gap-4'}`}>
+          {cards}
+        </div>
+        <a
+          href={`${window.location.origin}${window.location.pathname}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex justify-between items-center text-[7px] uppercase tracking-[0.4em] opacity-40 hover:opacity-80 transition-opacity"
+        >
+          <span className="flex items-center gap-2"><AtmoLogo className="w-2.5 h-2.5" /> {locale.t('widget.open')}</span>
+          {updated && <span>{updated}</span>}
+        </a>
+      </div>
+    </LocaleProvider>
+  );
+};
+
+export default WidgetDisplay;
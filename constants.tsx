@@ -1,34 +1,111 @@
 
-import { WeatherCondition } from './types';
+import { WeatherCondition, SkyKeyframe, SkyTint, ActivityProfile, SavedLocation } from './types';
 
-export const ATMOSPHERIC_THEMES: Record<WeatherCondition, { gradient: string; text: string }> = {
-  clear: {
-    gradient: 'from-[#f2ebe3] to-[#e6ded5]',
-    text: 'text-stone-800'
-  },
-  cloudy: {
-    gradient: 'from-[#D7DDE8] to-[#757F9A]',
-    text: 'text-slate-900'
+// Clear-sky colours by solar altitude. Dawn and dusk differ below about 10°: mornings run cooler and pinker,
+// evenings warmer and more orange. Above that the two sets meet and the sky no longer tells them apart.
+export const SKY_DAWN: SkyKeyframe[] = [
+  { altitude: -18, stops: ['#04060c', '#0a0f1e', '#121a2d'] },
+  { altitude: -12, stops: ['#0b1328', '#1a2546', '#2a3659'] },
+  { altitude: -6, stops: ['#1f2d55', '#52578a', '#b98aa5'] },
+  { altitude: -2, stops: ['#43598f', '#b98ea8', '#f1b59c'] },
+  { altitude: 3, stops: ['#7b9bc8', '#e6c0b4', '#f8d6b6'] },
+  { altitude: 10, stops: ['#a7c1dc', '#e5dbd2', '#f5e8d9'] },
+  { altitude: 30, stops: ['#cfdbe6', '#e9e5df', '#f2ebe3'] },
+  { altitude: 60, stops: ['#c9d9e9', '#e6e7e6', '#f0ece6'] }
+];
+
+export const SKY_DUSK: SkyKeyframe[] = [
+  { altitude: -18, stops: ['#04060c', '#0a0f1e', '#121a2d'] },
+  { altitude: -12, stops: ['#0c1226', '#1d2343', '#33345a'] },
+  { altitude: -6, stops: ['#1c2750', '#4f467a', '#b06a7e'] },
+  { altitude: -2, stops: ['#3b4c84', '#b4707e', '#f2925e'] },
+  { altitude: 3, stops: ['#7089bd', '#e3a783', '#f9c27e'] },
+  { altitude: 10, stops: ['#a1bad9', '#e6d2bd', '#f6e2c6'] },
+  { altitude: 30, stops: ['#cfdbe6', '#e9e5df', '#f2ebe3'] },
+  { altitude: 60, stops: ['#c9d9e9', '#e6e7e6', '#f0ece6'] }
+];
+
+// Full overcast, which cloud cover mixes toward; lit by day, near black at night.
+export const OVERCAST: SkyTint = { day: '#c3c8ce', night: '#1c1f24', amount: 0.75 };
+
+export const SKY_TINTS: Partial<Record<WeatherCondition, SkyTint>> = {
+  hazy: { day: '#d9cfbb', night: '#3b3832', amount: 0.35 },
+  fog: { day: '#e2e5e7', night: '#4a5057', amount: 0.6 },
+  drizzle: { day: '#9aa8bb', night: '#252c38', amount: 0.25 },
+  rainy: { day: '#6e7c94', night: '#171c26', amount: 0.45 },
+  snow: { day: '#eef2f8', night: '#39455a', amount: 0.45 },
+  thunderstorm: { day: '#4a4e69', night: '#0b0c14', amount: 0.6 }
+};
+
+export const TENNIS_PROFILE: ActivityProfile = {
+  id: 'tennis',
+  name: 'Tennis',
+  title: 'Tennis Playability',
+  requiresDaylight: true,
+  temp: { min: 10, max: 35, idealMin: 18, idealMax: 24, weight: 1 },
+  wind: { calm: 10, max: 25, weight: 1 },
+  humidity: { idealMax: 80, max: 95, weight: 0.5 },
+  precipitation: { max: 0, weight: 1, dryingSensitive: true },
+  status: { best: 'status.elite-play', good: 'status.good-play', rain: 'status.courts-wet', drying: 'status.courts-drying' }
+};
+
+export const ACTIVITY_PROFILES: ActivityProfile[] = [
+  TENNIS_PROFILE,
+  {
+    id: 'padel',
+    name: 'Padel',
+    title: 'Padel Playability',
+    requiresDaylight: true,
+    temp: { min: 8, max: 35, idealMin: 16, idealMax: 26, weight: 1 },
+    wind: { calm: 12, max: 30, weight: 0.8 },
+    humidity: { idealMax: 75, max: 92, weight: 0.8 },
+    precipitation: { max: 0, weight: 1, dryingSensitive: true },
+    status: { best: 'status.elite-play', good: 'status.good-play', rain: 'status.courts-wet', drying: 'status.glass-drying' }
   },
-  rainy: {
-    gradient: 'from-[#606c88] to-[#3f4c6b]',
-    text: 'text-white'
+  {
+    id: 'running',
+    name: 'Running',
+    title: 'Running Conditions',
+    requiresDaylight: false,
+    temp: { min: -5, max: 30, idealMin: 8, idealMax: 16, weight: 1 },
+    wind: { calm: 15, max: 40, weight: 0.7 },
+    humidity: { idealMax: 70, max: 90, weight: 1 },
+    precipitation: { max: 1, weight: 0.6, dryingSensitive: false },
+    status: { best: 'status.perfect-pace', good: 'status.good-run' }
   },
-  night: {
-    gradient: 'from-[#2C3E50] to-[#000000]',
-    text: 'text-stone-200'
+  {
+    id: 'cycling',
+    name: 'Cycling',
+    title: 'Riding Conditions',
+    requiresDaylight: false,
+    temp: { min: 0, max: 35, idealMin: 15, idealMax: 24, weight: 1 },
+    wind: { calm: 12, max: 35, weight: 1.3 },
+    humidity: { idealMax: 80, max: 95, weight: 0.5 },
+    precipitation: { max: 0, weight: 1.2, dryingSensitive: true },
+    status: { best: 'status.clear-roads', good: 'status.good-ride', rain: 'status.roads-wet', drying: 'status.roads-drying', wind: 'status.headwinds' }
   },
-  hazy: {
-    gradient: 'from-[#8e9eab] to-[#eef2f3]',
-    text: 'text-slate-700'
+  {
+    id: 'laundry',
+    name: 'Laundry',
+    title: 'Laundry Drying',
+    requiresDaylight: true,
+    temp: { min: 5, max: 40, idealMin: 18, idealMax: 32, weight: 0.8 },
+    wind: { min: 5, calm: 30, max: 50, weight: 1 },
+    humidity: { idealMax: 60, max: 85, weight: 2 },
+    precipitation: { max: 0, weight: 1.5, dryingSensitive: false },
+    status: { best: 'status.line-dry', good: 'status.will-dry', rain: 'status.keep-inside', muggy: 'status.wont-dry', wind: 'status.gales' }
   }
-};
+];
+
+// Where the app lands when it cannot locate the user.
+export const DEFAULT_PLACE: SavedLocation = { id: '24.288,116.117', name: 'Meixian', admin1: 'Guangdong', country: 'China', timezone: 'Asia/Shanghai', lat: 24.288, lon: 116.117 };
 
 export const MOCK_WEATHER: Record<string, any> = {
   current: {
     temp: 14,
     condition: 'clear',
-    location: 'MEIXIAN',
+    isDay: true,
+    location: DEFAULT_PLACE,
     windSpeed: 7,
     humidity: 68,
     precipitation: 0,
@@ -0,0 +1,294 @@
+// Compact gazetteer for offline reverse geocoding: [name, admin1, country, lat, lon].
+// Regional centres are favoured over raw population so coverage stays even across the map.
+export type PopulatedPlace = [string, string, string, number, number];
+
+export const POPULATED_PLACES: PopulatedPlace[] = [
+  // China
+  ['Meixian', 'Guangdong', 'China', 24.288, 116.117],
+  ['Meizhou', 'Guangdong', 'China', 24.3, 116.12],
+  ['Guangzhou', 'Guangdong', 'China', 23.13, 113.26],
+  ['Shenzhen', 'Guangdong', 'China', 22.54, 114.06],
+  ['Shantou', 'Guangdong', 'China', 23.35, 116.68],
+  ['Heyuan', 'Guangdong', 'China', 23.74, 114.7],
+  ['Chaozhou', 'Guangdong', 'China', 23.66, 116.62],
+  ['Zhanjiang', 'Guangdong', 'China', 21.27, 110.36],
+  ['Xiamen', 'Fujian', 'China', 24.48, 118.09],
+  ['Fuzhou', 'Fujian', 'China', 26.07, 119.3],
+  ['Longyan', 'Fujian', 'China', 25.08, 117.02],
+  ['Ganzhou', 'Jiangxi', 'China', 25.83, 114.93],
+  ['Nanchang', 'Jiangxi', 'China', 28.68, 115.86],
+  ['Hong Kong', 'Hong Kong', 'China', 22.32, 114.17],
+  ['Macau', 'Macau', 'China', 22.2, 113.54],
+  ['Nanning', 'Guangxi', 'China', 22.82, 108.32],
+  ['Guilin', 'Guangxi', 'China', 25.27, 110.29],
+  ['Haikou', 'Hainan', 'China', 20.04, 110.34],
+  ['Changsha', 'Hunan', 'China', 28.23, 112.94],
+  ['Wuhan', 'Hubei', 'China', 30.59, 114.31],
+  ['Hangzhou', 'Zhejiang', 'China', 30.27, 120.16],
+  ['Ningbo', 'Zhejiang', 'China', 29.87, 121.54],
+  ['Shanghai', 'Shanghai', 'China', 31.23, 121.47],
+  ['Nanjing', 'Jiangsu', 'China', 32.06, 118.8],
+  ['Suzhou', 'Jiangsu', 'China', 31.3, 120.59],
+  ['Hefei', 'Anhui', 'China', 31.82, 117.23],
+  ['Jinan', 'Shandong', 'China', 36.65, 117.12],
+  ['Qingdao', 'Shandong', 'China', 36.07, 120.38],
+  ['Beijing', 'Beijing', 'China', 39.9, 116.41],
+  ['Tianjin', 'Tianjin', 'China', 39.08, 117.2],
+  ['Shijiazhuang', 'Hebei', 'China', 38.04, 114.51],
+  ['Taiyuan', 'Shanxi', 'China', 37.87, 112.55],
+  ['Zhengzhou', 'Henan', 'China', 34.75, 113.63],
+  ["Xi'an", 'Shaanxi', 'China', 34.34, 108.94],
+  ['Chengdu', 'Sichuan', 'China', 30.57, 104.07],
+  ['Chongqing', 'Chongqing', 'China', 29.56, 106.55],
+  ['Kunming', 'Yunnan', 'China', 25.04, 102.71],
+  ['Guiyang', 'Guizhou', 'China', 26.65, 106.63],
+  ['Lanzhou', 'Gansu', 'China', 36.06, 103.83],
+  ['Xining', 'Qinghai', 'China', 36.62, 101.78],
+  ['Lhasa', 'Tibet', 'China', 29.65, 91.17],
+  ['Urumqi', 'Xinjiang', 'China', 43.83, 87.62],
+  ['Hohhot', 'Inner Mongolia', 'China', 40.84, 111.75],
+  ['Shenyang', 'Liaoning', 'China', 41.81, 123.43],
+  ['Dalian', 'Liaoning', 'China', 38.91, 121.61],
+  ['Changchun', 'Jilin', 'China', 43.82, 125.32],
+  ['Harbin', 'Heilongjiang', 'China', 45.8, 126.53],
+  ['Taipei', 'Taipei', 'Taiwan', 25.03, 121.57],
+  ['Kaohsiung', 'Kaohsiung', 'Taiwan', 22.63, 120.3],
+  // Rest of Asia
+  ['Tokyo', 'Tokyo', 'Japan', 35.68, 139.69],
+  ['Osaka', 'Osaka', 'Japan', 34.69, 135.5],
+  ['Sapporo', 'Hokkaido', 'Japan', 43.06, 141.35],
+  ['Fukuoka', 'Fukuoka', 'Japan', 33.59, 130.4],
+  ['Seoul', 'Seoul', 'South Korea', 37.57, 126.98],
+  ['Busan', 'Busan', 'South Korea', 35.18, 129.08],
+  ['Pyongyang', 'Pyongyang', 'North Korea', 39.04, 125.76],
+  ['Ulaanbaatar', 'Ulaanbaatar', 'Mongolia', 47.89, 106.91],
+  ['Manila', 'Metro Manila', 'Philippines', 14.6, 120.98],
+  ['Cebu', 'Central Visayas', 'Philippines', 10.32, 123.89],
+  ['Hanoi', 'Hanoi', 'Vietnam', 21.03, 105.85],
+  ['Ho Chi Minh City', 'Ho Chi Minh City', 'Vietnam', 10.82, 106.63],
+  ['Bangkok', 'Bangkok', 'Thailand', 13.76, 100.5],
+  ['Chiang Mai', 'Chiang Mai', 'Thailand', 18.79, 98.98],
+  ['Phnom Penh', 'Phnom Penh', 'Cambodia', 11.56, 104.92],
+  ['Vientiane', 'Vientiane', 'Laos', 17.98, 102.63],
+  ['Yangon', 'Yangon', 'Myanmar', 16.87, 96.2],
+  ['Kuala Lumpur', 'Kuala Lumpur', 'Malaysia', 3.14, 101.69],
+  ['Singapore', 'Singapore', 'Singapore', 1.35, 103.82],
+  ['Jakarta', 'Jakarta', 'Indonesia', -6.21, 106.85],
+  ['Surabaya', 'East Java', 'Indonesia', -7.25, 112.75],
+  ['Denpasar', 'Bali', 'Indonesia', -8.65, 115.22],
+  ['Dhaka', 'Dhaka', 'Bangladesh', 23.81, 90.41],
+  ['Kathmandu', 'Bagmati', 'Nepal', 27.72, 85.32],
+  ['Delhi', 'Delhi', 'India', 28.61, 77.21],
+  ['Mumbai', 'Maharashtra', 'India', 19.08, 72.88],
+  ['Bengaluru', 'Karnataka', 'India', 12.97, 77.59],
+  ['Chennai', 'Tamil Nadu', 'India', 13.08, 80.27],
+  ['Kolkata', 'West Bengal', 'India', 22.57, 88.36],
+  ['Hyderabad', 'Telangana', 'India', 17.39, 78.49],
+  ['Colombo', 'Western', 'Sri Lanka', 6.93, 79.86],
+  ['Karachi', 'Sindh', 'Pakistan', 24.86, 67.01],
+  ['Lahore', 'Punjab', 'Pakistan', 31.55, 74.34],
+  ['Islamabad', 'Islamabad', 'Pakistan', 33.68, 73.05],
+  ['Kabul', 'Kabul', 'Afghanistan', 34.56, 69.21],
+  ['Tashkent', 'Tashkent', 'Uzbekistan', 41.3, 69.24],
+  ['Almaty', 'Almaty', 'Kazakhstan', 43.24, 76.89],
+  ['Astana', 'Astana', 'Kazakhstan', 51.17, 71.45],
+  ['Tehran', 'Tehran', 'Iran', 35.69, 51.39],
+  ['Baghdad', 'Baghdad', 'Iraq', 33.31, 44.36],
+  ['Riyadh', 'Riyadh', 'Saudi Arabia', 24.71, 46.68],
+  ['Jeddah', 'Makkah', 'Saudi Arabia', 21.49, 39.19],
+  ['Dubai', 'Dubai', 'United Arab Emirates', 25.2, 55.27],
+  ['Doha', 'Doha', 'Qatar', 25.29, 51.53],
+  ['Muscat', 'Muscat', 'Oman', 23.59, 58.41],
+  ['Tel Aviv', 'Tel Aviv', 'Israel', 32.09, 34.78],
+  ['Amman', 'Amman', 'Jordan', 31.95, 35.93],
+  ['Beirut', 'Beirut', 'Lebanon', 33.89, 35.5],
+  ['Istanbul', 'Istanbul', 'Turkey', 41.01, 28.98],
+  ['Ankara', 'Ankara', 'Turkey', 39.93, 32.86],
+  // Europe
+  ['London', 'England', 'United Kingdom', 51.51, -0.13],
+  ['Manchester', 'England', 'United Kingdom', 53.48, -2.24],
+  ['Birmingham', 'England', 'United Kingdom', 52.49, -1.89],
+  ['Edinburgh', 'Scotland', 'United Kingdom', 55.95, -3.19],
+  ['Glasgow', 'Scotland', 'United Kingdom', 55.86, -4.25],
+  ['Cardiff', 'Wales', 'United Kingdom', 51.48, -3.18],
+  ['Belfast', 'Northern Ireland', 'United Kingdom', 54.6, -5.93],
+  ['Dublin', 'Leinster', 'Ireland', 53.35, -6.26],
+  ['Paris', 'Île-de-France', 'France', 48.86, 2.35],
+  ['Lyon', 'Auvergne-Rhône-Alpes', 'France', 45.76, 4.84],
+  ['Marseille', "Provence-Alpes-Côte d'Azur", 'France', 43.3, 5.37],
+  ['Toulouse', 'Occitanie', 'France', 43.6, 1.44],
+  ['Bordeaux', 'Nouvelle-Aquitaine', 'France', 44.84, -0.58],
+  ['Lille', 'Hauts-de-France', 'France', 50.63, 3.06],
+  ['Brussels', 'Brussels', 'Belgium', 50.85, 4.35],
+  ['Amsterdam', 'North Holland', 'Netherlands', 52.37, 4.9],
+  ['Rotterdam', 'South Holland', 'Netherlands', 51.92, 4.48],
+  ['Luxembourg', 'Luxembourg', 'Luxembourg', 49.61, 6.13],
+  ['Berlin', 'Berlin', 'Germany', 52.52, 13.4],
+  ['Hamburg', 'Hamburg', 'Germany', 53.55, 9.99],
+  ['Munich', 'Bavaria', 'Germany', 48.14, 11.58],
+  ['Cologne', 'North Rhine-Westphalia', 'Germany', 50.94, 6.96],
+  ['Frankfurt', 'Hesse', 'Germany', 50.11, 8.68],
+  ['Stuttgart', 'Baden-Württemberg', 'Germany', 48.78, 9.18],
+  ['Leipzig', 'Saxony', 'Germany', 51.34, 12.37],
+  ['Hanover', 'Lower Saxony', 'Germany', 52.38, 9.73],
+  ['Zurich', 'Zurich', 'Switzerland', 47.38, 8.54],
+  ['Geneva', 'Geneva', 'Switzerland', 46.2, 6.14],
+  ['Vienna', 'Vienna', 'Austria', 48.21, 16.37],
+  ['Innsbruck', 'Tyrol', 'Austria', 47.27, 11.4],
+  ['Prague', 'Prague', 'Czechia', 50.08, 14.44],
+  ['Warsaw', 'Masovia', 'Poland', 52.23, 21.01],
+  ['Kraków', 'Lesser Poland', 'Poland', 50.06, 19.94],
+  ['Gdańsk', 'Pomerania', 'Poland', 54.35, 18.65],
+  ['Budapest', 'Budapest', 'Hungary', 47.5, 19.04],
+  ['Bratislava', 'Bratislava', 'Slovakia', 48.15, 17.11],
+  ['Ljubljana', 'Ljubljana', 'Slovenia', 46.06, 14.51],
+  ['Zagreb', 'Zagreb', 'Croatia', 45.81, 15.98],
+  ['Split', 'Split-Dalmatia', 'Croatia', 43.51, 16.44],
+  ['Belgrade', 'Belgrade', 'Serbia', 44.79, 20.45],
+  ['Sarajevo', 'Sarajevo', 'Bosnia and Herzegovina', 43.86, 18.41],
+  ['Sofia', 'Sofia', 'Bulgaria', 42.7, 23.32],
+  ['Bucharest', 'Bucharest', 'Romania', 44.43, 26.1],
+  ['Athens', 'Attica', 'Greece', 37.98, 23.73],
+  ['Thessaloniki', 'Central Macedonia', 'Greece', 40.64, 22.94],
+  ['Rome', 'Lazio', 'Italy', 41.9, 12.5],
+  ['Milan', 'Lombardy', 'Italy', 45.46, 9.19],
+  ['Naples', 'Campania', 'Italy', 40.85, 14.27],
+  ['Turin', 'Piedmont', 'Italy', 45.07, 7.69],
+  ['Florence', 'Tuscany', 'Italy', 43.77, 11.26],
+  ['Palermo', 'Sicily', 'Italy', 38.12, 13.36],
+  ['Madrid', 'Madrid', 'Spain', 40.42, -3.7],
+  ['Barcelona', 'Catalonia', 'Spain', 41.39, 2.17],
+  ['Valencia', 'Valencia', 'Spain', 39.47, -0.38],
+  ['Seville', 'Andalusia', 'Spain', 37.39, -5.98],
+  ['Bilbao', 'Basque Country', 'Spain', 43.26, -2.93],
+  ['Palma', 'Balearic Islands', 'Spain', 39.57, 2.65],
+  ['Lisbon', 'Lisbon', 'Portugal', 38.72, -9.14],
+  ['Porto', 'Porto', 'Portugal', 41.15, -8.61],
+  ['Copenhagen', 'Capital Region', 'Denmark', 55.68, 12.57],
+  ['Oslo', 'Oslo', 'Norway', 59.91, 10.75],
+  ['Bergen', 'Vestland', 'Norway', 60.39, 5.32],
+  ['Trondheim', 'Trøndelag', 'Norway', 63.43, 10.4],
+  ['Tromsø', 'Troms', 'Norway', 69.65, 18.96],
+  ['Stockholm', 'Stockholm', 'Sweden', 59.33, 18.07],
+  ['Gothenburg', 'Västra Götaland', 'Sweden', 57.71, 11.97],
+  ['Helsinki', 'Uusimaa', 'Finland', 60.17, 24.94],
+  ['Reykjavík', 'Capital Region', 'Iceland', 64.15, -21.94],
+  ['Tallinn', 'Harju', 'Estonia', 59.44, 24.75],
+  ['Riga', 'Riga', 'Latvia', 56.95, 24.11],
+  ['Vilnius', 'Vilnius', 'Lithuania', 54.69, 25.28],
+  ['Kyiv', 'Kyiv', 'Ukraine', 50.45, 30.52],
+  ['Lviv', 'Lviv', 'Ukraine', 49.84, 24.03],
+  ['Minsk', 'Minsk', 'Belarus', 53.9, 27.56],
+  ['Moscow', 'Moscow', 'Russia', 55.76, 37.62],
+  ['Saint Petersburg', 'Saint Petersburg', 'Russia', 59.93, 30.34],
+  ['Yekaterinburg', 'Sverdlovsk', 'Russia', 56.84, 60.6],
+  ['Novosibirsk', 'Novosibirsk', 'Russia', 55.01, 82.93],
+  ['Vladivostok', 'Primorsky', 'Russia', 43.12, 131.89],
+  // Africa
+  ['Cairo', 'Cairo', 'Egypt', 30.04, 31.24],
+  ['Casablanca', 'Casablanca-Settat', 'Morocco', 33.57, -7.59],
+  ['Marrakesh', 'Marrakesh-Safi', 'Morocco', 31.63, -8.01],
+  ['Algiers', 'Algiers', 'Algeria', 36.75, 3.06],
+  ['Tunis', 'Tunis', 'Tunisia', 36.81, 10.18],
+  ['Lagos', 'Lagos', 'Nigeria', 6.52, 3.38],
+  ['Abuja', 'Federal Capital Territory', 'Nigeria', 9.08, 7.4],
+  ['Accra', 'Greater Accra', 'Ghana', 5.6, -0.19],
+  ['Dakar', 'Dakar', 'Senegal', 14.72, -17.47],
+  ['Addis Ababa', 'Addis Ababa', 'Ethiopia', 9.03, 38.74],
+  ['Nairobi', 'Nairobi', 'Kenya', -1.29, 36.82],
+  ['Dar es Salaam', 'Dar es Salaam', 'Tanzania', -6.79, 39.21],
+  ['Kampala', 'Central', 'Uganda', 0.35, 32.58],
+  ['Kinshasa', 'Kinshasa', 'DR Congo', -4.44, 15.27],
+  ['Luanda', 'Luanda', 'Angola', -8.84, 13.23],
+  ['Harare', 'Harare', 'Zimbabwe', -17.83, 31.05],
+  ['Johannesburg', 'Gauteng', 'South Africa', -26.2, 28.05],
+  ['Cape Town', 'Western Cape', 'South Africa', -33.92, 18.42],
+  ['Durban', 'KwaZulu-Natal', 'South Africa', -29.86, 31.02],
+  ['Antananarivo', 'Analamanga', 'Madagascar', -18.88, 47.51],
+  // North America
+  ['New York', 'New York', 'United States', 40.71, -74.01],
+  ['Boston', 'Massachusetts', 'United States', 42.36, -71.06],
+  ['Philadelphia', 'Pennsylvania', 'United States', 39.95, -75.17],
+  ['Washington', 'District of Columbia', 'United States', 38.91, -77.04],
+  ['Atlanta', 'Georgia', 'United States', 33.75, -84.39],
+  ['Miami', 'Florida', 'United States', 25.76, -80.19],
+  ['Orlando', 'Florida', 'United States', 28.54, -81.38],
+  ['Charlotte', 'North Carolina', 'United States', 35.23, -80.84],
+  ['Nashville', 'Tennessee', 'United States', 36.16, -86.78],
+  ['Chicago', 'Illinois', 'United States', 41.88, -87.63],
+  ['Springfield', 'Illinois', 'United States', 39.78, -89.65],
+  ['Detroit', 'Michigan', 'United States', 42.33, -83.05],
+  ['Minneapolis', 'Minnesota', 'United States', 44.98, -93.27],
+  ['St. Louis', 'Missouri', 'United States', 38.63, -90.2],
+  ['Kansas City', 'Missouri', 'United States', 39.1, -94.58],
+  ['New Orleans', 'Louisiana', 'United States', 29.95, -90.07],
+  ['Houston', 'Texas', 'United States', 29.76, -95.37],
+  ['Dallas', 'Texas', 'United States', 32.78, -96.8],
+  ['Austin', 'Texas', 'United States', 30.27, -97.74],
+  ['San Antonio', 'Texas', 'United States', 29.42, -98.49],
+  ['Denver', 'Colorado', 'United States', 39.74, -104.99],
+  ['Salt Lake City', 'Utah', 'United States', 40.76, -111.89],
+  ['Phoenix', 'Arizona', 'United States', 33.45, -112.07],
+  ['Las Vegas', 'Nevada', 'United States', 36.17, -115.14],
+  ['Los Angeles', 'California', 'United States', 34.05, -118.24],
+  ['San Diego', 'California', 'United States', 32.72, -117.16],
+  ['San Francisco', 'California', 'United States', 37.77, -122.42],
+  ['Sacramento', 'California', 'United States', 38.58, -121.49],
+  ['Portland', 'Oregon', 'United States', 45.52, -122.68],
+  ['Seattle', 'Washington', 'United States', 47.61, -122.33],
+  ['Anchorage', 'Alaska', 'United States', 61.22, -149.9],
+  ['Honolulu', 'Hawaii', 'United States', 21.31, -157.86],
+  ['Toronto', 'Ontario', 'Canada', 43.65, -79.38],
+  ['Ottawa', 'Ontario', 'Canada', 45.42, -75.7],
+  ['Montreal', 'Quebec', 'Canada', 45.5, -73.57],
+  ['Quebec City', 'Quebec', 'Canada', 46.81, -71.21],
+  ['Halifax', 'Nova Scotia', 'Canada', 44.65, -63.58],
+  ['Winnipeg', 'Manitoba', 'Canada', 49.9, -97.14],
+  ['Calgary', 'Alberta', 'Canada', 51.05, -114.07],
+  ['Edmonton', 'Alberta', 'Canada', 53.55, -113.49],
+  ['Vancouver', 'British Columbia', 'Canada', 49.28, -123.12],
+  ['Mexico City', 'Mexico City', 'Mexico', 19.43, -99.13],
+  ['Guadalajara', 'Jalisco', 'Mexico', 20.66, -103.35],
+  ['Monterrey', 'Nuevo León', 'Mexico', 25.69, -100.32],
+  ['Cancún', 'Quintana Roo', 'Mexico', 21.16, -86.85],
+  ['Guatemala City', 'Guatemala', 'Guatemala', 14.63, -90.51],
+  ['San José', 'San José', 'Costa Rica', 9.93, -84.08],
+  ['Panama City', 'Panamá', 'Panama', 8.98, -79.52],
+  ['Havana', 'Havana', 'Cuba', 23.11, -82.37],
+  ['Santo Domingo', 'Distrito Nacional', 'Dominican Republic', 18.49, -69.93],
+  ['San Juan', 'Puerto Rico', 'United States', 18.47, -66.11],
+  // South America
+  ['Bogotá', 'Bogotá', 'Colombia', 4.71, -74.07],
+  ['Medellín', 'Antioquia', 'Colombia', 6.24, -75.58],
+  ['Caracas', 'Capital District', 'Venezuela', 10.48, -66.9],
+  ['Quito', 'Pichincha', 'Ecuador', -0.18, -78.47],
+  ['Lima', 'Lima', 'Peru', -12.05, -77.04],
+  ['La Paz', 'La Paz', 'Bolivia', -16.5, -68.15],
+  ['Santiago', 'Santiago Metropolitan', 'Chile', -33.45, -70.67],
+  ['Buenos Aires', 'Buenos Aires', 'Argentina', -34.6, -58.38],
+  ['Córdoba', 'Córdoba', 'Argentina', -31.42, -64.18],
+  ['Montevideo', 'Montevideo', 'Uruguay', -34.9, -56.16],
+  ['Asunción', 'Asunción', 'Paraguay', -25.26, -57.58],
+  ['São Paulo', 'São Paulo', 'Brazil', -23.55, -46.63],
+  ['Rio de Janeiro', 'Rio de Janeiro', 'Brazil', -22.91, -43.17],
+  ['Brasília', 'Federal District', 'Brazil', -15.79, -47.88],
+  ['Salvador', 'Bahia', 'Brazil', -12.97, -38.5],
+  ['Recife', 'Pernambuco', 'Brazil', -8.05, -34.88],
+  ['Manaus', 'Amazonas', 'Brazil', -3.12, -60.02],
+  ['Porto Alegre', 'Rio Grande do Sul', 'Brazil', -30.03, -51.23],
+  // Oceania
+  ['Sydney', 'New South Wales', 'Australia', -33.87, 151.21],
+  ['Melbourne', 'Victoria', 'Australia', -37.81, 144.96],
+  ['Brisbane', 'Queensland', 'Australia', -27.47, 153.03],
+  ['Perth', 'Western Australia', 'Australia', -31.95, 115.86],
+  ['Adelaide', 'South Australia', 'Australia', -34.93, 138.6],
+  ['Canberra', 'Australian Capital Territory', 'Australia', -35.28, 149.13],
+  ['Hobart', 'Tasmania', 'Australia', -42.88, 147.33],
+  ['Darwin', 'Northern Territory', 'Australia', -12.46, 130.84],
+  ['Cairns', 'Queensland', 'Australia', -16.92, 145.77],
+  ['Auckland', 'Auckland', 'New Zealand', -36.85, 174.76],
+  ['Wellington', 'Wellington', 'New Zealand', -41.29, 174.78],
+  ['Christchurch', 'Canterbury', 'New Zealand', -43.53, 172.64],
+  ['Suva', 'Central', 'Fiji', -18.14, 178.44],
+  ['Port Moresby', 'National Capital District', 'Papua New Guinea', -9.44, 147.18]
+];
@@ -0,0 +1,282 @@
+import type { Messages } from './index';
+
+export const de: Messages = {
+  'app.syncing': 'Synchronisiere...',
+  'app.activities': 'Aktivitäten',
+  'app.source': 'Quelle: {source}',
+  'app.no-data': 'Noch keine Vorhersage',
+  'app.retry': 'Erneut versuchen',
+  'app.updated': 'Wetter für {place}: {temp}, {condition}',
+
+  'action.save-place': 'Ort speichern',
+  'action.search': 'Orte suchen',
+  'action.locate': 'Meinen Standort verwenden',
+  'action.share': 'Teilen',
+  'action.eink': 'E-Ink-Modus',
+  'action.settings': 'Einstellungen',
+  'action.dismiss': 'Ausblenden',
+
+  'stat.wind': 'Wind',
+  'stat.humidity': 'Luftfeuchte',
+  'stat.sunrise': 'Aufgang',
+  'stat.sunset': 'Untergang',
+
+  'error.sync-failed': 'Sync fehlgeschlagen',
+  'error.offline': 'Offline',
+  'error.location-denied': 'Standort verweigert',
+  'error.no-geolocation': 'Keine Ortung',
+  'error.search-failed': 'Suche fehlgeschlagen',
+  'error.location-not-found': 'Ort nicht gefunden',
+  'error.network': 'Netzwerkfehler',
+  'error.service': 'Wetterdienst nicht erreichbar',
+  'error.schema': 'Vorhersage nicht lesbar',
+  'error.location-unavailable': 'Standort nicht verfügbar',
+  'error.share-failed': 'Teilen fehlgeschlagen',
+
+  'notice.offline-since': 'Offline — Daten von {time} ({age})',
+  'notice.failed-since': 'Sync fehlgeschlagen — Daten von {time} ({age})',
+
+  'condition.clear.day': 'klar',
+  'condition.clear.night': 'klare Nacht',
+  'condition.partly-cloudy.day': 'teils bewölkt',
+  'condition.partly-cloudy.night': 'teils bewölkt',
+  'condition.cloudy.day': 'bewölkt',
+  'condition.cloudy.night': 'bewölkte Nacht',
+  'condition.hazy.day': 'dunstig',
+  'condition.hazy.night': 'dunstig',
+  'condition.fog.day': 'Nebel',
+  'condition.fog.night': 'Nebel',
+  'condition.drizzle.day': 'Niesel',
+  'condition.drizzle.night': 'Niesel',
+  'condition.rainy.day': 'Regen',
+  'condition.rainy.night': 'Regen',
+  'condition.snow.day': 'Schnee',
+  'condition.snow.night': 'Schnee',
+  'condition.thunderstorm.day': 'Gewitter',
+  'condition.thunderstorm.night': 'Gewitter',
+
+  'profile.tennis.name': 'Tennis',
+  'profile.tennis.title': 'Tennis-Bedingungen',
+  'profile.padel.name': 'Padel',
+  'profile.padel.title': 'Padel-Bedingungen',
+  'profile.running.name': 'Laufen',
+  'profile.running.title': 'Laufbedingungen',
+  'profile.cycling.name': 'Radfahren',
+  'profile.cycling.title': 'Radbedingungen',
+  'profile.laundry.name': 'Wäsche',
+  'profile.laundry.title': 'Wäsche trocknen',
+
+  'activity.conditions': '{name}: Bedingungen',
+  'activity.sync': 'Passt zu {score}%',
+  'activity.cards': 'Aktivitätskarten',
+  'activity.custom': 'Eigene',
+  'activity.name': 'Name',
+  'activity.based-on': 'Basierend auf',
+  'activity.ideal-min': 'Ideal min. {unit}',
+  'activity.ideal-max': 'Ideal max. {unit}',
+  'activity.max-wind': 'Max. Wind {unit}',
+  'activity.max-humidity': 'Max. Feuchte %',
+  'activity.rain-ok': 'Regen ok {unit}/h',
+  'activity.wind-weight': 'Windgewicht',
+  'activity.cancel': 'Abbrechen',
+  'activity.delete': '{name} löschen',
+  'activity.save': 'Speichern',
+
+  'status.best': 'Ideal',
+  'status.good': 'Gut',
+  'status.rain': 'Nass',
+  'status.drying': 'Trocknet',
+  'status.wind': 'Zu windig',
+  'status.breeze': 'Windig',
+  'status.still': 'Windstill',
+  'status.extreme-temp': 'Extreme Temp.',
+  'status.muggy': 'Zu schwül',
+  'status.humid': 'Feucht',
+  'status.dark': 'Kein Tageslicht',
+  'status.elite-play': 'Top-Spiel',
+  'status.good-play': 'Gut spielbar',
+  'status.courts-wet': 'Plätze nass',
+  'status.courts-drying': 'Plätze trocknen',
+  'status.glass-drying': 'Glas trocknet',
+  'status.perfect-pace': 'Perfektes Tempo',
+  'status.good-run': 'Guter Lauf',
+  'status.clear-roads': 'Freie Straßen',
+  'status.good-ride': 'Gute Fahrt',
+  'status.roads-wet': 'Straßen nass',
+  'status.roads-drying': 'Straßen trocknen',
+  'status.headwinds': 'Gegenwind',
+  'status.line-dry': 'Leine frei',
+  'status.will-dry': 'Wird trocken',
+  'status.keep-inside': 'Drinnen lassen',
+  'status.wont-dry': 'Trocknet nicht',
+  'status.gales': 'Sturm',
+
+  'rating.perfect': 'Perfekt',
+  'rating.solid': 'Solide',
+  'rating.okay': 'Okay',
+  'rating.fair': 'Mäßig',
+  'rating.poor': 'Schlecht',
+
+  'penalty.rain': 'Regen {amount}',
+  'penalty.drying': 'Trocknet, Regen vor {hours} h',
+  'penalty.wind': 'Wind {speed}',
+  'penalty.breeze': 'Windig {speed}',
+  'penalty.still': 'Windstill {speed}',
+  'penalty.cold': 'Kalt {temp}',
+  'penalty.hot': 'Heiß {temp}',
+  'penalty.cool': 'Kühl {temp}',
+  'penalty.warm': 'Warm {temp}',
+  'penalty.muggy': 'Luftfeuchte {humidity}%',
+  'penalty.humid': 'Feucht {humidity}%',
+  'penalty.dark': 'Nach Einbruch der Dunkelheit',
+
+  'planner.title': 'Beste Spielzeiten',
+  'planner.range': 'Heute & Morgen',
+  'planner.none': 'Kein spielbares Zeitfenster bei Tageslicht',
+  'planner.held-back': 'Knapp verpasst',
+  'day.today': 'Heute',
+  'day.tomorrow': 'Morgen',
+
+  'timeline.title': 'Nächste 48 Stunden',
+  'timeline.now': 'Jetzt',
+  'timeline.back': '{time} · Zurück zu jetzt',
+  'timeline.hour': 'Vorhersagestunde',
+
+  'history.heading': 'Gegenüber Mittel {start}–{end}',
+  'history.days': '{count} T.',
+  'history.today-high': 'Höchstwert heute',
+  'history.rain-total': 'Regen · {count} Tage',
+  'history.delta': '{delta} zum Mittel',
+  'history.near': 'Im Mittel',
+  'history.normal': 'Mittel {value}',
+  'history.rain-percent': '{percent}% des Mittels',
+
+  'air.title': 'Luft & Sonne',
+  'air.aqi-summary': 'AQI {aqi} · {band}',
+  'air.aqi-unavailable': 'AQI nicht verfügbar',
+  'air.pm2_5': 'PM2,5',
+  'air.pm10': 'PM10',
+  'air.ozone': 'Ozon',
+  'air.uv': 'UV',
+  'air.no-data': 'Keine Daten',
+  'air.pollen': 'Pollen',
+  'air.pollen-none': 'Keine Pollen in der Luft',
+  'air.pollen-unavailable': 'Keine Pollenvorhersage für diese Region',
+  'pollen.alder': 'Erle',
+  'pollen.birch': 'Birke',
+  'pollen.grass': 'Gräser',
+  'pollen.mugwort': 'Beifuß',
+  'pollen.olive': 'Olive',
+  'pollen.ragweed': 'Ambrosia',
+  'band.good': 'Gut',
+  'band.moderate': 'Mäßig',
+  'band.sensitive': 'Empfindliche Gruppen',
+  'band.unhealthy': 'Ungesund',
+  'band.very-unhealthy': 'Sehr ungesund',
+  'band.hazardous': 'Gefährlich',
+  'band.uv-low': 'Niedrig',
+  'band.uv-moderate': 'Mäßig',
+  'band.uv-high': 'Hoch',
+  'band.uv-very-high': 'Sehr hoch',
+  'band.uv-extreme': 'Extrem',
+  'band.pollen-low': 'Gering',
+  'band.pollen-moderate': 'Mäßig',
+  'band.pollen-high': 'Hoch',
+  'band.pollen-very-high': 'Sehr hoch',
+
+  'sun.title': 'Sonne & Mond',
+  'sun.day-length': '{hours} Std. {minutes} Min. Tageslicht',
+  'sun.polar-day': 'Mitternachtssonne',
+  'sun.polar-night': 'Polarnacht',
+  'sun.twilight': 'Erstes Licht {dawn} · Letztes Licht {dusk}',
+  'sun.golden-hour': 'Goldene Stunde {morning} · {evening}',
+  'moon.new': 'Neumond',
+  'moon.waxing-crescent': 'Zunehmende Sichel',
+  'moon.first-quarter': 'Erstes Viertel',
+  'moon.waxing-gibbous': 'Zunehmender Mond',
+  'moon.full': 'Vollmond',
+  'moon.waning-gibbous': 'Abnehmender Mond',
+  'moon.last-quarter': 'Letztes Viertel',
+  'moon.waning-crescent': 'Abnehmende Sichel',
+  'moon.illumination': '{percent}% beleuchtet',
+  'moon.rise-set': 'Mondaufgang {rise} · Monduntergang {set}',
+
+  'share.title': 'Wetter in {place}',
+  'widget.open': 'Atmosphere',
+  'widget.high-low': 'H {high} T {low}',
+  'widget.updated': 'Aktualisiert {time}',
+  'widget.offline-since': 'Offline · {time}',
+  'widget.loading': 'Lädt',
+  'widget.offline-no-data': 'Offline · keine Daten',
+  'briefing.dry': 'Trocken',
+  'briefing.dry-until': 'Trocken bis {time}',
+  'briefing.rain': 'Immer wieder Regen',
+  'briefing.rain-until': 'Regen bis {time}',
+  'briefing.breezy': 'windig',
+  'briefing.breezy-after': 'windig ab {time}',
+  'briefing.high': 'bis {high}',
+  'briefing.court': 'bestes Platzfenster {start}–{end}',
+  'briefing.no-court': 'kein gutes Platzfenster',
+  'briefing.separator': ', ',
+  'briefing.end': '.',
+  'briefing.tomorrow': 'Morgen: {summary}',
+  'briefing.written-by': 'Verfasst von {model}',
+  'places.never-synced': 'Nie synchronisiert',
+  'places.just-now': 'Gerade eben',
+  'places.minutes-ago': 'vor {count} Min.',
+  'places.hours-ago': 'vor {count} Std.',
+  'places.days-ago': 'vor {count} T.',
+  'places.edit': 'Bearbeiten',
+  'places.near': 'Bei {place}',
+  'places.done': 'Fertig',
+  'places.move-earlier': '{place} nach vorne',
+  'places.move-later': '{place} nach hinten',
+  'places.remove': '{place} entfernen',
+
+  'search.placeholder': 'Stadt suchen...',
+  'search.recent': 'Zuletzt',
+
+  'settings.weather-source': 'Wetterquelle',
+  'settings.place-names': 'Ortsnamen',
+  'settings.briefing': 'Tagesüberblick',
+  'settings.briefing.off': 'Aus',
+  'settings.briefing.template': 'Eingebaut',
+  'settings.temperature': 'Temperatur',
+  'settings.wind': 'Wind',
+  'settings.precipitation': 'Niederschlag',
+  'settings.time': 'Uhrzeit',
+  'settings.time.24h': '24 Std.',
+  'settings.time.12h': '12 Std.',
+  'settings.language': 'Sprache',
+
+  'alerts.heading': 'Warnungen · {place}',
+  'alerts.notifying': 'Benachrichtigt',
+  'alerts.blocked': 'Blockiert',
+  'alerts.notify-me': 'Benachrichtigen',
+  'alerts.gust-threshold': 'Böen {unit}',
+  'alerts.rain-threshold': 'Regen {unit}/h',
+  'alerts.heat-threshold': 'Hitze {unit}',
+  'alerts.frost-threshold': 'Frost {unit}',
+  'alerts.thunderstorm-toggle': 'Gewitter',
+  'alert.gust.title': 'Sturmböen',
+  'alert.gust.message': 'Böen bis {peak}',
+  'alert.precipitation.title': 'Starkregen',
+  'alert.precipitation.message': 'Bis zu {peak} pro Stunde',
+  'alert.heat.title': 'Hitze',
+  'alert.heat.message': 'Höchstwerte {peak}',
+  'alert.frost.title': 'Frost',
+  'alert.frost.message': 'Tiefstwerte {peak}',
+  'alert.thunderstorm.title': 'Gewitter',
+  'alert.thunderstorm.message': 'Blitz und Donner wahrscheinlich',
+
+  'kiosk.high-low': 'H {high}  T {low}',
+  'kiosk.wind': 'Wind {speed}',
+  'kiosk.humidity': 'Feuchte {humidity}%',
+  'kiosk.sun': 'Sonne {sunrise}–{sunset}',
+  'kiosk.updated': 'Aktualisiert {time}',
+  'kiosk.offline-since': 'Offline · Daten von {time}',
+  'kiosk.no-data': 'Keine Daten',
+  'kiosk.loading': 'Lädt',
+  'kiosk.offline-no-data': 'Offline · keine Daten',
+  'kiosk.image-alt': 'Wetter für {place}'
+};
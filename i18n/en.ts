@@ -0,0 +1,282 @@
+// The source catalog: its keys define `MessageKey`, and the other languages must translate every one.
+// Placeholders in braces are filled by `t`; values are already formatted in the user's units.
+export const en = {
+  'app.syncing': 'Establishing Sync...',
+  'app.activities': 'Activities',
+  'app.source': 'Source: {source}',
+  'app.no-data': 'No forecast yet',
+  'app.retry': 'Try again',
+  'app.updated': 'Weather for {place}: {temp}, {condition}',
+
+  'action.save-place': 'Save place',
+  'action.search': 'Search places',
+  'action.locate': 'Use my location',
+  'action.share': 'Share',
+  'action.eink': 'E-ink mode',
+  'action.settings': 'Settings',
+  'action.dismiss': 'Dismiss',
+
+  'stat.wind': 'Wind',
+  'stat.humidity': 'Humidity',
+  'stat.sunrise': 'Sunrise',
+  'stat.sunset': 'Sunset',
+
+  'error.sync-failed': 'Sync Failed',
+  'error.offline': 'Offline',
+  'error.location-denied': 'Location Denied',
+  'error.no-geolocation': 'No Geolocation',
+  'error.search-failed': 'Search failed',
+  'error.location-not-found': 'Location not found',
+  'error.network': 'Network error',
+  'error.service': 'Weather service unavailable',
+  'error.schema': 'Unreadable forecast',
+  'error.location-unavailable': 'Location unavailable',
+  'error.share-failed': 'Share failed',
+
+  'notice.offline-since': 'Offline — showing data from {time} ({age})',
+  'notice.failed-since': 'Sync failed — showing data from {time} ({age})',
+
+  'condition.clear.day': 'clear',
+  'condition.clear.night': 'clear night',
+  'condition.partly-cloudy.day': 'partly cloudy',
+  'condition.partly-cloudy.night': 'partly cloudy',
+  'condition.cloudy.day': 'cloudy',
+  'condition.cloudy.night': 'cloudy night',
+  'condition.hazy.day': 'hazy',
+  'condition.hazy.night': 'hazy',
+  'condition.fog.day': 'fog',
+  'condition.fog.night': 'fog',
+  'condition.drizzle.day': 'drizzle',
+  'condition.drizzle.night': 'drizzle',
+  'condition.rainy.day': 'rainy',
+  'condition.rainy.night': 'rainy',
+  'condition.snow.day': 'snow',
+  'condition.snow.night': 'snow',
+  'condition.thunderstorm.day': 'thunderstorm',
+  'condition.thunderstorm.night': 'thunderstorm',
+
+  'profile.tennis.name': 'Tennis',
+  'profile.tennis.title': 'Tennis Playability',
+  'profile.padel.name': 'Padel',
+  'profile.padel.title': 'Padel Playability',
+  'profile.running.name': 'Running',
+  'profile.running.title': 'Running Conditions',
+  'profile.cycling.name': 'Cycling',
+  'profile.cycling.title': 'Riding Conditions',
+  'profile.laundry.name': 'Laundry',
+  'profile.laundry.title': 'Laundry Drying',
+
+  'activity.conditions': '{name} Conditions',
+  'activity.sync': 'Sync {score}%',
+  'activity.cards': 'Activity Cards',
+  'activity.custom': 'Custom',
+  'activity.name': 'Name',
+  'activity.based-on': 'Based On',
+  'activity.ideal-min': 'Ideal Min {unit}',
+  'activity.ideal-max': 'Ideal Max {unit}',
+  'activity.max-wind': 'Max Wind {unit}',
+  'activity.max-humidity': 'Max Humidity %',
+  'activity.rain-ok': 'Rain OK {unit}/h',
+  'activity.wind-weight': 'Wind Weight',
+  'activity.cancel': 'Cancel',
+  'activity.delete': 'Delete {name}',
+  'activity.save': 'Save',
+
+  'status.best': 'Ideal',
+  'status.good': 'Good',
+  'status.rain': 'Wet',
+  'status.drying': 'Drying',
+  'status.wind': 'Too windy',
+  'status.breeze': 'Breezy',
+  'status.still': 'Still air',
+  'status.extreme-temp': 'Extreme temp',
+  'status.muggy': 'Too humid',
+  'status.humid': 'Humid',
+  'status.dark': 'No daylight',
+  'status.elite-play': 'Elite play',
+  'status.good-play': 'Good play',
+  'status.courts-wet': 'Courts wet',
+  'status.courts-drying': 'Courts drying',
+  'status.glass-drying': 'Glass drying',
+  'status.perfect-pace': 'Perfect pace',
+  'status.good-run': 'Good run',
+  'status.clear-roads': 'Clear roads',
+  'status.good-ride': 'Good ride',
+  'status.roads-wet': 'Roads wet',
+  'status.roads-drying': 'Roads drying',
+  'status.headwinds': 'Headwinds',
+  'status.line-dry': 'Line dry',
+  'status.will-dry': 'Will dry',
+  'status.keep-inside': 'Keep inside',
+  'status.wont-dry': "Won't dry",
+  'status.gales': 'Gales',
+
+  'rating.perfect': 'Perfect',
+  'rating.solid': 'Solid',
+  'rating.okay': 'Okay',
+  'rating.fair': 'Fair',
+  'rating.poor': 'Poor',
+
+  'penalty.rain': 'Rain {amount}',
+  'penalty.drying': 'Drying, rain {hours}h ago',
+  'penalty.wind': 'Wind {speed}',
+  'penalty.breeze': 'Breezy {speed}',
+  'penalty.still': 'Still air {speed}',
+  'penalty.cold': 'Cold {temp}',
+  'penalty.hot': 'Hot {temp}',
+  'penalty.cool': 'Cool {temp}',
+  'penalty.warm': 'Warm {temp}',
+  'penalty.muggy': 'Humidity {humidity}%',
+  'penalty.humid': 'Humid {humidity}%',
+  'penalty.dark': 'After dark',
+
+  'planner.title': 'Best Court Windows',
+  'planner.range': 'Today & Tomorrow',
+  'planner.none': 'No playable daylight window',
+  'planner.held-back': 'Held Back',
+  'day.today': 'Today',
+  'day.tomorrow': 'Tomorrow',
+
+  'timeline.title': 'Next 48 Hours',
+  'timeline.now': 'Now',
+  'timeline.back': '{time} · Back to now',
+  'timeline.hour': 'Forecast hour',
+
+  'history.heading': 'Versus {start}–{end} Normal',
+  'history.days': '{count}D',
+  'history.today-high': "Today's High",
+  'history.rain-total': 'Rain · {count} Days',
+  'history.delta': '{delta} vs normal',
+  'history.near': 'Near normal',
+  'history.normal': 'Normal {value}',
+  'history.rain-percent': '{percent}% of normal',
+
+  'air.title': 'Air & Sun',
+  'air.aqi-summary': 'AQI {aqi} · {band}',
+  'air.aqi-unavailable': 'AQI unavailable',
+  'air.pm2_5': 'PM2.5',
+  'air.pm10': 'PM10',
+  'air.ozone': 'Ozone',
+  'air.uv': 'UV',
+  'air.no-data': 'No data',
+  'air.pollen': 'Pollen',
+  'air.pollen-none': 'No pollen in the air',
+  'air.pollen-unavailable': 'No pollen forecast for this area',
+  'pollen.alder': 'Alder',
+  'pollen.birch': 'Birch',
+  'pollen.grass': 'Grass',
+  'pollen.mugwort': 'Mugwort',
+  'pollen.olive': 'Olive',
+  'pollen.ragweed': 'Ragweed',
+  'band.good': 'Good',
+  'band.moderate': 'Moderate',
+  'band.sensitive': 'Sensitive groups',
+  'band.unhealthy': 'Unhealthy',
+  'band.very-unhealthy': 'Very unhealthy',
+  'band.hazardous': 'Hazardous',
+  'band.uv-low': 'Low',
+  'band.uv-moderate': 'Moderate',
+  'band.uv-high': 'High',
+  'band.uv-very-high': 'Very high',
+  'band.uv-extreme': 'Extreme',
+  'band.pollen-low': 'Low',
+  'band.pollen-moderate': 'Moderate',
+  'band.pollen-high': 'High',
+  'band.pollen-very-high': 'Very high',
+
+  'sun.title': 'Sun & Moon',
+  'sun.day-length': '{hours}h {minutes}m of daylight',
+  'sun.polar-day': 'Midnight sun',
+  'sun.polar-night': 'Polar night',
+  'sun.twilight': 'First light {dawn} · Last light {dusk}',
+  'sun.golden-hour': 'Golden hour {morning} · {evening}',
+  'moon.new': 'New moon',
+  'moon.waxing-crescent': 'Waxing crescent',
+  'moon.first-quarter': 'First quarter',
+  'moon.waxing-gibbous': 'Waxing gibbous',
+  'moon.full': 'Full moon',
+  'moon.waning-gibbous': 'Waning gibbous',
+  'moon.last-quarter': 'Last quarter',
+  'moon.waning-crescent': 'Waning crescent',
+  'moon.illumination': '{percent}% lit',
+  'moon.rise-set': 'Moonrise {rise} · Moonset {set}',
+
+  'share.title': 'Weather in {place}',
+  'widget.open': 'Atmosphere',
+  'widget.high-low': 'H {high} L {low}',
+  'widget.updated': 'Updated {time}',
+  'widget.offline-since': 'Offline · {time}',
+  'widget.loading': 'Loading',
+  'widget.offline-no-data': 'Offline · no data',
+  'briefing.dry': 'Dry',
+  'briefing.dry-until': 'Dry until {time}',
+  'briefing.rain': 'Rain on and off',
+  'briefing.rain-until': 'Rain until {time}',
+  'briefing.breezy': 'breezy',
+  'briefing.breezy-after': 'breezy after {time}',
+  'briefing.high': 'high of {high}',
+  'briefing.court': 'best court window {start}–{end}',
+  'briefing.no-court': 'no good court window',
+  'briefing.separator': ', ',
+  'briefing.end': '.',
+  'briefing.tomorrow': 'Tomorrow: {summary}',
+  'briefing.written-by': 'Written by {model}',
+  'places.never-synced': 'Never synced',
+  'places.just-now': 'Just now',
+  'places.minutes-ago': '{count}m ago',
+  'places.hours-ago': '{count}h ago',
+  'places.days-ago': '{count}d ago',
+  'places.edit': 'Edit',
+  'places.near': 'Near {place}',
+  'places.done': 'Done',
+  'places.move-earlier': 'Move {place} earlier',
+  'places.move-later': 'Move {place} later',
+  'places.remove': 'Remove {place}',
+
+  'search.placeholder': 'Search City...',
+  'search.recent': 'Recent',
+
+  'settings.weather-source': 'Weather Source',
+  'settings.place-names': 'Place Names',
+  'settings.briefing': 'Briefing',
+  'settings.briefing.off': 'Off',
+  'settings.briefing.template': 'Built-in',
+  'settings.temperature': 'Temperature',
+  'settings.wind': 'Wind',
+  'settings.precipitation': 'Precipitation',
+  'settings.time': 'Time',
+  'settings.time.24h': '24-hour',
+  'settings.time.12h': '12-hour',
+  'settings.language': 'Language',
+
+  'alerts.heading': 'Alerts · {place}',
+  'alerts.notifying': 'Notifying',
+  'alerts.blocked': 'Blocked',
+  'alerts.notify-me': 'Notify Me',
+  'alerts.gust-threshold': 'Gusts {unit}',
+  'alerts.rain-threshold': 'Rain {unit}/h',
+  'alerts.heat-threshold': 'Heat {unit}',
+  'alerts.frost-threshold': 'Frost {unit}',
+  'alerts.thunderstorm-toggle': 'Thunderstorms',
+  'alert.gust.title': 'Strong Gusts',
+  'alert.gust.message': 'Gusts up to {peak}',
+  'alert.precipitation.title': 'Heavy Rain',
+  'alert.precipitation.message': 'Up to {peak} in an hour',
+  'alert.heat.title': 'Heat',
+  'alert.heat.message': 'Highs of {peak}',
+  'alert.frost.title': 'Frost',
+  'alert.frost.message': 'Lows of {peak}',
+  'alert.thunderstorm.title': 'Thunderstorms',
+  'alert.thunderstorm.message': 'Thunder and lightning likely',
+
+  'kiosk.high-low': 'H {high}  L {low}',
+  'kiosk.wind': 'Wind {speed}',
+  'kiosk.humidity': 'Humidity {humidity}%',
+  'kiosk.sun': 'Sun {sunrise}–{sunset}',
+  'kiosk.updated': 'Updated {time}',
+  'kiosk.offline-since': 'Offline · data from {time}',
+  'kiosk.no-data': 'No data',
+  'kiosk.loading': 'Loading',
+  'kiosk.offline-no-data': 'Offline · no data',
+  'kiosk.image-alt': 'Weather for {place}'
+};
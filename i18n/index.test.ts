@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { createLocale, detectLanguage } from './index';
+import { en } from './en';
+import { de } from './de';
+import { zh } from './zh';
+import { METRIC_UNITS, US_UNITS } from '../utils/units';
+
+const placeholders = (template: string) => [...template.matchAll(/\{(\w+)\}/g)].map(m => m[1]).sort();
+
+describe('catalogs', () => {
+  it.each([['de', de], ['zh', zh]])('%s translates every English key with the same placeholders', (_, catalog) => {
+    expect(Object.keys(catalog).sort()).toEqual(Object.keys(en).sort());
+    for (const [key, template] of Object.entries(en)) {
+      expect(placeholders((catalog as Record<string, string>)[key]), key).toEqual(placeholders(template));
+    }
+  });
+});
+
+describe('createLocale', () => {
+  it('fills placeholders and passes unknown keys through', () => {
+    const { t } = createLocale('en', METRIC_UNITS);
+    expect(t('places.near', { place: 'London' })).toBe('Near London');
+    expect(t('Morning hit')).toBe('Morning hit');
+  });
+
+  it('writes penalties and alerts in the chosen units', () => {
+    const metric = createLocale('en', METRIC_UNITS);
+    const us = createLocale('en', US_UNITS);
+    const wind = { kind: 'wind', value: 32.18688, points: 60 } as const;
+    expect(metric.penalty(wind)).toBe('Wind 32 km/h');
+    expect(us.penalty(wind)).toBe('Wind 20 mph');
+    expect(us.penalty({ kind: 'temp', value: 30, points: 8, below: false })).toBe('Warm 86°');
+    expect(us.penalty({ kind: 'rain', value: 2.54, points: 80 })).toBe('Rain 0.10 in');
+  });
+
+  it('follows the time format and the language for dates', () => {
+    expect(createLocale('en', METRIC_UNITS).time('18:45')).toBe('18:45');
+    expect(createLocale('en', US_UNITS).time('18:45')).toMatch(/^6:45\sPM$/);
+    expect(createLocale('de', METRIC_UNITS).longDate('2026-10-19')).toBe('Montag, 19. Oktober');
+    expect(createLocale('zh', METRIC_UNITS).weekday('2026-10-19')).toBe('周一');
+  });
+
+  it('translates conditions with a day and a night wording', () => {
+    const { condition } = createLocale('de', METRIC_UNITS);
+    expect(condition('clear', true)).not.toBe(condition('clear', false));
+    expect(condition('clear', true)).toBe(de['condition.clear.day']);
+  });
+});
+
+describe('detectLanguage', () => {
+  it('matches on the base language and falls back to English', () => {
+    expect(detectLanguage('zh-TW')).toBe('zh');
+    expect(detectLanguage('de-AT')).toBe('de');
+    expect(detectLanguage('fr-FR')).toBe('en');
+  });
+});
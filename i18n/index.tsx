@@ -0,0 +1,132 @@
+import { createContext, useContext } from 'react';
+import { Language, UnitPreferences, WeatherCondition, ActivityProfile, ActivityPenalty, WeatherAlert } from '../types';
+import { formatTemperature, formatTemperatureDelta, formatWind, formatPrecipitation, formatTime, METRIC_UNITS } from '../utils/units';
+import { en } from './en';
+import { zh } from './zh';
+import { de } from './de';
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGS: Record<Language, Messages> = { en, zh, de };
+
+export const LANGUAGE_NAMES: Record<Language, string> = { en: 'English', zh: '中文', de: 'Deutsch' };
+
+const LOCALE_TAGS: Record<Language, string> = { en: 'en-US', zh: 'zh-CN', de: 'de-DE' };
+
+export const detectLanguage = (localeTag: string): Language => {
+  const base = localeTag.toLowerCase().split('-')[0];
+  return base === 'zh' || base === 'de' ? base : 'en';
+};
+
+export interface Locale {
+  language: Language;
+  units: UnitPreferences;
+  // Unknown keys come back as-is, so free text (a custom profile's name, a status saved by an older build) still shows.
+  t: (key: string, params?: MessageParams) => string;
+  temperature: (celsius: number) => string;
+  temperatureDelta: (celsius: number) => string;
+  wind: (kmh: number) => string;
+  precipitation: (mm: number) => string;
+  time: (hhmm: string) => string;
+  age: (timestamp: number, now?: number) => string; // how long ago, e.g. "5m ago"
+  weekday: (date: string) => string;
+  longDate: (date: string) => string;
+  condition: (condition: WeatherCondition, isDay: boolean) => string;
+  profileName: (profile: ActivityProfile) => string;
+  profileTitle: (profile: ActivityProfile) => string;
+  penalty: (penalty: ActivityPenalty) => string;
+  alertTitle: (alert: WeatherAlert) => string;
+  alertMessage: (alert: WeatherAlert) => string;
+}
+
+// Local ISO dates carry no timezone, so they are formatted as UTC calendar dates rather than on the device clock.
+const calendarDate = (date: string) => {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+};
+
+export const createLocale = (language: Language, units: UnitPreferences): Locale => {
+  const messages = CATALOGS[language];
+  const tag = LOCALE_TAGS[language];
+
+  const has = (key: string) => key in en;
+  const t = (key: string, params: MessageParams = {}) => {
+    const template = (messages as Record<string, string>)[key] ?? (en as Record<string, string>)[key] ?? key;
+    return template.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match);
+  };
+
+  const temperature = (celsius: number) => formatTemperature(celsius, units.temperature);
+  const wind = (kmh: number) => formatWind(kmh, units.wind);
+  const precipitation = (mm: number) => formatPrecipitation(mm, units.precipitation);
+  const time = (hhmm: string) => formatTime(hhmm, units.timeFormat, tag);
+  const age = (timestamp: number, now = Date.now()) => {
+    const minutes = Math.round((now - timestamp) / 60000);
+    if (minutes < 1) return t('places.just-now');
+    if (minutes < 60) return t('places.minutes-ago', { count: minutes });
+    const hours = Math.round(minutes / 60);
+    return hours < 48 ? t('places.hours-ago', { count: hours }) : t('places.days-ago', { count: Math.round(hours / 24) });
+  };
+  const weekday = (date: string) => new Intl.DateTimeFormat(tag, { weekday: 'short', timeZone: 'UTC' }).format(calendarDate(date));
+
+  const penalty = (p: ActivityPenalty) => {
+    switch (p.kind) {
+      case 'rain': return t('penalty.rain', { amount: precipitation(p.value) });
+      case 'drying': return t('penalty.drying', { hours: p.value });
+      case 'wind':
+      case 'breeze':
+      case 'still': return t(`penalty.${p.kind}`, { speed: wind(p.value) });
+      case 'extreme-temp': return t(p.below ? 'penalty.cold' : 'penalty.hot', { temp: temperature(p.value) });
+      case 'temp': return t(p.below ? 'penalty.cool' : 'penalty.warm', { temp: temperature(p.value) });
+      case 'muggy':
+      case 'humid': return t(`penalty.${p.kind}`, { humidity: Math.round(p.value) });
+      case 'dark': return t('penalty.dark');
+    }
+  };
+
+  const alertPeak = (alert: WeatherAlert) => {
+    switch (alert.kind) {
+      case 'gust': return wind(alert.peak);
+      case 'precipitation': return precipitation(alert.peak);
+      case 'heat':
+      case 'frost': return temperature(alert.peak);
+      default: return '';
+    }
+  };
+
+  const alertSpan = (alert: WeatherAlert) => {
+    const from = time(alert.start.split('T')[1]);
+    const to = time(alert.end.split('T')[1]);
+    return `${weekday(alert.start.split('T')[0])} ${from === to ? from : `${from}–${to}`}`;
+  };
+
+  return {
+    language,
+    units,
+    t,
+    temperature,
+    temperatureDelta: (celsius) => formatTemperatureDelta(celsius, units.temperature),
+    wind,
+    precipitation,
+    time,
+    age,
+    weekday,
+    longDate: (date) => new Intl.DateTimeFormat(tag, { weekday: 'long', month: 'long', day: 'numeric', timeZone: 'UTC' }).format(calendarDate(date)),
+    condition: (condition, isDay) => t(`condition.${condition}.${isDay ? 'day' : 'night'}`),
+    // Built-in profiles are translated by id; custom ones keep the name the user typed.
+    profileName: (profile) => !profile.custom && has(`profile.${profile.id}.name`) ? t(`profile.${profile.id}.name`) : profile.name,
+    profileTitle: (profile) => !profile.custom && has(`profile.${profile.id}.title`)
+      ? t(`profile.${profile.id}.title`)
+      : profile.title || t('activity.conditions', { name: profile.name }),
+    penalty,
+    alertTitle: (alert) => t(`alert.${alert.kind}.title`),
+    alertMessage: (alert) => `${t(`alert.${alert.kind}.message`, { peak: alertPeak(alert) })} · ${alertSpan(alert)}`
+  };
+};
+
+const LocaleContext = createContext<Locale>(createLocale('en', METRIC_UNITS));
+
+export const LocaleProvider = LocaleContext.Provider;
+
+export const useLocale = () => useContext(LocaleContext);
@@ -0,0 +1,282 @@
+import type { Messages } from './index';
+
+export const zh: Messages = {
+  'app.syncing': '正在同步…',
+  'app.activities': '活动',
+  'app.source': '数据来源：{source}',
+  'app.no-data': '暂无预报',
+  'app.retry': '重试',
+  'app.updated': '{place}天气：{temp}，{condition}',
+
+  'action.save-place': '保存地点',
+  'action.search': '搜索地点',
+  'action.locate': '使用我的位置',
+  'action.share': '分享',
+  'action.eink': '墨水屏模式',
+  'action.settings': '设置',
+  'action.dismiss': '关闭',
+
+  'stat.wind': '风速',
+  'stat.humidity': '湿度',
+  'stat.sunrise': '日出',
+  'stat.sunset': '日落',
+
+  'error.sync-failed': '同步失败',
+  'error.offline': '离线',
+  'error.location-denied': '定位被拒绝',
+  'error.no-geolocation': '无法定位',
+  'error.search-failed': '搜索失败',
+  'error.location-not-found': '未找到地点',
+  'error.network': '网络错误',
+  'error.service': '天气服务不可用',
+  'error.schema': '预报数据无法读取',
+  'error.location-unavailable': '无法获取位置',
+  'error.share-failed': '分享失败',
+
+  'notice.offline-since': '离线 — 正在显示 {time}（{age}）的数据',
+  'notice.failed-since': '同步失败 — 正在显示 {time}（{age}）的数据',
+
+  'condition.clear.day': '晴',
+  'condition.clear.night': '晴夜',
+  'condition.partly-cloudy.day': '多云间晴',
+  'condition.partly-cloudy.night': '多云间晴',
+  'condition.cloudy.day': '阴',
+  'condition.cloudy.night': '阴夜',
+  'condition.hazy.day': '霾',
+  'condition.hazy.night': '霾',
+  'condition.fog.day': '雾',
+  'condition.fog.night': '雾',
+  'condition.drizzle.day': '毛毛雨',
+  'condition.drizzle.night': '毛毛雨',
+  'condition.rainy.day': '雨',
+  'condition.rainy.night': '雨',
+  'condition.snow.day': '雪',
+  'condition.snow.night': '雪',
+  'condition.thunderstorm.day': '雷雨',
+  'condition.thunderstorm.night': '雷雨',
+
+  'profile.tennis.name': '网球',
+  'profile.tennis.title': '网球适宜度',
+  'profile.padel.name': '板式网球',
+  'profile.padel.title': '板式网球适宜度',
+  'profile.running.name': '跑步',
+  'profile.running.title': '跑步条件',
+  'profile.cycling.name': '骑行',
+  'profile.cycling.title': '骑行条件',
+  'profile.laundry.name': '晾衣',
+  'profile.laundry.title': '晾衣条件',
+
+  'activity.conditions': '{name}条件',
+  'activity.sync': '契合度 {score}%',
+  'activity.cards': '活动卡片',
+  'activity.custom': '自定义',
+  'activity.name': '名称',
+  'activity.based-on': '基于',
+  'activity.ideal-min': '理想最低 {unit}',
+  'activity.ideal-max': '理想最高 {unit}',
+  'activity.max-wind': '最大风速 {unit}',
+  'activity.max-humidity': '最大湿度 %',
+  'activity.rain-ok': '可接受降水 {unit}/小时',
+  'activity.wind-weight': '风力权重',
+  'activity.cancel': '取消',
+  'activity.delete': '删除{name}',
+  'activity.save': '保存',
+
+  'status.best': '理想',
+  'status.good': '良好',
+  'status.rain': '潮湿',
+  'status.drying': '正在变干',
+  'status.wind': '风太大',
+  'status.breeze': '有风',
+  'status.still': '无风',
+  'status.extreme-temp': '极端温度',
+  'status.muggy': '太潮湿',
+  'status.humid': '潮湿',
+  'status.dark': '无日光',
+  'status.elite-play': '绝佳球况',
+  'status.good-play': '适合打球',
+  'status.courts-wet': '场地湿滑',
+  'status.courts-drying': '场地变干中',
+  'status.glass-drying': '玻璃墙变干中',
+  'status.perfect-pace': '完美配速',
+  'status.good-run': '适合跑步',
+  'status.clear-roads': '道路通畅',
+  'status.good-ride': '适合骑行',
+  'status.roads-wet': '路面湿滑',
+  'status.roads-drying': '路面变干中',
+  'status.headwinds': '逆风',
+  'status.line-dry': '可以晾晒',
+  'status.will-dry': '能晾干',
+  'status.keep-inside': '收进室内',
+  'status.wont-dry': '晾不干',
+  'status.gales': '大风',
+
+  'rating.perfect': '完美',
+  'rating.solid': '很好',
+  'rating.okay': '尚可',
+  'rating.fair': '一般',
+  'rating.poor': '较差',
+
+  'penalty.rain': '降水 {amount}',
+  'penalty.drying': '变干中，{hours} 小时前下过雨',
+  'penalty.wind': '风速 {speed}',
+  'penalty.breeze': '有风 {speed}',
+  'penalty.still': '无风 {speed}',
+  'penalty.cold': '寒冷 {temp}',
+  'penalty.hot': '炎热 {temp}',
+  'penalty.cool': '偏凉 {temp}',
+  'penalty.warm': '偏暖 {temp}',
+  'penalty.muggy': '湿度 {humidity}%',
+  'penalty.humid': '潮湿 {humidity}%',
+  'penalty.dark': '天黑后',
+
+  'planner.title': '最佳打球时段',
+  'planner.range': '今天和明天',
+  'planner.none': '没有适合打球的白天时段',
+  'planner.held-back': '不够理想',
+  'day.today': '今天',
+  'day.tomorrow': '明天',
+
+  'timeline.title': '未来 48 小时',
+  'timeline.now': '现在',
+  'timeline.back': '{time} · 回到现在',
+  'timeline.hour': '预报时间',
+
+  'history.heading': '对比 {start}–{end} 常年值',
+  'history.days': '{count}天',
+  'history.today-high': '今日最高',
+  'history.rain-total': '降水 · {count} 天',
+  'history.delta': '较常年 {delta}',
+  'history.near': '接近常年',
+  'history.normal': '常年 {value}',
+  'history.rain-percent': '常年的 {percent}%',
+
+  'air.title': '空气与日照',
+  'air.aqi-summary': 'AQI {aqi} · {band}',
+  'air.aqi-unavailable': 'AQI 暂无数据',
+  'air.pm2_5': 'PM2.5',
+  'air.pm10': 'PM10',
+  'air.ozone': '臭氧',
+  'air.uv': '紫外线',
+  'air.no-data': '无数据',
+  'air.pollen': '花粉',
+  'air.pollen-none': '空气中没有花粉',
+  'air.pollen-unavailable': '该地区没有花粉预报',
+  'pollen.alder': '桤木',
+  'pollen.birch': '桦树',
+  'pollen.grass': '禾草',
+  'pollen.mugwort': '艾草',
+  'pollen.olive': '橄榄',
+  'pollen.ragweed': '豚草',
+  'band.good': '优',
+  'band.moderate': '良',
+  'band.sensitive': '敏感人群不健康',
+  'band.unhealthy': '不健康',
+  'band.very-unhealthy': '非常不健康',
+  'band.hazardous': '危险',
+  'band.uv-low': '低',
+  'band.uv-moderate': '中等',
+  'band.uv-high': '高',
+  'band.uv-very-high': '很高',
+  'band.uv-extreme': '极高',
+  'band.pollen-low': '低',
+  'band.pollen-moderate': '中等',
+  'band.pollen-high': '高',
+  'band.pollen-very-high': '很高',
+
+  'sun.title': '日月',
+  'sun.day-length': '日照 {hours} 小时 {minutes} 分',
+  'sun.polar-day': '极昼',
+  'sun.polar-night': '极夜',
+  'sun.twilight': '天亮 {dawn} · 天黑 {dusk}',
+  'sun.golden-hour': '黄金时刻 {morning} · {evening}',
+  'moon.new': '新月',
+  'moon.waxing-crescent': '蛾眉月',
+  'moon.first-quarter': '上弦月',
+  'moon.waxing-gibbous': '盈凸月',
+  'moon.full': '满月',
+  'moon.waning-gibbous': '亏凸月',
+  'moon.last-quarter': '下弦月',
+  'moon.waning-crescent': '残月',
+  'moon.illumination': '亮面 {percent}%',
+  'moon.rise-set': '月出 {rise} · 月落 {set}',
+
+  'share.title': '{place}天气',
+  'widget.open': 'Atmosphere',
+  'widget.high-low': '高 {high} 低 {low}',
+  'widget.updated': '更新于 {time}',
+  'widget.offline-since': '离线 · {time}',
+  'widget.loading': '加载中',
+  'widget.offline-no-data': '离线 · 无数据',
+  'briefing.dry': '无雨',
+  'briefing.dry-until': '{time} 前无雨',
+  'briefing.rain': '时有降雨',
+  'briefing.rain-until': '降雨持续至 {time}',
+  'briefing.breezy': '有风',
+  'briefing.breezy-after': '{time} 后起风',
+  'briefing.high': '最高 {high}',
+  'briefing.court': '最佳打球时段 {start}–{end}',
+  'briefing.no-court': '没有适合打球的时段',
+  'briefing.separator': '，',
+  'briefing.end': '。',
+  'briefing.tomorrow': '明天：{summary}',
+  'briefing.written-by': '由 {model} 撰写',
+  'places.never-synced': '从未同步',
+  'places.just-now': '刚刚',
+  'places.minutes-ago': '{count} 分钟前',
+  'places.hours-ago': '{count} 小时前',
+  'places.days-ago': '{count} 天前',
+  'places.edit': '编辑',
+  'places.near': '{place}附近',
+  'places.done': '完成',
+  'places.move-earlier': '将{place}前移',
+  'places.move-later': '将{place}后移',
+  'places.remove': '移除{place}',
+
+  'search.placeholder': '搜索城市…',
+  'search.recent': '最近',
+
+  'settings.weather-source': '天气来源',
+  'settings.place-names': '地名',
+  'settings.briefing': '每日简报',
+  'settings.briefing.off': '关闭',
+  'settings.briefing.template': '内置',
+  'settings.temperature': '温度',
+  'settings.wind': '风速',
+  'settings.precipitation': '降水',
+  'settings.time': '时间',
+  'settings.time.24h': '24 小时制',
+  'settings.time.12h': '12 小时制',
+  'settings.language': '语言',
+
+  'alerts.heading': '预警 · {place}',
+  'alerts.notifying': '通知已开启',
+  'alerts.blocked': '通知被阻止',
+  'alerts.notify-me': '通知我',
+  'alerts.gust-threshold': '阵风 {unit}',
+  'alerts.rain-threshold': '降水 {unit}/小时',
+  'alerts.heat-threshold': '高温 {unit}',
+  'alerts.frost-threshold': '霜冻 {unit}',
+  'alerts.thunderstorm-toggle': '雷暴',
+  'alert.gust.title': '强阵风',
+  'alert.gust.message': '阵风可达 {peak}',
+  'alert.precipitation.title': '强降水',
+  'alert.precipitation.message': '每小时降水可达 {peak}',
+  'alert.heat.title': '高温',
+  'alert.heat.message': '最高 {peak}',
+  'alert.frost.title': '霜冻',
+  'alert.frost.message': '最低 {peak}',
+  'alert.thunderstorm.title': '雷暴',
+  'alert.thunderstorm.message': '可能出现雷电',
+
+  'kiosk.high-low': '高 {high}  低 {low}',
+  'kiosk.wind': '风速 {speed}',
+  'kiosk.humidity': '湿度 {humidity}%',
+  'kiosk.sun': '日照 {sunrise}–{sunset}',
+  'kiosk.updated': '更新于 {time}',
+  'kiosk.offline-since': '离线 · {time} 的数据',
+  'kiosk.no-data': '无数据',
+  'kiosk.loading': '加载中',
+  'kiosk.offline-no-data': '离线 · 无数据',
+  'kiosk.image-alt': '{place}天气'
+};
@@ -1,12 +1,32 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
+import { MotionConfig } from 'framer-motion';
 import App from './App';
+import KioskDisplay from './components/KioskDisplay';
+import WidgetDisplay from './components/WidgetDisplay';
+import { DEFAULT_PLACE } from './constants';
+import { readKioskConfig } from './utils/kiosk';
+import { readWidgetConfig } from './utils/widget';
+import { registerServiceWorker } from './utils/serviceWorker';
+
+const kiosk = readKioskConfig(window.location.search);
+const widget = kiosk ? null : readWidgetConfig(window.location.search);
 
 const rootElement = document.getElementById('root');
 if (rootElement) {
+  if (kiosk) document.body.style.background = '#fff';
+  // Lets the embedding page show through around the widget's own frame.
+  if (widget) document.body.style.background = 'transparent';
   ReactDOM.createRoot(rootElement).render(
     <React.StrictMode>
-      <App />
+      {/* With reduced motion on, movement and scaling jump to their end state; fades still play. */}
+      <MotionConfig reducedMotion="user">
+        {kiosk ? <KioskDisplay config={kiosk} fallbackPlace={DEFAULT_PLACE} />
+          : widget ? <WidgetDisplay config={widget} fallbackPlace={DEFAULT_PLACE} />
+          : <App />}
+      </MotionConfig>
     </React.StrictMode>
   );
-}
\ No newline at end of file
+}
+
+registerServiceWorker();
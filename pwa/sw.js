@@ -0,0 +1,127 @@
+// Service worker for the installed app. The build prepends `VERSION` and `PRECACHE` (see pwa/vitePlugin.ts).
+/* global VERSION, PRECACHE */
+
+const SHELL_CACHE = `atmo-shell-${VERSION}`;
+const RUNTIME_CACHE = 'atmo-runtime-v1';
+const API_CACHE = 'atmo-api-v1';
+
+// Forecast, air quality and sun hosts. Their responses are the data the app can still show offline. Place search
+// and reverse geocoding are left to the network: every keystroke is a new URL, and none is worth keeping.
+const API_HOSTS = [
+  'api.open-meteo.com',
+  'air-quality-api.open-meteo.com',
+  'api.met.no'
+];
+
+// Served from cache while fresh enough, refreshed behind the scenes; older entries wait on the network first so an
+// online visit never shows an hours-old forecast. The app's own 30-minute cache sits on top of this.
+const API_MAX_STALE_MS = 10 * 60 * 1000;
+const FETCHED_AT_HEADER = 'x-atmo-fetched-at';
+const PERIODIC_SYNC_TAG = 'refresh-weather';
+// Enough for the forecast, air quality and history of a dozen saved places. A week-old forecast is no use to anyone.
+const API_MAX_ENTRIES = 60;
+const API_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(SHELL_CACHE).then(cache => cache.addAll(PRECACHE)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(k => k.startsWith('atmo-shell-') && k !== SHELL_CACHE).map(k => caches.delete(k))))
+      .then(pruneApiCache)
+      .then(() => self.clients.claim())
+  );
+});
+
+// Stamps the fetch time on the stored copy so the page can tell how old a cached answer is.
+const stamp = async (response) => {
+  const headers = new Headers(response.headers);
+  headers.set(FETCHED_AT_HEADER, String(Date.now()));
+  return new Response(await response.blob(), { status: response.status, statusText: response.statusText, headers });
+};
+
+const fetchedAt = (response) => Number(response.headers.get(FETCHED_AT_HEADER)) || 0;
+
+// Drops entries from hosts no longer cached and anything past its age, then the oldest beyond the entry cap.
+const pruneApiCache = async () => {
+  const cache = await caches.open(API_CACHE);
+  const entries = await Promise.all((await cache.keys()).map(async request => ({
+    request,
+    at: API_HOSTS.includes(new URL(request.url).hostname) ? fetchedAt(await cache.match(request)) : 0
+  })));
+  const now = Date.now();
+  const kept = entries.filter(e => now - e.at < API_MAX_AGE_MS).sort((a, b) => b.at - a.at).slice(0, API_MAX_ENTRIES);
+  await Promise.all(entries.filter(e => !kept.includes(e)).map(e => cache.delete(e.request)));
+};
+
+const refresh = async (request) => {
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(API_CACHE);
+    await cache.put(request, await stamp(response.clone()));
+  }
+  return response;
+};
+
+const staleWhileRevalidate = async (event) => {
+  const cached = await caches.match(event.request, { cacheName: API_CACHE });
+  const network = refresh(event.request);
+  event.waitUntil(network.then(pruneApiCache).catch(() => undefined));
+  if (cached && Date.now() - fetchedAt(cached) < API_MAX_STALE_MS) return cached;
+  try {
+    return await network;
+  } catch (err) {
+    if (cached) return cached;
+    throw err;
+  }
+};
+
+// Hashed build assets and CDN scripts/fonts never change under the same URL.
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(RUNTIME_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+// Navigations go to the network so a new deploy shows up straight away, falling back to the precached shell.
+const networkFirstShell = async (request) => {
+  try {
+    return await fetch(request);
+  } catch {
+    return (await caches.match('/index.html', { cacheName: SHELL_CACHE })) || Response.error();
+  }
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (API_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(event));
+  } else if (request.mode === 'navigate') {
+    event.respondWith(networkFirstShell(request));
+  } else if (url.origin === self.location.origin || request.destination === 'script' || request.destination === 'style' || request.destination === 'font') {
+    event.respondWith(cacheFirst(request));
+  }
+});
+
+// Where the browser grants periodic sync (installed Chromium apps), forecasts already in the cache are refreshed
+// while the app is closed, so the next open on flaky Wi-Fi still has recent data. Pruning first keeps that to the
+// capped set of recent entries.
+self.addEventListener('periodicsync', event => {
+  if (event.tag !== PERIODIC_SYNC_TAG) return;
+  event.waitUntil(
+    pruneApiCache()
+      .then(() => caches.open(API_CACHE))
+      .then(cache => cache.keys())
+      .then(requests => Promise.all(requests.map(r => refresh(r).catch(() => undefined))))
+  );
+});
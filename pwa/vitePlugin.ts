@@ -0,0 +1,58 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import type { Plugin } from 'vite';
+
+interface AppMetadata {
+  name: string;
+  description: string;
+  orientation?: string;
+}
+
+const MANIFEST_FILE = 'manifest.webmanifest';
+const SW_FILE = 'sw.js';
+const BACKGROUND = '#fcfcfc';
+
+// The manifest is derived from metadata.json so the app name and description live in one place.
+export const buildManifest = (metadata: AppMetadata) => ({
+  name: metadata.name,
+  short_name: metadata.name.split(' - ')[0],
+  description: metadata.description,
+  start_url: '/',
+  scope: '/',
+  display: 'standalone',
+  orientation: metadata.orientation || 'any',
+  background_color: BACKGROUND,
+  theme_color: BACKGROUND,
+  icons: [
+    { src: '/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' },
+    { src: '/icon-maskable.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'maskable' }
+  ]
+});
+
+const buildServiceWorker = (root: string, precache: string[]) => {
+  const source = fs.readFileSync(path.resolve(root, 'pwa/sw.js'), 'utf-8');
+  const version = createHash('sha256').update(precache.join('\n')).update(source).digest('hex').slice(0, 12);
+  return `const VERSION = ${JSON.stringify(version)};\nconst PRECACHE = ${JSON.stringify(precache)};\n\n${source}`;
+};
+
+// Serves the manifest in dev; in a build, also emits the service worker with the hashed shell assets to precache.
+export const pwaPlugin = (root: string): Plugin => {
+  const readMetadata = (): AppMetadata => JSON.parse(fs.readFileSync(path.resolve(root, 'metadata.json'), 'utf-8'));
+
+  return {
+    name: 'atmo-pwa',
+    configureServer(server) {
+      server.middlewares.use(`/${MANIFEST_FILE}`, (_req, res) => {
+        res.setHeader('Content-Type', 'application/manifest+json');
+        res.end(JSON.stringify(buildManifest(readMetadata()), null, 2));
+      });
+    },
+    generateBundle(_options, bundle) {
+      this.emitFile({ type: 'asset', fileName: MANIFEST_FILE, source: JSON.stringify(buildManifest(readMetadata()), null, 2) });
+      const assets = Object.keys(bundle).filter(file => !file.endsWith('.map')).map(file => `/${file}`);
+      const precache = Array.from(new Set(['/', '/index.html', `/${MANIFEST_FILE}`, '/icon.svg', ...assets]));
+      this.emitFile({ type: 'asset', fileName: SW_FILE, source: buildServiceWorker(root, precache) });
+    }
+  };
+};
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { parseAirQuality, withAirQuality } from './airQuality';
+import { DataError } from './http';
+import { weather } from '../test/weather';
+import airQualityGaps from '../fixtures/air-quality-gaps.json';
+
+const parseError = (value: unknown) => {
+  try {
+    parseAirQuality(value);
+  } catch (err) {
+    return err;
+  }
+  return null;
+};
+
+describe('parseAirQuality', () => {
+  it('keeps readings the service has no output for as missing rather than zero', () => {
+    const { current, hourlyPm2_5 } = parseAirQuality(airQualityGaps);
+    expect(current).toEqual({ aqi: undefined, pm2_5: 4.1, pm10: 6.3, ozone: 58, uvIndex: undefined, pollen: {} });
+    expect(hourlyPm2_5).toEqual({ '2026-10-19T00:00': 3.8, '2026-10-19T02:00': 4.0 });
+  });
+
+  it.each([
+    ['a body that is not an object', 'Bad Gateway'],
+    ['no current readings', { hourly: airQualityGaps.hourly }],
+    ['a reading that is not a number', { current: { ...airQualityGaps.current, us_aqi: '42' } }],
+    ['hourly readings that are not a list', { current: airQualityGaps.current, hourly: { time: [], pm2_5: null } }]
+  ])('rejects %s as a schema error', (_, data) => {
+    const error = parseError(data);
+    expect(error).toBeInstanceOf(DataError);
+    expect(error).toMatchObject({ kind: 'schema' });
+  });
+
+  it('leaves the sky alone when there is no particulate reading', () => {
+    const report = parseAirQuality({ current: { ...airQualityGaps.current, pm2_5: null } });
+    expect(withAirQuality(weather(), report).condition).toBe('clear');
+  });
+});
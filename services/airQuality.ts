@@ -0,0 +1,98 @@
+import { AirQuality, PollenKind, SavedLocation, WeatherCondition, WeatherData } from '../types';
+import { HAZE_PM2_5, POLLEN_KINDS } from '../utils/airQuality';
+import { WeatherProvider, fetchForecast } from './weather';
+import { fetchJson, DataError } from './http';
+import { isRecord } from './weather/validate';
+
+const AIR_QUALITY_URL = 'https://air-quality-api.open-meteo.com/v1/air-quality';
+const POLLEN_VARIABLES = POLLEN_KINDS.map(kind => `${kind}_pollen`).join(',');
+const CURRENT_VARIABLES = `us_aqi,pm2_5,pm10,ozone,uv_index,${POLLEN_VARIABLES}`;
+// Covers the 48-hour forecast window whatever hour it starts at.
+const FORECAST_DAYS = 3;
+
+export interface AirQualityReport {
+  current: AirQuality;
+  hourlyPm2_5: Record<string, number>; // local ISO hour -> µg/m³
+}
+
+// Only skies that particulates can plausibly be blamed for; rain, snow and fog keep their own look.
+const HAZE_PRONE: WeatherCondition[] = ['clear', 'partly-cloudy', 'cloudy'];
+
+export const buildAirQualityUrl = (lat: number, lon: number) =>
+  `${AIR_QUALITY_URL}?latitude=${lat}&longitude=${lon}&current=${CURRENT_VARIABLES}&hourly=pm2_5&forecast_days=${FORECAST_DAYS}&timezone=auto`;
+
+const check = (ok: boolean, field: string) => {
+  if (!ok) throw new DataError('schema', `Air quality data has no valid ${field}`);
+};
+
+// Open-Meteo answers null where a model has no output for the place or hour (pollen outside Europe, UV at some
+// coordinates); that reading is missing, not zero. Anything else that is not a number is a changed response.
+const reading = (value: unknown, field: string): number | undefined => {
+  if (value === null || value === undefined) return undefined;
+  check(typeof value === 'number' && Number.isFinite(value), field);
+  return value as number;
+};
+
+export const parseAirQuality = (data: unknown): AirQualityReport => {
+  check(isRecord(data) && isRecord(data.current), 'current readings');
+  const { current, hourly } = data as { current: Record<string, unknown>, hourly?: unknown };
+  const pollen: Partial<Record<PollenKind, number>> = {};
+  POLLEN_KINDS.forEach(kind => {
+    const value = reading(current[`${kind}_pollen`], `${kind}_pollen`);
+    if (value !== undefined) pollen[kind] = value;
+  });
+
+  const hourlyPm2_5: Record<string, number> = {};
+  if (hourly !== undefined) {
+    check(isRecord(hourly) && Array.isArray(hourly.time) && Array.isArray(hourly.pm2_5), 'hourly pm2_5');
+    const { time, pm2_5 } = hourly as { time: unknown[], pm2_5: unknown[] };
+    time.forEach((hour, i) => {
+      check(typeof hour === 'string', 'hourly time');
+      const value = reading(pm2_5[i], 'hourly pm2_5');
+      if (value !== undefined) hourlyPm2_5[hour as string] = value;
+    });
+  }
+
+  return {
+    current: {
+      aqi: reading(current.us_aqi, 'us_aqi'),
+      pm2_5: reading(current.pm2_5, 'pm2_5'),
+      pm10: reading(current.pm10, 'pm10'),
+      ozone: reading(current.ozone, 'ozone'),
+      uvIndex: reading(current.uv_index, 'uv_index'),
+      pollen
+    },
+    hourlyPm2_5
+  };
+};
+
+export const fetchAirQuality = async (place: SavedLocation, signal?: AbortSignal): Promise<AirQualityReport> => {
+  const { data } = await fetchJson(buildAirQualityUrl(place.lat, place.lon), { signal });
+  return parseAirQuality(data);
+};
+
+const hazeFor = (condition: WeatherCondition, pm2_5: number | undefined): WeatherCondition =>
+  pm2_5 !== undefined && pm2_5 >= HAZE_PM2_5 && HAZE_PRONE.includes(condition) ? 'hazy' : condition;
+
+// Attaches the readings and lets heavy particulates turn the sky hazy, now and in each forecast hour that has a reading.
+// Both feeds use the location's local time, so forecast hours match on their ISO strings.
+export const withAirQuality = (weather: WeatherData, report: AirQualityReport): WeatherData => ({
+  ...weather,
+  airQuality: report.current,
+  condition: hazeFor(weather.condition, report.current.pm2_5),
+  hourly: weather.hourly?.map(h => ({ ...h, condition: hazeFor(h.condition, report.hourlyPm2_5[h.time]) }))
+});
+
+// The forecast and the air-quality reading are fetched side by side; a failed reading never costs the forecast.
+// An offline provider has no reading to pair with, so its forecast comes back as recorded.
+export const fetchWeatherWithAirQuality = async (provider: WeatherProvider, place: SavedLocation, signal?: AbortSignal): Promise<WeatherData> => {
+  const [weather, report] = await Promise.all([
+    fetchForecast(provider, place, signal),
+    provider.offline ? null : fetchAirQuality(place, signal).catch(err => {
+      if (signal?.aborted) throw err;
+      console.error(err);
+      return null;
+    })
+  ]);
+  return report ? withAirQuality(weather, report) : weather;
+};
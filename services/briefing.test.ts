@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from 'vitest';
+import { composeBriefing, getBriefingModel, briefingSourceLabel, BriefingModel } from './briefing';
+import { renderBriefing, buildBriefingFacts } from '../utils/briefing';
+import { createLocale } from '../i18n';
+import { METRIC_UNITS } from '../utils/units';
+import { weather, hours, day } from '../test/weather';
+
+const locale = createLocale('en', METRIC_UNITS);
+const facts = buildBriefingFacts(weather({
+  hourly: hours('2026-10-18T07:00', 24),
+  daily: [day('2026-10-18'), day('2026-10-19')]
+}), '2026-10-18T07')!;
+
+const stubModel = (write: BriefingModel['write']): BriefingModel => ({ id: 'gemini', label: 'Stub', write: vi.fn(write) });
+
+describe('composeBriefing', () => {
+  it('uses the model\'s text when it answers', async () => {
+    const model = stubModel(async () => 'Bright and still all day.');
+    expect(await composeBriefing(facts, locale, model)).toEqual({ text: 'Bright and still all day.', source: 'gemini' });
+    expect(model.write).toHaveBeenCalledWith(expect.objectContaining({ facts: expect.stringContaining('"place":"London"') }), undefined);
+  });
+
+  it('falls back to the template when the model fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const model = stubModel(async () => { throw new Error('quota'); });
+    expect(await composeBriefing(facts, locale, model)).toEqual({ text: renderBriefing(facts, locale), source: 'template' });
+  });
+
+  it('passes a cancellation through instead of falling back', async () => {
+    const controller = new AbortController();
+    const model = stubModel(async () => {
+      controller.abort();
+      throw new DOMException('Aborted', 'AbortError');
+    });
+    await expect(composeBriefing(facts, locale, model, controller.signal)).rejects.toThrow('Aborted');
+  });
+
+  it('writes the template when there is no model', async () => {
+    expect((await composeBriefing(facts, locale, null)).source).toBe('template');
+  });
+});
+
+describe('getBriefingModel', () => {
+  it('needs both the Gemini choice and a key', () => {
+    expect(getBriefingModel('gemini', '')).toBeNull();
+    expect(getBriefingModel('template', 'key')).toBeNull();
+    expect(getBriefingModel('gemini', 'key')?.id).toBe('gemini');
+  });
+
+  it('bylines a briefing with the label of the model that wrote it', () => {
+    expect(briefingSourceLabel('gemini')).toBe(getBriefingModel('gemini', 'key')?.label);
+  });
+});
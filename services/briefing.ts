@@ -0,0 +1,61 @@
+import { GoogleGenAI } from "@google/genai";
+import { Briefing, BriefingFacts, BriefingSourceId } from '../types';
+import type { Locale } from '../i18n';
+import { BriefingPrompt, buildBriefingPrompt, renderBriefing } from '../utils/briefing';
+
+export interface BriefingModel {
+  id: Briefing['source'];
+  label: string;
+  // Resolves to the briefing text; throws on transport failure or an unusable answer.
+  write: (prompt: BriefingPrompt, signal?: AbortSignal) => Promise<string>;
+}
+
+const MAX_BRIEFING_LENGTH = 280;
+const GEMINI_LABEL = 'Gemini';
+
+export const createGeminiBriefingModel = (apiKey: string): BriefingModel => ({
+  id: 'gemini',
+  label: GEMINI_LABEL,
+  write: async (prompt, signal) => {
+    const ai = new GoogleGenAI({ apiKey });
+    const response = await ai.models.generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: prompt.facts,
+      config: {
+        systemInstruction: prompt.instructions,
+        temperature: 0.4,
+        abortSignal: signal
+      }
+    });
+    const text = response.text?.trim().replace(/^["“]|["”]$/g, '');
+    if (!text || text.length > MAX_BRIEFING_LENGTH) throw new Error("Unusable briefing");
+    return text;
+  }
+});
+
+// Labels are message keys; a brand name passes through the catalog lookup unchanged.
+export const BRIEFING_SOURCES: { id: BriefingSourceId; label: string; needsKey?: boolean }[] = [
+  { id: 'off', label: 'settings.briefing.off' },
+  { id: 'template', label: 'settings.briefing.template' },
+  { id: 'gemini', label: GEMINI_LABEL, needsKey: true }
+];
+
+// Cached briefings carry only their source id, so the byline is looked up here rather than on a model instance.
+export const briefingSourceLabel = (id: BriefingSourceId) => BRIEFING_SOURCES.find(s => s.id === id)?.label ?? id;
+
+// Null means the template: either it was chosen, or Gemini was chosen without a key to call it with.
+export const getBriefingModel = (id: BriefingSourceId, apiKey: string | undefined = process.env.API_KEY): BriefingModel | null =>
+  id === 'gemini' && apiKey ? createGeminiBriefingModel(apiKey) : null;
+
+// A model that fails or goes quiet costs nothing but polish: the template says the same things.
+export const composeBriefing = async (facts: BriefingFacts, locale: Locale, model: BriefingModel | null, signal?: AbortSignal): Promise<Briefing> => {
+  if (model) {
+    try {
+      return { text: await model.write(buildBriefingPrompt(facts, locale), signal), source: model.id };
+    } catch (e) {
+      if (signal?.aborted) throw e;
+      console.error(`${model.label} briefing failed`, e);
+    }
+  }
+  return { text: renderBriefing(facts, locale), source: 'template' };
+};
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { searchPlaces, describePlace, formatPopulation } from './geocoding';
+import { makePlace } from '../utils/locationStore';
+import { stubFetch, status } from '../test/fetch';
+import geocodingMeixian from '../fixtures/geocoding-meixian.json';
+
+const SEARCH_URL = 'https://geocoding-api.open-meteo.com/v1/search';
+
+describe('searchPlaces', () => {
+  it('turns results into places keyed by rounded coordinates', async () => {
+    const fetch = stubFetch({ [SEARCH_URL]: geocodingMeixian });
+    const places = await searchPlaces('  Meixian ');
+    expect(fetch.mock.calls[0][0]).toContain('name=Meixian&');
+    expect(places).toHaveLength(3);
+    expect(places[0]).toEqual({
+      id: '24.289,116.118',
+      name: 'Meizhou',
+      lat: 24.28859,
+      lon: 116.11768,
+      admin1: 'Guangdong',
+      country: 'China',
+      timezone: 'Asia/Shanghai',
+      population: 380000
+    });
+  });
+
+  it('returns nothing when the service has no results key', async () => {
+    stubFetch({ [SEARCH_URL]: { generationtime_ms: 0.4 } });
+    expect(await searchPlaces('Xyzzy')).toEqual([]);
+  });
+
+  it('fails at once rather than retrying, since the next keystroke searches again', async () => {
+    const fetch = stubFetch({ [SEARCH_URL]: status(503) });
+    await expect(searchPlaces('Meixian')).rejects.toMatchObject({ kind: 'http', status: 503 });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('describePlace', () => {
+  it('joins region and country, dropping repeats and gaps', () => {
+    expect(describePlace(makePlace(0, 0, 'Meizhou', { admin1: 'Guangdong', country: 'China' }))).toBe('Guangdong, China');
+    expect(describePlace(makePlace(0, 0, 'Singapore', { admin1: 'Singapore', country: 'Singapore' }))).toBe('Singapore');
+    expect(describePlace(makePlace(0, 0, 'Meixian', { country: 'China' }))).toBe('China');
+  });
+});
+
+describe('formatPopulation', () => {
+  it.each([[undefined, ''], [950, '950'], [380000, '380K'], [8_900_000, '8.9M']])('formats %s as "%s"', (population, text) => {
+    expect(formatPopulation(population)).toBe(text);
+  });
+});
@@ -0,0 +1,38 @@
+import { SavedLocation } from '../types';
+import { makePlace } from '../utils/locationStore';
+import { fetchJson } from './http';
+
+const GEOCODING_URL = 'https://geocoding-api.open-meteo.com/v1/search';
+const SUGGESTION_COUNT = 8;
+
+interface GeocodingResult {
+  latitude: number;
+  longitude: number;
+  name: string;
+  admin1?: string;
+  country?: string;
+  timezone?: string;
+  population?: number;
+}
+
+export const searchPlaces = async (query: string, signal?: AbortSignal): Promise<SavedLocation[]> => {
+  const url = `${GEOCODING_URL}?name=${encodeURIComponent(query.trim())}&count=${SUGGESTION_COUNT}&language=en&format=json`;
+  // The next keystroke brings a new search soon enough, so a failed one is not retried.
+  const { data }: { data: { results?: GeocodingResult[] } } = await fetchJson(url, { signal, retries: 0 });
+  return (data.results || []).map(r => makePlace(r.latitude, r.longitude, r.name, {
+    admin1: r.admin1,
+    country: r.country,
+    timezone: r.timezone,
+    population: r.population
+  }));
+};
+
+export const describePlace = (place: SavedLocation) =>
+  [place.admin1, place.country].filter((part, i, parts) => part && parts.indexOf(part) === i).join(', ');
+
+export const formatPopulation = (population?: number) => {
+  if (!population) return '';
+  if (population >= 1e6) return `${(population / 1e6).toFixed(1)}M`;
+  if (population >= 1e3) return `${Math.round(population / 1e3)}K`;
+  return String(population);
+};
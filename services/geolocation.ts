@@ -0,0 +1,23 @@
+import { DataError, abortError } from './http';
+
+const GEOLOCATION_TIMEOUT_MS = 10 * 1000;
+
+// The device position as a promise, so locating can be cancelled like any other request. The browser call itself
+// cannot be stopped; an abort only makes its answer be ignored.
+export const locateDevice = (signal?: AbortSignal) => new Promise<{ lat: number, lon: number }>((resolve, reject) => {
+  if (!navigator.geolocation) return reject(new DataError('geolocation', 'Geolocation is not supported'));
+  if (signal?.aborted) return reject(abortError());
+  const onAbort = () => reject(abortError());
+  signal?.addEventListener('abort', onAbort, { once: true });
+  navigator.geolocation.getCurrentPosition(
+    (pos) => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve({ lat: pos.coords.latitude, lon: pos.coords.longitude });
+    },
+    (err) => {
+      signal?.removeEventListener('abort', onAbort);
+      reject(new DataError('geolocation', err.message, err.code));
+    },
+    { timeout: GEOLOCATION_TIMEOUT_MS, enableHighAccuracy: true }
+  );
+});
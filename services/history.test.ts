@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { parseRecentHistory, buildClimateNormals } from './history';
+
+// Thirty years of days in the archive's column layout, with values from a function of the date.
+const archive = (value: (date: string) => number) => {
+  const time: string[] = [];
+  for (let t = Date.UTC(1991, 0, 1); t <= Date.UTC(2020, 11, 31); t += 86400000) time.push(new Date(t).toISOString().slice(0, 10));
+  return {
+    time,
+    temperature_2m_max: time.map(value),
+    temperature_2m_min: time.map(d => value(d) - 8),
+    precipitation_sum: time.map(() => 2)
+  };
+};
+
+describe('parseRecentHistory', () => {
+  it('drops today, which is still in progress, and any day with a gap', () => {
+    const days = parseRecentHistory({
+      time: ['2026-10-15', '2026-10-16', '2026-10-17', '2026-10-18'],
+      temperature_2m_max: [15, null, 17, 18],
+      temperature_2m_min: [8, 9, 10, 11],
+      precipitation_sum: [0, 1, 2.5, 0]
+    });
+    expect(days).toEqual([
+      { date: '2026-10-15', tempMax: 15, tempMin: 8, precipitation: 0 },
+      { date: '2026-10-17', tempMax: 17, tempMin: 10, precipitation: 2.5 }
+    ]);
+  });
+});
+
+describe('buildClimateNormals', () => {
+  it('averages every year for each calendar day, 29 February included', () => {
+    const normals = buildClimateNormals(archive(() => 20));
+    expect(normals).toMatchObject({ startYear: 1991, endYear: 2020 });
+    expect(Object.keys(normals.days)).toHaveLength(366);
+    expect(normals.days['02-29']).toEqual({ tempMax: 20, tempMin: 12, precipitation: 2 });
+  });
+
+  it('smooths a freak week into its neighbours', () => {
+    const normals = buildClimateNormals(archive(date => date === '2003-08-10' ? 20 + 30 * 15 : 20));
+    // One day at +450 °C in a fifteen-day, thirty-year window adds a degree.
+    expect(normals.days['08-10'].tempMax).toBe(21);
+    expect(normals.days['08-03'].tempMax).toBe(21);
+    expect(normals.days['08-02'].tempMax).toBe(20);
+  });
+});
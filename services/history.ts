@@ -0,0 +1,91 @@
+import { SavedLocation, HistoryDay, ClimateNormal, ClimateNormals } from '../types';
+import { fetchJson } from './http';
+
+const FORECAST_URL = 'https://api.open-meteo.com/v1/forecast';
+const ARCHIVE_URL = 'https://archive-api.open-meteo.com/v1/archive';
+const DAILY_VARIABLES = 'temperature_2m_max,temperature_2m_min,precipitation_sum';
+const CLIMATE_TIMEOUT_MS = 30 * 1000;
+
+export const MAX_HISTORY_DAYS = 30;
+
+// The current WMO reference period.
+const NORMALS_START_YEAR = 1991;
+const NORMALS_END_YEAR = 2020;
+// Days either side averaged into each calendar day, so one freak week in thirty years doesn't become "normal".
+const NORMALS_SMOOTHING_DAYS = 7;
+
+interface DailySeries {
+  time: string[];
+  temperature_2m_max: (number | null)[];
+  temperature_2m_min: (number | null)[];
+  precipitation_sum: (number | null)[];
+}
+
+const round = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+// The forecast API backfills recent days from its own analysis, so it has no lag; the archive trails by about a week.
+export const buildRecentHistoryUrl = (lat: number, lon: number) =>
+  `${FORECAST_URL}?latitude=${lat}&longitude=${lon}&daily=${DAILY_VARIABLES}&past_days=${MAX_HISTORY_DAYS}&forecast_days=1&timezone=auto`;
+
+export const buildClimateArchiveUrl = (lat: number, lon: number) =>
+  `${ARCHIVE_URL}?latitude=${lat}&longitude=${lon}&daily=${DAILY_VARIABLES}&start_date=${NORMALS_START_YEAR}-01-01&end_date=${NORMALS_END_YEAR}-12-31&timezone=auto`;
+
+// The last entry is today, which is still in progress, so it is dropped; so is any day with a gap in it.
+export const parseRecentHistory = (daily: DailySeries): HistoryDay[] =>
+  daily.time.slice(0, -1).flatMap((date, i) => {
+    const tempMax = daily.temperature_2m_max[i];
+    const tempMin = daily.temperature_2m_min[i];
+    const precipitation = daily.precipitation_sum[i];
+    if (tempMax === null || tempMin === null || precipitation === null) return [];
+    return [{ date, tempMax, tempMin, precipitation }];
+  });
+
+// Calendar days of a leap year, so 29 February gets a normal of its own.
+const CALENDAR = Array.from({ length: 366 }, (_, i) => new Date(Date.UTC(2000, 0, 1 + i)).toISOString().slice(5, 10));
+
+export const buildClimateNormals = (daily: DailySeries): ClimateNormals => {
+  const index = new Map(CALENDAR.map((day, i) => [day, i]));
+  const sums = CALENDAR.map(() => ({ tempMax: 0, tempMin: 0, precipitation: 0, count: 0 }));
+  daily.time.forEach((date, i) => {
+    const tempMax = daily.temperature_2m_max[i];
+    const tempMin = daily.temperature_2m_min[i];
+    const precipitation = daily.precipitation_sum[i];
+    if (tempMax === null || tempMin === null || precipitation === null) return;
+    const bucket = sums[index.get(date.slice(5, 10))!];
+    bucket.tempMax += tempMax;
+    bucket.tempMin += tempMin;
+    bucket.precipitation += precipitation;
+    bucket.count++;
+  });
+
+  const days: Record<string, ClimateNormal> = {};
+  CALENDAR.forEach((day, i) => {
+    const total = { tempMax: 0, tempMin: 0, precipitation: 0, count: 0 };
+    for (let offset = -NORMALS_SMOOTHING_DAYS; offset <= NORMALS_SMOOTHING_DAYS; offset++) {
+      const bucket = sums[(i + offset + CALENDAR.length) % CALENDAR.length];
+      total.tempMax += bucket.tempMax;
+      total.tempMin += bucket.tempMin;
+      total.precipitation += bucket.precipitation;
+      total.count += bucket.count;
+    }
+    if (total.count === 0) return;
+    days[day] = {
+      tempMax: round(total.tempMax / total.count, 1),
+      tempMin: round(total.tempMin / total.count, 1),
+      // A dry month is a sum of many near-zero days, so keep the extra digit.
+      precipitation: round(total.precipitation / total.count, 2)
+    };
+  });
+  return { startYear: NORMALS_START_YEAR, endYear: NORMALS_END_YEAR, days };
+};
+
+export const fetchRecentHistory = async (place: SavedLocation, signal?: AbortSignal): Promise<HistoryDay[]> => {
+  const { data }: { data: { daily: DailySeries } } = await fetchJson(buildRecentHistoryUrl(place.lat, place.lon), { signal });
+  return parseRecentHistory(data.daily);
+};
+
+export const fetchClimateNormals = async (place: SavedLocation, signal?: AbortSignal): Promise<ClimateNormals> => {
+  // Thirty years of daily values take the archive a while to assemble.
+  const { data }: { data: { daily: DailySeries } } = await fetchJson(buildClimateArchiveUrl(place.lat, place.lon), { signal, timeoutMs: CLIMATE_TIMEOUT_MS });
+  return buildClimateNormals(data.daily);
+};
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { fetchJson, DataError } from './http';
+import { stubFetch, status } from '../test/fetch';
+
+const URL = 'https://api.test/forecast';
+
+// Retries wait on real timeouts, so every test here runs on the fake clock and lets it run out.
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+const settle = async <T>(pending: Promise<T>) => {
+  const outcome = pending.then(value => ({ value }), error => ({ error }));
+  await vi.runAllTimersAsync();
+  return outcome as Promise<{ value?: T, error?: any }>;
+};
+
+describe('fetchJson', () => {
+  it('returns the parsed body with the response', async () => {
+    stubFetch({ [URL]: { temp: 18 } });
+    const { value } = await settle(fetchJson(URL));
+    expect(value!.data).toEqual({ temp: 18 });
+    expect(value!.response.ok).toBe(true);
+  });
+
+  it('retries server errors and rate limits with backoff', async () => {
+    const answers = [status(503), status(429), () => Response.json({ temp: 18 })];
+    const fetch = stubFetch({ [URL]: () => answers[fetch.mock.calls.length - 1]() });
+    const { value } = await settle(fetchJson(URL));
+    expect(value!.data).toEqual({ temp: 18 });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the last retry with the final status', async () => {
+    const fetch = stubFetch({ [URL]: status(502) });
+    const { error } = await settle(fetchJson(URL, { retries: 2 }));
+    expect(error).toBeInstanceOf(DataError);
+    expect(error).toMatchObject({ kind: 'http', status: 502 });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry a request the server rejected', async () => {
+    const fetch = stubFetch({ [URL]: status(404) });
+    const { error } = await settle(fetchJson(URL));
+    expect(error).toMatchObject({ kind: 'http', status: 404 });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a body that is not JSON as a schema error without retrying', async () => {
+    const fetch = stubFetch({ [URL]: () => new Response('<html>Service Unavailable</html>') });
+    const { error } = await settle(fetchJson(URL));
+    expect(error).toMatchObject({ kind: 'schema' });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a dropped connection as a network error', async () => {
+    stubFetch({});
+    const { error } = await settle(fetchJson(URL, { retries: 1 }));
+    expect(error).toMatchObject({ kind: 'network' });
+  });
+
+  it('times out a request that never answers', async () => {
+    const hang = (_: string, init?: RequestInit) => new Promise<Response>((_resolve, reject) =>
+      init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError'))));
+    vi.stubGlobal('fetch', vi.fn(hang));
+    const { error } = await settle(fetchJson(URL, { retries: 0, timeoutMs: 5000 }));
+    expect(error).toMatchObject({ kind: 'network', message: 'api.test timed out' });
+  });
+
+  it('rejects with an AbortError, not a DataError, when the caller cancels during backoff', async () => {
+    const fetch = stubFetch({ [URL]: status(503) });
+    const controller = new AbortController();
+    const pending = fetchJson(URL, { signal: controller.signal });
+    const outcome = pending.catch(error => error);
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    await vi.runAllTimersAsync();
+    const error = await outcome;
+    expect(error).toBeInstanceOf(DOMException);
+    expect(error.name).toBe('AbortError');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
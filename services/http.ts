@@ -0,0 +1,82 @@
+// How a data request failed. The UI words each kind differently; only network and server trouble is retried.
+export type DataErrorKind = 'network' | 'http' | 'schema' | 'geolocation';
+
+export class DataError extends Error {
+  kind: DataErrorKind;
+  status?: number; // HTTP status for 'http'; GeolocationPositionError code for 'geolocation'
+
+  constructor(kind: DataErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = 'DataError';
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+export interface FetchJsonOptions {
+  signal?: AbortSignal;
+  retries?: number;
+  timeoutMs?: number;
+}
+
+const RETRIES = 2;
+const TIMEOUT_MS = 10 * 1000;
+const BACKOFF_MS = 500;
+
+export const abortError = () => new DOMException('Aborted', 'AbortError');
+
+export const isAbortError = (err: unknown) => err instanceof DOMException && err.name === 'AbortError';
+
+// Rate limits and server trouble pass; a bad request or a missing resource fails the same way every time.
+const isRetryable = (err: unknown) => err instanceof DataError
+  && (err.kind === 'network' || (err.kind === 'http' && (err.status === 429 || (err.status ?? 0) >= 500)));
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// One try with its own deadline. The caller's abort stays an AbortError; a missed deadline is a network failure.
+const attempt = async (url: string, signal: AbortSignal | undefined, timeoutMs: number) => {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signal?.addEventListener('abort', abort, { once: true });
+  const timer = setTimeout(abort, timeoutMs);
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) throw new DataError('http', `${new URL(url).host} answered ${response.status}`, response.status);
+    const data = await response.json().catch(err => {
+      if (controller.signal.aborted) throw err;
+      throw new DataError('schema', `${new URL(url).host} sent a body that is not JSON`);
+    });
+    return { data, response };
+  } catch (err) {
+    if (signal?.aborted) throw abortError();
+    if (err instanceof DataError) throw err;
+    throw new DataError('network', controller.signal.aborted ? `${new URL(url).host} timed out` : String(err));
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', abort);
+  }
+};
+
+// GETs JSON, retrying network failures, 429s and 5xx with exponential backoff and jitter.
+// Every failure is a DataError, apart from the caller aborting, which rejects with an AbortError as fetch does.
+export const fetchJson = async (url: string, { signal, retries = RETRIES, timeoutMs = TIMEOUT_MS }: FetchJsonOptions = {}): Promise<{ data: any, response: Response }> => {
+  for (let i = 0; ; i++) {
+    try {
+      return await attempt(url, signal, timeoutMs);
+    } catch (err) {
+      if (!isRetryable(err) || i >= retries) throw err;
+      await sleep(BACKOFF_MS * 2 ** i * (0.5 + Math.random() / 2), signal);
+    }
+  }
+};
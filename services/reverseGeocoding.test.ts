@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createOfflineGeocoder, withFallback, getReverseGeocoder, ReverseGeocoder } from './reverseGeocoding';
+import { SavedLocation } from '../types';
+import { makePlace } from '../utils/locationStore';
+import { stubFetch, status } from '../test/fetch';
+import { createLocale } from '../i18n';
+import { METRIC_UNITS } from '../utils/units';
+
+const KM_PER_DEGREE = 111.19;
+const nearby = (name: string) => `Near ${name}`;
+const offline = createOfflineGeocoder(nearby);
+
+// Latitude `km` due north of the gazetteer's London and Honolulu; nothing else in it is closer.
+const northOfLondon = (km: number) => 51.51 + km / KM_PER_DEGREE;
+const northOfHonolulu = (km: number) => 21.31 + km / KM_PER_DEGREE;
+
+describe('offline reverse geocoder', () => {
+  it('names the nearest place outright within 25 km, keeping the user\'s coordinates', async () => {
+    const place = await offline.reverse(northOfLondon(20), -0.13);
+    expect(place).toMatchObject({ name: 'London', admin1: 'England', country: 'United Kingdom', lat: northOfLondon(20) });
+  });
+
+  it('calls anything further out near the place, up to 300 km', async () => {
+    expect((await offline.reverse(northOfLondon(30), -0.13))?.name).toBe('Near London');
+    expect((await offline.reverse(northOfHonolulu(290), -157.86))?.name).toBe('Near Honolulu');
+  });
+
+  it('gives up beyond 300 km rather than name a place that far away', async () => {
+    expect(await offline.reverse(northOfHonolulu(310), -157.86)).toBeNull();
+  });
+
+  it('words "near" in the user\'s language', async () => {
+    const zh = createLocale('zh', METRIC_UNITS);
+    const place = await createOfflineGeocoder(name => zh.t('places.near', { place: name })).reverse(northOfLondon(30), -0.13);
+    expect(place?.name).toBe('London附近');
+  });
+});
+
+describe('withFallback', () => {
+  const fixed = (label: string, result: () => Promise<SavedLocation | null>): ReverseGeocoder =>
+    ({ id: 'osm', label, reverse: vi.fn(result) });
+
+  it('moves on when a provider fails or has no answer', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const failing = fixed('Failing', () => Promise.reject(new Error('down')));
+    const empty = fixed('Empty', async () => null);
+    const chain = withFallback(failing, empty, offline);
+    expect((await chain.reverse(51.51, -0.13))?.name).toBe('London');
+    expect(failing.reverse).toHaveBeenCalled();
+    expect(empty.reverse).toHaveBeenCalled();
+  });
+
+  it('stops at the first answer', async () => {
+    const first = fixed('First', async () => makePlace(1, 2, 'First'));
+    const second = fixed('Second', async () => makePlace(1, 2, 'Second'));
+    expect((await withFallback(first, second).reverse(1, 2))?.name).toBe('First');
+    expect(second.reverse).not.toHaveBeenCalled();
+  });
+
+  it('does not fall back once the caller has aborted', async () => {
+    const controller = new AbortController();
+    const aborting = fixed('Aborting', async () => {
+      controller.abort();
+      throw new DOMException('Aborted', 'AbortError');
+    });
+    await expect(withFallback(aborting, offline).reverse(51.51, -0.13, controller.signal)).rejects.toThrow('Aborted');
+  });
+
+  it('falls back to the gazetteer when OpenStreetMap is unavailable', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    stubFetch({ 'https://nominatim.openstreetmap.org': status(404) });
+    expect((await getReverseGeocoder('osm', nearby).reverse(northOfLondon(30), -0.13))?.name).toBe('Near London');
+  });
+});
@@ -0,0 +1,108 @@
+import { GoogleGenAI } from "@google/genai";
+import { SavedLocation, ReverseGeocoderId } from '../types';
+import { makePlace } from '../utils/locationStore';
+import { POPULATED_PLACES } from '../data/populatedPlaces';
+import { fetchJson } from './http';
+
+export interface ReverseGeocoder {
+  id: ReverseGeocoderId;
+  label: string;
+  // Resolves to null when the provider has no answer; throws only on transport failure.
+  reverse: (lat: number, lon: number, signal?: AbortSignal) => Promise<SavedLocation | null>;
+}
+
+// Names a place the user is merely close to, in the user's language, e.g. "Near Meizhou".
+export type NearbyName = (name: string) => string;
+
+const EARTH_RADIUS_KM = 6371;
+const NEAR_THRESHOLD_KM = 25;
+const MAX_OFFLINE_DISTANCE_KM = 300;
+
+export const distanceKm = (lat1: number, lon1: number, lat2: number, lon2: number) => {
+  const rad = Math.PI / 180;
+  const dLat = (lat2 - lat1) * rad;
+  const dLon = (lon2 - lon1) * rad;
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * rad) * Math.cos(lat2 * rad) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+export const createOfflineGeocoder = (nearby: NearbyName): ReverseGeocoder => ({
+  id: 'offline',
+  label: 'Offline',
+  reverse: async (lat, lon) => {
+    let best = POPULATED_PLACES[0];
+    let bestDistance = Infinity;
+    for (const place of POPULATED_PLACES) {
+      const d = distanceKm(lat, lon, place[3], place[4]);
+      if (d < bestDistance) {
+        best = place;
+        bestDistance = d;
+      }
+    }
+    if (bestDistance > MAX_OFFLINE_DISTANCE_KM) return null;
+    const [name, admin1, country] = best;
+    // Keep the user's own coordinates; the gazetteer only lends the name.
+    return makePlace(lat, lon, bestDistance <= NEAR_THRESHOLD_KM ? name : nearby(name), { admin1, country });
+  }
+});
+
+export const osmGeocoder: ReverseGeocoder = {
+  id: 'osm',
+  label: 'OpenStreetMap',
+  reverse: async (lat, lon, signal) => {
+    const url = `https://nominatim.openstreetmap.org/reverse?lat=${lat}&lon=${lon}&format=jsonv2&zoom=10&accept-language=en`;
+    const { data } = await fetchJson(url, { signal });
+    const address = data.address || {};
+    const name = address.city || address.town || address.village || address.municipality || address.county;
+    if (!name) return null;
+    return makePlace(lat, lon, name, { admin1: address.state, country: address.country });
+  }
+};
+
+export const createGeminiGeocoder = (apiKey: string): ReverseGeocoder => ({
+  id: 'gemini',
+  label: 'Gemini',
+  reverse: async (lat, lon) => {
+    const ai = new GoogleGenAI({ apiKey });
+    const response = await ai.models.generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: `What is the name of the city/town at latitude ${lat} and longitude ${lon}? Return ONLY the short name of the city (max 2 words), no punctuation or extra words. Example: New York, Paris, Tokyo.`,
+      config: {
+        temperature: 0.1,
+      }
+    });
+    const result = response.text?.trim();
+    return result && result.length < 50 ? makePlace(lat, lon, result) : null;
+  }
+});
+
+// Tries each provider in turn, so an online provider degrades to the bundled gazetteer rather than to nothing.
+export const withFallback = (primary: ReverseGeocoder, ...fallbacks: ReverseGeocoder[]): ReverseGeocoder => ({
+  id: primary.id,
+  label: primary.label,
+  reverse: async (lat, lon, signal) => {
+    for (const geocoder of [primary, ...fallbacks]) {
+      try {
+        const place = await geocoder.reverse(lat, lon, signal);
+        if (place) return place;
+      } catch (e) {
+        if (signal?.aborted) throw e;
+        console.error(`${geocoder.label} reverse geocoding failed`, e);
+      }
+    }
+    return null;
+  }
+});
+
+export const REVERSE_GEOCODERS: { id: ReverseGeocoderId; label: string }[] = [
+  { id: 'offline', label: 'Offline' },
+  { id: 'osm', label: osmGeocoder.label },
+  { id: 'gemini', label: 'Gemini' }
+];
+
+export const getReverseGeocoder = (id: ReverseGeocoderId, nearby: NearbyName, apiKey: string | undefined = process.env.API_KEY): ReverseGeocoder => {
+  const offline = createOfflineGeocoder(nearby);
+  if (id === 'osm') return withFallback(osmGeocoder, offline);
+  if (id === 'gemini' && apiKey) return withFallback(createGeminiGeocoder(apiKey), offline);
+  return offline;
+};
@@ -0,0 +1,25 @@
+import { WeatherProviderId, WeatherData, SavedLocation } from '../../types';
+import { WeatherProvider } from './provider';
+import { openMeteoProvider } from './openMeteo';
+import { metNorwayProvider } from './metNorway';
+import { fixtureProvider } from './fixture';
+import { validateWeatherData } from './validate';
+import { DataError, isAbortError } from '../http';
+
+export type { WeatherProvider } from './provider';
+
+export const WEATHER_PROVIDERS: WeatherProvider[] = [openMeteoProvider, metNorwayProvider, fixtureProvider];
+
+export const getWeatherProvider = (id: WeatherProviderId): WeatherProvider =>
+  WEATHER_PROVIDERS.find(p => p.id === id) || openMeteoProvider;
+
+// Transport failures arrive from fetchJson already typed. Anything else a provider throws came from parsing a
+// response it did not expect, so it is reported as a schema mismatch along with data that fails validation.
+export const fetchForecast = async (provider: WeatherProvider, place: SavedLocation, signal?: AbortSignal): Promise<WeatherData> => {
+  try {
+    return validateWeatherData(await provider.fetchWeather(place, signal));
+  } catch (err) {
+    if (err instanceof DataError || isAbortError(err)) throw err;
+    throw new DataError('schema', `${provider.label} response could not be read: ${err}`);
+  }
+};
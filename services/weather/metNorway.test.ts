@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { mapMetSymbolToCondition, parseMetNorway } from './metNorway';
+import { makePlace } from '../../utils/locationStore';
+import metNorwayOslo from '../../fixtures/met-norway-oslo.json';
+
+const OSLO = makePlace(59.9139, 10.7522, 'Oslo', { timezone: 'Europe/Oslo' });
+
+describe('mapMetSymbolToCondition', () => {
+  it.each([
+    ['clearsky_day', 'clear'], ['fair_night', 'clear'], ['lightrain', 'drizzle'], ['heavyrainshowers_polartwilight', 'rainy'],
+    ['sleet', 'snow'], ['rainandthunder', 'thunderstorm'], ['fog', 'fog']
+  ])('maps %s to %s', (symbol, condition) => {
+    expect(mapMetSymbolToCondition(symbol)).toBe(condition);
+  });
+
+  it('reads unknown or missing symbols as cloudy', () => {
+    expect(mapMetSymbolToCondition('sandstorm')).toBe('cloudy');
+    expect(mapMetSymbolToCondition(undefined)).toBe('cloudy');
+  });
+});
+
+describe('parseMetNorway', () => {
+  const data = parseMetNorway(metNorwayOslo.forecast, metNorwayOslo.sun, OSLO, metNorwayOslo.timeZone, new Date(metNorwayOslo.recordedAt));
+
+  it('converts UTC timestamps to the place\'s local hours', () => {
+    // Recorded at 07:30 UTC, which is 09:30 in Oslo summer time.
+    expect(data.hourly![0].time).toBe('2026-10-18T09:00');
+    expect(data.pastHourly!.every(h => h.time < '2026-10-18T09:00')).toBe(true);
+  });
+
+  it('converts wind from m/s to km/h', () => {
+    const first = metNorwayOslo.forecast.properties.timeseries.find(e => e.time === '2026-10-18T07:00:00Z')!;
+    expect(data.hourly![0].windSpeed).toBeCloseTo(first.data.instant.details.wind_speed * 3.6);
+  });
+
+  it('uses the sun times for symbols without a day or night variant', () => {
+    const { sunrise, sunset } = metNorwayOslo.sun['2026-10-18'];
+    const fog = data.hourly!.filter(h => h.time.startsWith('2026-10-18'));
+    fog.forEach(h => expect(h.isDay).toBe(h.time.slice(11) >= sunrise && h.time.slice(11) < sunset));
+    expect(data.daily![0]).toMatchObject({ sunrise, sunset });
+  });
+
+  it('labels its data with the provider', () => {
+    expect(data.source).toBe('met-norway');
+    expect(data.location.timezone).toBe('Europe/Oslo');
+  });
+
+  it('rejects a response without a usable timeseries as a schema error', () => {
+    const parse = (forecast: unknown) => () => parseMetNorway(forecast, metNorwayOslo.sun, OSLO, metNorwayOslo.timeZone);
+    expect(parse({ type: 'Feature' })).toThrow(expect.objectContaining({ kind: 'schema' }));
+    expect(parse({ properties: { timeseries: [] } })).toThrow(expect.objectContaining({ kind: 'schema' }));
+    expect(parse({ properties: { timeseries: [{ time: '2026-10-18T07:00:00Z', data: {} }] } })).toThrow(expect.objectContaining({ kind: 'schema' }));
+  });
+});
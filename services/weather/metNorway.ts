@@ -0,0 +1,196 @@
+import { WeatherData, WeatherCondition, SavedLocation, HourlyForecast, DailyForecast } from '../../types';
+import { WeatherProvider, DAILY_WINDOW, splitHourly, fetchedAt } from './provider';
+import { fetchJson, DataError } from '../http';
+import { isRecord } from './validate';
+import { toLocalIso, utcOffset } from '../../utils/time';
+
+const FORECAST_URL = 'https://api.met.no/weatherapi/locationforecast/2.0/compact';
+const SUN_URL = 'https://api.met.no/weatherapi/sunrise/3.0/sun';
+const MS_TO_KMH = 3.6;
+
+// Base symbol codes from the MET Norway weathericon set; the _day/_night/_polartwilight suffix is stripped first.
+// MET has no drizzle symbol, so light rain reads as drizzle; sleet leans to snow since it settles the same way.
+export const MET_SYMBOL_CONDITIONS: Record<string, WeatherCondition> = {
+  clearsky: 'clear', fair: 'clear',
+  partlycloudy: 'partly-cloudy',
+  cloudy: 'cloudy',
+  fog: 'fog',
+  lightrain: 'drizzle', rain: 'rainy', heavyrain: 'rainy',
+  lightrainshowers: 'drizzle', rainshowers: 'rainy', heavyrainshowers: 'rainy',
+  lightsleet: 'snow', sleet: 'snow', heavysleet: 'snow',
+  lightsleetshowers: 'snow', sleetshowers: 'snow', heavysleetshowers: 'snow',
+  lightsnow: 'snow', snow: 'snow', heavysnow: 'snow',
+  lightsnowshowers: 'snow', snowshowers: 'snow', heavysnowshowers: 'snow',
+  lightrainandthunder: 'thunderstorm', rainandthunder: 'thunderstorm', heavyrainandthunder: 'thunderstorm',
+  lightrainshowersandthunder: 'thunderstorm', rainshowersandthunder: 'thunderstorm', heavyrainshowersandthunder: 'thunderstorm',
+  lightsleetandthunder: 'thunderstorm', sleetandthunder: 'thunderstorm', heavysleetandthunder: 'thunderstorm',
+  lightssleetshowersandthunder: 'thunderstorm', sleetshowersandthunder: 'thunderstorm', heavysleetshowersandthunder: 'thunderstorm',
+  lightsnowandthunder: 'thunderstorm', snowandthunder: 'thunderstorm', heavysnowandthunder: 'thunderstorm',
+  lightssnowshowersandthunder: 'thunderstorm', snowshowersandthunder: 'thunderstorm', heavysnowshowersandthunder: 'thunderstorm'
+};
+
+export interface SunTimes {
+  sunrise: string; // HH:MM local
+  sunset: string;
+}
+
+// The compact Locationforecast fields read here. Each period is present only as far ahead as MET forecasts it.
+interface MetPeriod {
+  summary: { symbol_code: string };
+  details?: { precipitation_amount?: number };
+}
+
+interface MetEntry {
+  time: string;
+  data: {
+    instant: { details: { air_temperature: number, wind_speed: number, relative_humidity: number, cloud_area_fraction?: number } };
+    next_1_hours?: MetPeriod;
+    next_6_hours?: MetPeriod;
+    next_12_hours?: MetPeriod;
+  };
+}
+
+interface MetForecastResponse {
+  properties: { timeseries: MetEntry[] };
+}
+
+const isMetEntry = (entry: unknown) =>
+  isRecord(entry) && typeof entry.time === 'string' && isRecord(entry.data) && isRecord(entry.data.instant) && isRecord(entry.data.instant.details);
+
+const isMetForecastResponse = (data: unknown): data is MetForecastResponse =>
+  isRecord(data) && isRecord(data.properties) && Array.isArray(data.properties.timeseries)
+  && data.properties.timeseries.length > 0 && data.properties.timeseries.every(isMetEntry);
+
+const splitSymbol = (symbol: string) => {
+  const [base, variant] = symbol.split('_');
+  return { base, variant };
+};
+
+// Symbols without a day/night variant (rain, fog, cloudy) fall back to the sun times for that date.
+const isDaytime = (symbol: string | undefined, time: string, sun?: SunTimes) => {
+  const variant = symbol ? splitSymbol(symbol).variant : undefined;
+  if (variant) return variant === 'day';
+  const hhmm = time.split('T')[1];
+  return sun ? hhmm >= sun.sunrise && hhmm < sun.sunset : hhmm >= '06:00' && hhmm < '18:00';
+};
+
+export const mapMetSymbolToCondition = (symbol: string | undefined): WeatherCondition =>
+  (symbol && MET_SYMBOL_CONDITIONS[splitSymbol(symbol).base]) || 'cloudy';
+
+const summaryOf = (entry: MetEntry): string | undefined =>
+  entry.data.next_1_hours?.summary.symbol_code ?? entry.data.next_6_hours?.summary.symbol_code ?? entry.data.next_12_hours?.summary.symbol_code;
+
+export const parseMetNorway = (
+  forecast: unknown,
+  sun: Record<string, SunTimes>,
+  place: SavedLocation,
+  timeZone: string,
+  now: Date = new Date()
+): WeatherData => {
+  if (!isMetForecastResponse(forecast)) throw new DataError('schema', 'MET Norway response has no forecast timeseries');
+  const entries = forecast.properties.timeseries.map(entry => ({ entry, time: toLocalIso(new Date(entry.time), timeZone) }));
+
+  // Locationforecast goes hourly for ~2.5 days, then 6-hourly; only the hourly stretch feeds the timeline.
+  const series: HourlyForecast[] = entries.flatMap(({ entry, time }) => {
+    const next = entry.data.next_1_hours;
+    if (!next) return [];
+    const details = entry.data.instant.details;
+    const symbol = next.summary.symbol_code;
+    return [{
+      time,
+      temp: details.air_temperature,
+      condition: mapMetSymbolToCondition(symbol),
+      windSpeed: details.wind_speed * MS_TO_KMH,
+      humidity: details.relative_humidity,
+      precipitation: next.details?.precipitation_amount ?? 0,
+      cloudCover: details.cloud_area_fraction,
+      isDay: isDaytime(symbol, time, sun[time.split('T')[0]])
+    }];
+  });
+
+  const byDate = new Map<string, typeof entries>();
+  entries.forEach(e => {
+    const date = e.time.split('T')[0];
+    byDate.set(date, [...(byDate.get(date) || []), e]);
+  });
+
+  const dailyForecast: DailyForecast[] = Array.from(byDate.entries()).slice(0, DAILY_WINDOW).map(([date, day]) => {
+    const temps = day.map(({ entry }) => entry.data.instant.details.air_temperature);
+    // Sum hourly amounts while they exist and 6-hourly amounts after; the 6-hourly steps don't overlap.
+    const precipitation = day.reduce((sum, { entry }) => sum + (entry.data.next_1_hours
+      ? entry.data.next_1_hours.details?.precipitation_amount ?? 0
+      : entry.data.next_6_hours?.details?.precipitation_amount ?? 0), 0);
+    const midday = day.reduce((best, e) => Math.abs(Number(e.time.slice(11, 13)) - 12) < Math.abs(Number(best.time.slice(11, 13)) - 12) ? e : best, day[0]);
+    return {
+      date,
+      tempMax: Math.max(...temps),
+      tempMin: Math.min(...temps),
+      condition: mapMetSymbolToCondition(summaryOf(midday.entry)),
+      precipitation: Math.round(precipitation * 10) / 10,
+      windSpeedMax: Math.max(...day.map(({ entry }) => entry.data.instant.details.wind_speed * MS_TO_KMH)),
+      sunrise: sun[date]?.sunrise ?? '',
+      sunset: sun[date]?.sunset ?? ''
+    };
+  });
+
+  const first = entries[0];
+  const currentTime = toLocalIso(now, timeZone);
+  const currentSymbol = summaryOf(first.entry);
+  const currentIsDay = isDaytime(currentSymbol, currentTime, sun[currentTime.split('T')[0]]);
+
+  return {
+    temp: first.entry.data.instant.details.air_temperature,
+    condition: mapMetSymbolToCondition(currentSymbol),
+    isDay: currentIsDay,
+    location: { ...place, timezone: timeZone },
+    windSpeed: first.entry.data.instant.details.wind_speed * MS_TO_KMH,
+    humidity: first.entry.data.instant.details.relative_humidity,
+    precipitation: first.entry.data.next_1_hours?.details?.precipitation_amount ?? 0,
+    cloudCover: first.entry.data.instant.details.cloud_area_fraction,
+    sunrise: dailyForecast[0]?.sunrise || undefined,
+    sunset: dailyForecast[0]?.sunset || undefined,
+    ...splitHourly(series, currentTime),
+    daily: dailyForecast,
+    source: 'met-norway'
+  };
+};
+
+// Polar day and night come back without times, as does anything unexpected; the caller falls back to symbol variants.
+const parseSunTimes = (data: unknown): SunTimes | null => {
+  const properties = isRecord(data) && isRecord(data.properties) ? data.properties : {};
+  const timeOf = (event: unknown) => isRecord(event) && typeof event.time === 'string' ? event.time : null;
+  const sunrise = timeOf(properties.sunrise);
+  const sunset = timeOf(properties.sunset);
+  return sunrise && sunset ? { sunrise: sunrise.slice(11, 16), sunset: sunset.slice(11, 16) } : null;
+};
+
+const fetchSunTimes = async (lat: number, lon: number, date: string, offset: string, signal?: AbortSignal): Promise<SunTimes | null> => {
+  // Sun times only refine day and night icons, so a failure is not worth a retry.
+  const { data } = await fetchJson(`${SUN_URL}?lat=${lat.toFixed(4)}&lon=${lon.toFixed(4)}&date=${date}&offset=${encodeURIComponent(offset)}`, { signal, retries: 0 });
+  return parseSunTimes(data);
+};
+
+export const metNorwayProvider: WeatherProvider = {
+  id: 'met-norway',
+  label: 'MET Norway',
+  fetchWeather: async (place, signal) => {
+    // MET asks for at most four decimals so responses cache well on their side.
+    const { data: forecast, response } = await fetchJson(`${FORECAST_URL}?lat=${place.lat.toFixed(4)}&lon=${place.lon.toFixed(4)}`, { signal });
+
+    const timeZone = place.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+    const now = new Date();
+    const dates = Array.from({ length: DAILY_WINDOW }, (_, i) => toLocalIso(new Date(now.getTime() + i * 86400000), timeZone).split('T')[0]);
+    const offset = utcOffset(now, timeZone);
+    const sunTimes = await Promise.all(dates.map(date => fetchSunTimes(place.lat, place.lon, date, offset, signal).catch(err => {
+      if (signal?.aborted) throw err;
+      return null;
+    })));
+
+    const sun: Record<string, SunTimes> = {};
+    dates.forEach((date, i) => {
+      const times = sunTimes[i];
+      if (times) sun[date] = times;
+    });
+    return { ...parseMetNorway(forecast, sun, place, timeZone, now), fetchedAt: fetchedAt(response) };
+  }
+};
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { mapWmoCodeToCondition, parseOpenMeteo, openMeteoProvider } from './openMeteo';
+import { DEFAULT_PLACE } from '../../constants';
+import { stubFetch } from '../../test/fetch';
+import { hourTimes } from '../../test/weather';
+import openMeteoMeixian from '../../fixtures/open-meteo-meixian.json';
+
+describe('mapWmoCodeToCondition', () => {
+  it.each([
+    [0, 'clear'], [2, 'partly-cloudy'], [3, 'cloudy'], [48, 'fog'], [57, 'drizzle'],
+    [66, 'rainy'], [77, 'snow'], [82, 'rainy'], [86, 'snow'], [99, 'thunderstorm']
+  ])('maps WMO code %i to %s', (code, condition) => {
+    expect(mapWmoCodeToCondition(code)).toBe(condition);
+  });
+
+  it('reads codes it does not know as cloudy', () => {
+    expect(mapWmoCodeToCondition(42)).toBe('cloudy');
+  });
+});
+
+describe('parseOpenMeteo', () => {
+  const data = parseOpenMeteo(openMeteoMeixian, DEFAULT_PLACE);
+
+  it('reads the current conditions', () => {
+    expect(data).toMatchObject({ temp: 18, condition: 'clear', isDay: true, humidity: 75, windSpeed: 7.3, precipitation: 0, source: 'open-meteo' });
+  });
+
+  it('starts the forecast at the current hour and keeps up to six hours before it', () => {
+    expect(data.hourly).toHaveLength(48);
+    expect(data.hourly![0].time).toBe('2026-10-18T09:00');
+    expect(data.pastHourly!.map(h => h.time)).toEqual(hourTimes('2026-10-18T03:00', 6));
+  });
+
+  it('trims daily sun times to the local clock', () => {
+    expect(data.daily).toHaveLength(7);
+    expect(data.daily![0]).toMatchObject({ date: '2026-10-18', sunrise: '06:16', sunset: '17:44', tempMax: 22.5 });
+  });
+
+  it('takes the timezone from the response when the place has none', () => {
+    const { timezone, ...place } = DEFAULT_PLACE;
+    expect(parseOpenMeteo(openMeteoMeixian, place).location.timezone).toBe('Asia/Shanghai');
+  });
+
+  it('rejects a response without its hourly columns as a schema error', () => {
+    const { hourly, ...partial } = openMeteoMeixian;
+    expect(() => parseOpenMeteo(partial, DEFAULT_PLACE)).toThrow(expect.objectContaining({ kind: 'schema' }));
+    expect(() => parseOpenMeteo({ ...openMeteoMeixian, hourly: { time: hourly.time } }, DEFAULT_PLACE)).toThrow(expect.objectContaining({ kind: 'schema' }));
+  });
+});
+
+describe('openMeteoProvider', () => {
+  it('keeps the fetch time the service worker stamped on a cached response', async () => {
+    stubFetch({ 'https://api.open-meteo.com/v1/forecast': () => Response.json(openMeteoMeixian, { headers: { 'x-atmo-fetched-at': '1760776500000' } }) });
+    const data = await openMeteoProvider.fetchWeather(DEFAULT_PLACE);
+    expect(data.fetchedAt).toBe(1760776500000);
+  });
+});
@@ -0,0 +1,127 @@
+import { WeatherData, WeatherCondition, SavedLocation, HourlyForecast, DailyForecast } from '../../types';
+import { WeatherProvider, DAILY_WINDOW, splitHourly, fetchedAt } from './provider';
+import { fetchJson, DataError } from '../http';
+import { isRecord } from './validate';
+
+const FORECAST_URL = 'https://api.open-meteo.com/v1/forecast';
+const VARIABLES = 'temperature_2m,relative_humidity_2m,is_day,precipitation,weather_code,cloud_cover,wind_speed_10m';
+const HOURLY_VARIABLES = `${VARIABLES},wind_gusts_10m`;
+
+// WMO weather interpretation codes, as documented by Open-Meteo. Freezing drizzle and rain keep their liquid
+// look; hail only ever arrives with a thunderstorm (96, 99).
+export const WMO_CONDITIONS: Record<number, WeatherCondition> = {
+  0: 'clear', 1: 'clear',
+  2: 'partly-cloudy',
+  3: 'cloudy',
+  45: 'fog', 48: 'fog',
+  51: 'drizzle', 53: 'drizzle', 55: 'drizzle', 56: 'drizzle', 57: 'drizzle',
+  61: 'rainy', 63: 'rainy', 65: 'rainy', 66: 'rainy', 67: 'rainy',
+  71: 'snow', 73: 'snow', 75: 'snow', 77: 'snow',
+  80: 'rainy', 81: 'rainy', 82: 'rainy',
+  85: 'snow', 86: 'snow',
+  95: 'thunderstorm', 96: 'thunderstorm', 99: 'thunderstorm'
+};
+
+export const mapWmoCodeToCondition = (code: number): WeatherCondition => WMO_CONDITIONS[code] ?? 'cloudy';
+
+export const buildOpenMeteoUrl = (lat: number, lon: number) =>
+  `${FORECAST_URL}?latitude=${lat}&longitude=${lon}&current=${VARIABLES}&hourly=${HOURLY_VARIABLES}&daily=weather_code,temperature_2m_max,temperature_2m_min,precipitation_sum,wind_speed_10m_max,sunrise,sunset&forecast_days=${DAILY_WINDOW}&timezone=auto`;
+
+// The fields asked for in buildOpenMeteoUrl. Readings can come back null; validateWeatherData rejects what that leaves.
+type Series = number[];
+
+interface OpenMeteoResponse {
+  timezone?: string;
+  current: {
+    time: string;
+    temperature_2m: number;
+    relative_humidity_2m: number;
+    is_day: number;
+    precipitation: number;
+    weather_code: number;
+    cloud_cover?: number | null;
+    wind_speed_10m: number;
+  };
+  hourly: {
+    time: string[];
+    temperature_2m: Series;
+    relative_humidity_2m: Series;
+    is_day: Series;
+    precipitation: Series;
+    weather_code: Series;
+    cloud_cover?: (number | null)[];
+    wind_speed_10m: Series;
+    wind_gusts_10m?: (number | null)[];
+  };
+  daily: {
+    time: string[];
+    weather_code: Series;
+    temperature_2m_max: Series;
+    temperature_2m_min: Series;
+    precipitation_sum: Series;
+    wind_speed_10m_max: Series;
+    sunrise: string[];
+    sunset: string[];
+  };
+}
+
+const hasColumns = (block: unknown, columns: string[]) => isRecord(block) && columns.every(c => Array.isArray(block[c]));
+
+const isOpenMeteoResponse = (data: unknown): data is OpenMeteoResponse =>
+  isRecord(data) && isRecord(data.current)
+  && hasColumns(data.hourly, ['time', 'temperature_2m', 'relative_humidity_2m', 'is_day', 'precipitation', 'weather_code', 'wind_speed_10m'])
+  && hasColumns(data.daily, ['time', 'weather_code', 'temperature_2m_max', 'temperature_2m_min', 'precipitation_sum', 'wind_speed_10m_max', 'sunrise', 'sunset']);
+
+export const parseOpenMeteo = (data: unknown, place: SavedLocation): WeatherData => {
+  if (!isOpenMeteoResponse(data)) throw new DataError('schema', 'Open-Meteo response is missing a current, hourly or daily block');
+  const { current, hourly, daily } = data;
+
+  // Hourly times are local to the location, as is current.time, so string order is time order.
+  const series: HourlyForecast[] = hourly.time.map((time, idx) => ({
+    time,
+    temp: hourly.temperature_2m[idx],
+    condition: mapWmoCodeToCondition(hourly.weather_code[idx]),
+    windSpeed: hourly.wind_speed_10m[idx],
+    windGusts: hourly.wind_gusts_10m?.[idx] ?? undefined,
+    humidity: hourly.relative_humidity_2m[idx],
+    precipitation: hourly.precipitation[idx],
+    cloudCover: hourly.cloud_cover?.[idx] ?? undefined,
+    isDay: hourly.is_day[idx] === 1
+  }));
+
+  const dailyForecast: DailyForecast[] = daily.time.map((date, idx) => ({
+    date,
+    tempMax: daily.temperature_2m_max[idx],
+    tempMin: daily.temperature_2m_min[idx],
+    condition: mapWmoCodeToCondition(daily.weather_code[idx]),
+    precipitation: daily.precipitation_sum[idx],
+    windSpeedMax: daily.wind_speed_10m_max[idx],
+    sunrise: daily.sunrise[idx].split('T')[1],
+    sunset: daily.sunset[idx].split('T')[1]
+  }));
+
+  return {
+    temp: current.temperature_2m,
+    condition: mapWmoCodeToCondition(current.weather_code),
+    isDay: current.is_day === 1,
+    location: { ...place, timezone: place.timezone || data.timezone },
+    windSpeed: current.wind_speed_10m,
+    humidity: current.relative_humidity_2m,
+    precipitation: current.precipitation,
+    cloudCover: current.cloud_cover ?? undefined,
+    sunrise: dailyForecast[0]?.sunrise,
+    sunset: dailyForecast[0]?.sunset,
+    ...splitHourly(series, current.time),
+    daily: dailyForecast,
+    source: 'open-meteo'
+  };
+};
+
+export const openMeteoProvider: WeatherProvider = {
+  id: 'open-meteo',
+  label: 'Open-Meteo',
+  fetchWeather: async (place, signal) => {
+    const { data, response } = await fetchJson(buildOpenMeteoUrl(place.lat, place.lon), { signal });
+    return { ...parseOpenMeteo(data, place), fetchedAt: fetchedAt(response) };
+  }
+};
@@ -0,0 +1,29 @@
+import { WeatherData, SavedLocation, HourlyForecast, WeatherProviderId } from '../../types';
+
+export const HOURLY_WINDOW = 48;
+export const PAST_HOURLY_WINDOW = 6;
+export const DAILY_WINDOW = 7;
+
+export interface WeatherProvider {
+  id: WeatherProviderId;
+  label: string; // shown in the footer as the data source
+  fetchWeather: (place: SavedLocation, signal?: AbortSignal) => Promise<WeatherData>;
+  // Replays recorded data with no network at all, so the air-quality and history feeds are not called either.
+  offline?: boolean;
+}
+
+// Set by the service worker (pwa/sw.js) on responses it stores, so answers replayed from its cache keep their real age.
+const FETCHED_AT_HEADER = 'x-atmo-fetched-at';
+
+export const fetchedAt = (response: Response): number =>
+  Number(response.headers.get(FETCHED_AT_HEADER)) || Date.now();
+
+// Splits a same-day hourly series at the current hour into the forecast window and the hours just before it.
+export const splitHourly = (series: HourlyForecast[], currentTime: string): Pick<WeatherData, 'hourly' | 'pastHourly'> => {
+  const currentHour = currentTime.slice(0, 13);
+  const firstHour = Math.max(0, series.findIndex(h => h.time.slice(0, 13) >= currentHour));
+  return {
+    hourly: series.slice(firstHour, firstHour + HOURLY_WINDOW),
+    pastHourly: series.slice(Math.max(0, firstHour - PAST_HOURLY_WINDOW), firstHour)
+  };
+};
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { validateWeatherData } from './validate';
+import { FIXTURES } from './fixture';
+import { DataError } from '../http';
+import { DEFAULT_PLACE } from '../../constants';
+import { weather, hour } from '../../test/weather';
+
+const schemaError = (value: unknown) => {
+  try {
+    validateWeatherData(value);
+  } catch (err) {
+    return err;
+  }
+  return null;
+};
+
+describe('validateWeatherData', () => {
+  it('accepts what the parsers make of the recorded responses', () => {
+    FIXTURES.forEach(f => {
+      const data = f.replay(DEFAULT_PLACE);
+      expect(validateWeatherData(data)).toBe(data);
+    });
+  });
+
+  it.each([
+    ['a missing body', null],
+    ['a NaN temperature', weather({ temp: NaN })],
+    ['an unknown condition', weather({ condition: 'sunny' as never })],
+    ['a location without coordinates', weather({ location: { id: 'x', name: 'X' } as never })],
+    ['hourly that is not a list', weather({ hourly: {} as never })],
+    ['an hour with a UTC timestamp', weather({ hourly: [hour('2026-10-18T09:00:00Z')] })],
+    ['an hour with a missing reading', weather({ hourly: [hour('2026-10-18T09:00', { precipitation: undefined as never })] })],
+    ['a past hour with a string isDay', weather({ pastHourly: [hour('2026-10-18T08:00', { isDay: 'true' as never })] })]
+  ])('rejects %s as a schema error', (_, value) => {
+    const err = schemaError(value);
+    expect(err).toBeInstanceOf(DataError);
+    expect((err as DataError).kind).toBe('schema');
+  });
+
+  it('allows the optional readings to be absent', () => {
+    expect(() => validateWeatherData(weather({ cloudCover: undefined, hourly: [hour('2026-10-18T09:00', { windGusts: undefined })] }))).not.toThrow();
+  });
+});
@@ -0,0 +1,54 @@
+import { WeatherData, WeatherCondition, HourlyForecast, DailyForecast } from '../../types';
+import { DataError } from '../http';
+
+// A record rather than a list, so adding a condition to the type fails to compile until it is accepted here too.
+const CONDITIONS: Record<WeatherCondition, true> = {
+  'clear': true, 'partly-cloudy': true, 'cloudy': true, 'hazy': true, 'fog': true,
+  'drizzle': true, 'rainy': true, 'snow': true, 'thunderstorm': true
+};
+
+const LOCAL_HOUR = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/;
+const LOCAL_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Parsers narrow upstream JSON with this far enough to walk it; what they build is then checked below.
+export const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isOptionalNumber = (value: unknown) => value === undefined || isNumber(value);
+const isCondition = (value: unknown) => typeof value === 'string' && Object.hasOwn(CONDITIONS, value);
+
+const check = (ok: boolean, field: string) => {
+  if (!ok) throw new DataError('schema', `Weather data has no valid ${field}`);
+};
+
+const checkHour = (hour: HourlyForecast, field: string) => {
+  check(typeof hour?.time === 'string' && LOCAL_HOUR.test(hour.time), `${field}.time`);
+  check(isNumber(hour.temp) && isNumber(hour.windSpeed) && isNumber(hour.humidity) && isNumber(hour.precipitation), `${field} readings`);
+  check(isOptionalNumber(hour.windGusts) && isOptionalNumber(hour.cloudCover), `${field} optional readings`);
+  check(isCondition(hour.condition) && typeof hour.isDay === 'boolean', `${field}.condition`);
+};
+
+const checkDay = (day: DailyForecast, field: string) => {
+  check(typeof day?.date === 'string' && LOCAL_DATE.test(day.date), `${field}.date`);
+  check(isNumber(day.tempMax) && isNumber(day.tempMin) && isNumber(day.precipitation) && isNumber(day.windSpeedMax), `${field} readings`);
+  check(isCondition(day.condition), `${field}.condition`);
+};
+
+// Providers build WeatherData from untyped JSON, so a changed or truncated upstream response shows up here as
+// NaN, undefined or an unknown condition. Anything the screen or the cache would trip over is a schema error.
+export const validateWeatherData = (value: unknown): WeatherData => {
+  check(typeof value === 'object' && value !== null, 'body');
+  const data = value as WeatherData;
+  const { location } = data;
+  check(typeof location?.id === 'string' && typeof location.name === 'string' && isNumber(location.lat) && isNumber(location.lon), 'location');
+  check(isNumber(data.temp) && isNumber(data.windSpeed) && isNumber(data.humidity) && isNumber(data.precipitation), 'current readings');
+  check(isOptionalNumber(data.cloudCover) && isOptionalNumber(data.fetchedAt), 'optional readings');
+  check(isCondition(data.condition) && typeof data.isDay === 'boolean', 'current condition');
+  (['hourly', 'pastHourly'] as const).forEach(field => {
+    check(data[field] === undefined || Array.isArray(data[field]), field);
+    data[field]?.forEach((hour, i) => checkHour(hour, `${field}[${i}]`));
+  });
+  check(data.daily === undefined || Array.isArray(data.daily), 'daily');
+  data.daily?.forEach((day, i) => checkDay(day, `daily[${i}]`));
+  return data;
+};
@@ -0,0 +1,13 @@
+import axe from 'axe-core';
+
+// jsdom lays nothing out, so contrast cannot be measured here; the sky palette's contrast is tested in atmosphere.test.ts.
+const OPTIONS: axe.RunOptions = { rules: { 'color-contrast': { enabled: false } } };
+
+// A full audit of the app takes seconds in jsdom, well past the default test timeout.
+export const AXE_TIMEOUT_MS = 30 * 1000;
+
+// Resolves to one line per violation, naming the rule and the offending markup, so a failure reads without a debugger.
+export const axeViolations = async (container: Element) => {
+  const { violations } = await axe.run(container, OPTIONS);
+  return violations.flatMap(v => v.nodes.map(node => `${v.id}: ${node.html}`));
+};
@@ -0,0 +1,20 @@
+import { vi } from 'vitest';
+
+export type Route = unknown | ((url: string) => Response | Promise<Response>);
+
+// Answers fetch by URL prefix: a plain value is served as a JSON body, a function builds the whole response.
+// Anything unmatched fails the way a dropped connection does.
+export const stubFetch = (routes: Record<string, Route>) => {
+  const fetch = vi.fn(async (input: string | URL | Request, init?: RequestInit) => {
+    const url = input instanceof Request ? input.url : String(input);
+    if (init?.signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+    const prefix = Object.keys(routes).find(p => url.startsWith(p));
+    if (prefix === undefined) throw new TypeError(`Failed to fetch ${url}`);
+    const route = routes[prefix];
+    return typeof route === 'function' ? route(url) : Response.json(route);
+  });
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+};
+
+export const status = (code: number) => () => new Response('', { status: code });
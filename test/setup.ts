@@ -0,0 +1,10 @@
+import { afterEach, vi } from 'vitest';
+
+// Each test starts on the real clock with empty storage and an empty document, whatever the last one left behind.
+afterEach(async () => {
+  vi.useRealTimers();
+  if (typeof document === 'undefined') return;
+  const { cleanup } = await import('@testing-library/react');
+  cleanup();
+  localStorage.clear();
+});
@@ -0,0 +1,54 @@
+import { HourlyForecast, DailyForecast, WeatherData, SavedLocation } from '../types';
+import { makePlace } from '../utils/locationStore';
+
+export const PLACE: SavedLocation = makePlace(51.5072, -0.1276, 'London', { country: 'United Kingdom', timezone: 'Europe/London' });
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Local ISO hours from `start` on; the arithmetic runs in UTC so it never meets a daylight-saving jump.
+export const hourTimes = (start: string, count: number) => {
+  const from = Date.parse(`${start}:00Z`);
+  return Array.from({ length: count }, (_, i) => new Date(from + i * HOUR_MS).toISOString().slice(0, 16));
+};
+
+// A mild, dry, still hour: every activity profile's idea of perfect, so a test only sets what it is about.
+export const hour = (time: string, overrides: Partial<HourlyForecast> = {}): HourlyForecast => ({
+  time,
+  temp: 21,
+  condition: 'clear',
+  windSpeed: 5,
+  humidity: 50,
+  precipitation: 0,
+  isDay: true,
+  ...overrides
+});
+
+export const hours = (start: string, count: number, overrides: (time: string, i: number) => Partial<HourlyForecast> = () => ({})) =>
+  hourTimes(start, count).map((time, i) => hour(time, overrides(time, i)));
+
+export const day = (date: string, overrides: Partial<DailyForecast> = {}): DailyForecast => ({
+  date,
+  tempMax: 24,
+  tempMin: 14,
+  condition: 'clear',
+  precipitation: 0,
+  windSpeedMax: 10,
+  sunrise: '05:00',
+  sunset: '21:00',
+  ...overrides
+});
+
+export const weather = (overrides: Partial<WeatherData> = {}): WeatherData => ({
+  temp: 21,
+  condition: 'clear',
+  isDay: true,
+  location: PLACE,
+  windSpeed: 5,
+  humidity: 50,
+  precipitation: 0,
+  hourly: [],
+  pastHourly: [],
+  daily: [],
+  source: 'open-meteo',
+  ...overrides
+});
@@ -1,18 +1,294 @@
-export type WeatherCondition = 'clear' | 'cloudy' | 'rainy' | 'night' | 'hazy';
+// Sky state only; whether it is day or night travels separately as `isDay`.
+export type WeatherCondition =
+  | 'clear'
+  | 'partly-cloudy'
+  | 'cloudy'
+  | 'hazy'
+  | 'fog'
+  | 'drizzle'
+  | 'rainy'
+  | 'snow'
+  | 'thunderstorm';
+
+export type TimeOfDay = 'day' | 'night';
+
+export interface AtmosphericTheme {
+  background: string; // CSS background
+  text: string; // CSS colour, readable over every part of `background`
+  stops: string[]; // the background's colours top to bottom, for drawing it outside CSS
+}
+
+// Sky colours at one solar altitude, zenith first and horizon last.
+export interface SkyKeyframe {
+  altitude: number; // degrees
+  stops: string[]; // hex
+}
+
+// What a condition lays over the sky beyond plain cloud: dust, mist, rain or snow light.
+export interface SkyTint {
+  day: string; // hex
+  night: string;
+  amount: number; // 0–1 mix toward the tint
+}
+
+export interface HourlyForecast {
+  time: string; // local ISO, e.g. 2024-05-01T14:00
+  temp: number;
+  condition: WeatherCondition;
+  windSpeed: number; // km/h
+  windGusts?: number; // km/h, only from providers that report gusts
+  humidity: number;
+  precipitation: number; // mm
+  cloudCover?: number; // %, only from providers that report it
+  isDay: boolean;
+}
+
+export interface DailyForecast {
+  date: string; // local ISO date, e.g. 2024-05-01
+  tempMax: number;
+  tempMin: number;
+  condition: WeatherCondition;
+  precipitation: number; // mm, daily sum
+  windSpeedMax: number; // km/h
+  sunrise: string;
+  sunset: string;
+}
 
 export interface WeatherData {
   temp: number;
   condition: WeatherCondition;
-  location: string;
+  isDay: boolean;
+  location: SavedLocation;
   windSpeed: number; // km/h
   humidity: number;
   precipitation: number; // mm
+  cloudCover?: number; // %
   sunrise?: string;
   sunset?: string;
+  hourly?: HourlyForecast[]; // next 48h, starting at the current hour
+  pastHourly?: HourlyForecast[]; // up to 6h before the current hour, same day only
+  daily?: DailyForecast[]; // 7 days, starting today
+  airQuality?: AirQuality; // from the air-quality service, when it answered alongside the forecast
+  source?: WeatherProviderId;
+  fetchedAt?: number; // ms epoch the upstream response was fetched; older than now when served from the offline cache
+}
+
+export type PollenKind = 'alder' | 'birch' | 'grass' | 'mugwort' | 'olive' | 'ragweed';
+
+// A reading the service has no model output for at the place and hour is left out rather than shown as zero.
+export interface AirQuality {
+  aqi?: number; // US EPA index, 0-500
+  pm2_5?: number; // µg/m³
+  pm10?: number; // µg/m³
+  ozone?: number; // µg/m³
+  uvIndex?: number;
+  pollen: Partial<Record<PollenKind, number>>; // grains/m³; empty outside the pollen model's coverage (Europe)
+}
+
+export interface SavedLocation {
+  id: string;
+  name: string;
+  admin1?: string; // state / province / region
+  country?: string;
+  timezone?: string;
+  population?: number;
+  lat: number;
+  lon: number;
+}
+
+export interface CachedWeather {
+  data: WeatherData;
+  timestamp: number;
+}
+
+export interface TimeSpan {
+  start: number; // ms epoch
+  end: number; // ms epoch
+}
+
+// Computed locally (utils/astronomy.ts). Times are ms epoch; an event is null on days the sun never reaches that
+// altitude, as around the poles.
+export interface SolarDay {
+  date: string; // local ISO date
+  solarNoon: number;
+  sunrise: number | null;
+  sunset: number | null;
+  civilDawn: number | null;
+  civilDusk: number | null;
+  nauticalDawn: number | null;
+  nauticalDusk: number | null;
+  goldenHourMorning: TimeSpan | null;
+  goldenHourEvening: TimeSpan | null;
+  dayLength: number; // ms of sun above the horizon
+  polar?: 'day' | 'night'; // the sun neither rises nor sets
+}
+
+export type MoonPhaseName =
+  | 'new'
+  | 'waxing-crescent'
+  | 'first-quarter'
+  | 'waxing-gibbous'
+  | 'full'
+  | 'waning-gibbous'
+  | 'last-quarter'
+  | 'waning-crescent';
+
+export interface MoonDay {
+  phase: number; // 0 new, 0.25 first quarter, 0.5 full, 0.75 last quarter
+  illumination: number; // lit fraction of the disc, 0-1
+  phaseName: MoonPhaseName;
+  rise: number | null; // ms epoch; null when the moon doesn't rise that local day
+  set: number | null;
+}
+
+// One finished day at a place, from the recent-history feed (not a forecast).
+export interface HistoryDay {
+  date: string; // local ISO date
+  tempMax: number;
+  tempMin: number;
+  precipitation: number; // mm, daily sum
+}
+
+// The multi-year average for one calendar day, smoothed over the days either side.
+export interface ClimateNormal {
+  tempMax: number;
+  tempMin: number;
+  precipitation: number; // mm per day
+}
+
+export interface ClimateNormals {
+  startYear: number;
+  endYear: number;
+  days: Record<string, ClimateNormal>; // keyed by "MM-DD"
+}
+
+export interface CachedHistory<T> {
+  data: T;
+  timestamp: number;
+}
+
+export type AlertKind = 'gust' | 'precipitation' | 'heat' | 'frost' | 'thunderstorm';
+
+export interface AlertThresholds {
+  gust: number; // km/h
+  precipitation: number; // mm in a single hour
+  heat: number; // °C
+  frost: number; // °C
+  thunderstorm: boolean;
+}
+
+export interface WeatherAlert {
+  id: string; // place, kind and local date; stable across refreshes
+  kind: AlertKind;
+  placeId: string;
+  placeName: string;
+  start: string; // local ISO hour of the first matching hour
+  end: string; // local ISO hour of the last matching hour
+  peak: number; // metric: km/h, mm, °C
+}
+
+export type ReverseGeocoderId = 'offline' | 'osm' | 'gemini';
+
+export type WeatherProviderId = 'open-meteo' | 'met-norway' | 'fixture';
+
+export type TemperatureUnit = 'celsius' | 'fahrenheit';
+export type WindUnit = 'kmh' | 'mph' | 'ms' | 'knots';
+export type PrecipitationUnit = 'mm' | 'inch';
+export type TimeFormat = '24h' | '12h';
+export type Language = 'en' | 'zh' | 'de';
+
+// Display preferences only; data and thresholds are stored metric and converted in utils/units.ts.
+export interface UnitPreferences {
+  temperature: TemperatureUnit;
+  wind: WindUnit;
+  precipitation: PrecipitationUnit;
+  timeFormat: TimeFormat;
+}
+
+export type BriefingSourceId = 'off' | 'template' | 'gemini';
+
+export interface AppSettings {
+  reverseGeocoder: ReverseGeocoderId;
+  weatherProvider: WeatherProviderId;
+  units: UnitPreferences;
+  language: Language;
+  briefing: BriefingSourceId;
 }
 
 export interface AppState {
   weather: WeatherData;
   isEink: boolean;
-  isUnitCelsius: boolean;
-}
\ No newline at end of file
+  units: UnitPreferences;
+}
+
+export type ActivityPenaltyKind = 'rain' | 'drying' | 'wind' | 'breeze' | 'still' | 'extreme-temp' | 'temp' | 'muggy' | 'humid' | 'dark';
+
+export interface ActivityProfile {
+  id: string;
+  name: string;
+  title?: string; // card heading, defaults to "<name> Conditions"
+  custom?: boolean; // user-defined, persisted locally
+  requiresDaylight: boolean;
+  temp: { min: number; max: number; idealMin: number; idealMax: number; weight: number }; // °C
+  wind: { min?: number; calm: number; max: number; weight: number }; // km/h; min flags air that is too still
+  humidity: { idealMax: number; max: number; weight: number }; // %
+  precipitation: { max: number; weight: number; dryingSensitive: boolean }; // mm/h tolerated
+  status?: Partial<Record<ActivityPenaltyKind | 'best' | 'good', string>>; // message keys
+}
+
+export interface ActivityPenalty {
+  kind: ActivityPenaltyKind;
+  points: number;
+  // What tripped it, metric: mm for rain, hours since rain for drying, km/h, °C or %; unused for dark.
+  value: number;
+  below?: boolean; // temperature penalties: too cold rather than too hot
+}
+
+export interface ActivityScore {
+  score: number; // 0-100
+  status: string; // message key
+  label: string; // message key
+  color: string;
+  penalties: ActivityPenalty[]; // largest first
+}
+
+export interface ActivitySlot {
+  time: string;
+  score: ActivityScore;
+}
+
+export interface ActivityWindow {
+  date: string;
+  start: string; // HH:MM
+  end: string; // HH:MM, exclusive
+  score: number;
+  slots: ActivitySlot[];
+}
+
+export interface RainSpell {
+  start: string; // HH:MM
+  end: string; // HH:MM, exclusive
+  total: number; // mm
+}
+
+// What a briefing says, taken from the rest of the day at the place (or the next day, late in the evening). Metric.
+export interface BriefingFacts {
+  place: string;
+  date: string; // local ISO date covered
+  isTomorrow: boolean;
+  from: string; // HH:MM, first hour covered
+  until: string; // HH:MM, exclusive
+  condition: WeatherCondition;
+  temp: number;
+  high: number;
+  low: number;
+  rain: RainSpell[];
+  breezyFrom: string | null; // HH:MM
+  maxWind: number; // km/h
+  court: ActivityWindow | null; // best tennis window, if any is good enough
+}
+
+export interface Briefing {
+  text: string;
+  source: Exclude<BriefingSourceId, 'off'>;
+}
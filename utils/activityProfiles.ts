@@ -0,0 +1,51 @@
+import { ActivityProfile } from '../types';
+import { ACTIVITY_PROFILES } from '../constants';
+
+const CUSTOM_PROFILES_KEY = 'atmo_activity_profiles_v1';
+const VISIBLE_CARDS_KEY = 'atmo_activity_cards_v1';
+const DEFAULT_VISIBLE = ['tennis'];
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) as T : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const loadCustomProfiles = (): ActivityProfile[] =>
+  readJson<ActivityProfile[]>(CUSTOM_PROFILES_KEY, []).map(p => ({ ...p, custom: true }));
+
+export const saveCustomProfiles = (profiles: ActivityProfile[]) => {
+  localStorage.setItem(CUSTOM_PROFILES_KEY, JSON.stringify(profiles.filter(p => p.custom)));
+};
+
+export const loadVisibleCards = (): string[] => readJson<string[]>(VISIBLE_CARDS_KEY, DEFAULT_VISIBLE);
+
+export const saveVisibleCards = (ids: string[]) => {
+  localStorage.setItem(VISIBLE_CARDS_KEY, JSON.stringify(ids));
+};
+
+export const allProfiles = (custom: ActivityProfile[]): ActivityProfile[] => [...ACTIVITY_PROFILES, ...custom];
+
+const slugify = (name: string) => name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'activity';
+
+// Custom profiles start as a copy of an existing one so every threshold has a sensible value.
+export const createCustomProfile = (name: string, base: ActivityProfile, existing: ActivityProfile[]): ActivityProfile => {
+  const slug = `custom-${slugify(name)}`;
+  let id = slug;
+  for (let n = 2; existing.some(p => p.id === id); n++) id = `${slug}-${n}`;
+  return {
+    ...base,
+    temp: { ...base.temp },
+    wind: { ...base.wind },
+    humidity: { ...base.humidity },
+    precipitation: { ...base.precipitation },
+    title: undefined,
+    status: undefined,
+    id,
+    name: name.trim(),
+    custom: true
+  };
+};
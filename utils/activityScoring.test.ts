@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { scoreActivity, getDryingContext, courtDryingHours, findActivityWindows, scoreActivityHours } from './activityScoring';
+import { TENNIS_PROFILE } from '../constants';
+import { hour, hours, day } from '../test/weather';
+
+const IDEAL = { temp: 21, windSpeed: 5, precipitation: 0, humidity: 50 };
+
+describe('scoreActivity', () => {
+  it('scores ideal conditions as perfect with the profile\'s own wording', () => {
+    expect(scoreActivity(TENNIS_PROFILE, IDEAL)).toMatchObject({ score: 100, status: 'status.elite-play', label: 'rating.perfect', penalties: [] });
+  });
+
+  it('lets rain dominate the status', () => {
+    const wet = scoreActivity(TENNIS_PROFILE, { ...IDEAL, precipitation: 0.4, windSpeed: 15 });
+    expect(wet.status).toBe('status.courts-wet');
+    expect(wet.penalties.map(p => p.kind)).toEqual(['rain', 'breeze']);
+    expect(wet.score).toBe(100 - 80 - 7);
+  });
+
+  it('marks cold and heat beyond the limits as extreme, with the side it falls on', () => {
+    expect(scoreActivity(TENNIS_PROFILE, { ...IDEAL, temp: 5 }).penalties[0]).toMatchObject({ kind: 'extreme-temp', below: true, points: 50 });
+    expect(scoreActivity(TENNIS_PROFILE, { ...IDEAL, temp: 38 }).penalties[0]).toMatchObject({ kind: 'extreme-temp', below: false });
+  });
+
+  it('scales the penalty for a warm hour by the distance from ideal', () => {
+    expect(scoreActivity(TENNIS_PROFILE, { ...IDEAL, temp: 26 }).penalties[0]).toMatchObject({ kind: 'temp', points: 8, below: false });
+  });
+
+  it('rules out play after dark', () => {
+    expect(scoreActivity(TENNIS_PROFILE, IDEAL, { isDaylight: false })).toMatchObject({ score: 0, status: 'status.dark' });
+  });
+
+  it('keeps courts wet for a while after rain stops', () => {
+    const drying = { hoursSinceRain: 1, recentRain: 3 };
+    const score = scoreActivity(TENNIS_PROFILE, IDEAL, { drying });
+    expect(score.status).toBe('status.courts-drying');
+    expect(scoreActivity(TENNIS_PROFILE, IDEAL, { drying: { hoursSinceRain: 3, recentRain: 3 } }).score).toBe(100);
+  });
+});
+
+describe('drying', () => {
+  it('takes longer after heavy rain in cold, damp air', () => {
+    expect(courtDryingHours(0.3, 20, 50)).toBe(1);
+    expect(courtDryingHours(6, 8, 90)).toBe(5);
+  });
+
+  it('looks back from the hour for the most recent rain', () => {
+    const series = hours('2026-10-18T06:00', 8, (_, i) => ({ precipitation: i === 2 ? 1.5 : i === 4 ? 0.5 : 0 }));
+    expect(getDryingContext(series, 7)).toEqual({ hoursSinceRain: 3, recentRain: 2 });
+    expect(getDryingContext(series, 2)).toEqual({ hoursSinceRain: null, recentRain: 0 });
+  });
+});
+
+// A windy afternoon today, and a wet start to tomorrow that leaves the courts drying until 14:00.
+const PLANNER_HOURS = hours('2026-10-18T09:00', 57, time => ({
+  windSpeed: time >= '2026-10-18T12:00' && time < '2026-10-19' ? 32 : 5,
+  precipitation: time === '2026-10-19T09:00' || time === '2026-10-19T10:00' ? 3 : 0
+}));
+
+describe('findActivityWindows', () => {
+  const daily = [day('2026-10-18', { sunrise: '07:00', sunset: '18:00' }), day('2026-10-19', { sunrise: '07:00', sunset: '18:00' })];
+
+  it('prefers one long window over several single hours', () => {
+    const [best] = findActivityWindows(TENNIS_PROFILE, hours('2026-10-18T09:00', 6), daily);
+    expect(best).toMatchObject({ date: '2026-10-18', start: '09:00', end: '12:00', score: 100 });
+  });
+
+  it('never spans darkness, rain or midnight', () => {
+    const hourly = hours('2026-10-18T16:00', 12, time => ({ precipitation: time.endsWith('T20:00') ? 2 : 0 }));
+    const windows = findActivityWindows(TENNIS_PROFILE, hourly, daily, [], { limit: 10 });
+    expect(windows.map(w => `${w.start}-${w.end}`)).toEqual(['16:00-18:00']);
+  });
+
+  it('ranks windows for today and tomorrow only, best first, one to three hours long', () => {
+    const threeDays = [...daily, day('2026-10-20', { sunrise: '07:00', sunset: '18:00' })];
+    const windows = findActivityWindows(TENNIS_PROFILE, PLANNER_HOURS, threeDays);
+    expect(windows.map(w => [w.date, w.start, w.end, w.score])).toEqual([
+      ['2026-10-18', '09:00', '12:00', 100],
+      ['2026-10-19', '14:00', '17:00', 100],
+      ['2026-10-19', '07:00', '09:00', 100]
+    ]);
+  });
+
+  it('counts rain in the hours before the forecast window when scoring drying courts', () => {
+    const past = [hour('2026-10-18T08:00', { precipitation: 4 })];
+    const [first] = scoreActivityHours(TENNIS_PROFILE, hours('2026-10-18T09:00', 3), daily, past);
+    expect(first.score.status).toBe('status.courts-drying');
+  });
+});
@@ -0,0 +1,205 @@
+import { HourlyForecast, DailyForecast, ActivityProfile, ActivityPenalty, ActivityPenaltyKind, ActivityScore, ActivitySlot, ActivityWindow } from '../types';
+
+export interface ActivityConditions {
+  temp: number;
+  windSpeed: number; // km/h
+  precipitation: number; // mm
+  humidity: number;
+}
+
+export interface DryingContext {
+  hoursSinceRain: number | null; // null when no rain in the lookback
+  recentRain: number; // mm over the lookback
+}
+
+export interface ActivityScoreOptions {
+  drying?: DryingContext;
+  isDaylight?: boolean;
+}
+
+export interface ActivityWindowOptions {
+  days?: number;
+  maxHours?: number;
+  limit?: number;
+}
+
+const DRYING_LOOKBACK = 6;
+const MIN_WINDOW_HOUR_SCORE = 30;
+
+// Message keys (see i18n/); profiles override them per activity.
+const DEFAULT_STATUS: Record<ActivityPenaltyKind | 'best' | 'good', string> = {
+  best: 'status.best',
+  good: 'status.good',
+  rain: 'status.rain',
+  drying: 'status.drying',
+  wind: 'status.wind',
+  breeze: 'status.breeze',
+  still: 'status.still',
+  'extreme-temp': 'status.extreme-temp',
+  temp: 'status.good',
+  muggy: 'status.muggy',
+  humid: 'status.humid',
+  dark: 'status.dark'
+};
+
+// Hard surfaces shed light drizzle within the hour; heavier rain, damp air and cold all slow that down.
+export const courtDryingHours = (recentRain: number, temp: number, humidity: number): number => {
+  let hours = recentRain >= 1 ? 2 : 1;
+  if (recentRain >= 5) hours += 1;
+  if (humidity >= 80) hours += 1;
+  if (temp < 12) hours += 1;
+  return hours;
+};
+
+export const getDryingContext = (series: HourlyForecast[], index: number, lookback = DRYING_LOOKBACK): DryingContext => {
+  let hoursSinceRain: number | null = null;
+  let recentRain = 0;
+  for (let j = 1; j <= lookback && index - j >= 0; j++) {
+    const precipitation = series[index - j].precipitation;
+    if (precipitation > 0) {
+      recentRain += precipitation;
+      if (hoursSinceRain === null) hoursSinceRain = j;
+    }
+  }
+  return { hoursSinceRain, recentRain };
+};
+
+const rate = (score: number): Pick<ActivityScore, 'label' | 'color'> => {
+  if (score >= 90) return { label: 'rating.perfect', color: 'bg-emerald-400' };
+  if (score >= 70) return { label: 'rating.solid', color: 'bg-emerald-300' };
+  if (score >= 45) return { label: 'rating.okay', color: 'bg-amber-400' };
+  if (score >= 30) return { label: 'rating.fair', color: 'bg-amber-400' };
+  return { label: 'rating.poor', color: 'bg-red-400' };
+};
+
+export const scoreActivity = (profile: ActivityProfile, conditions: ActivityConditions, options: ActivityScoreOptions = {}): ActivityScore => {
+  const { temp, windSpeed, precipitation, humidity } = conditions;
+  const penalties: ActivityPenalty[] = [];
+  const push = (kind: ActivityPenaltyKind, value: number, points: number, weight = 1, below?: boolean) => {
+    const weighted = Math.round(points * weight);
+    if (weighted > 0) penalties.push({ kind, points: weighted, value, ...(below !== undefined && { below }) });
+  };
+
+  if (profile.requiresDaylight && options.isDaylight === false) {
+    push('dark', 0, 100);
+  }
+
+  const rain = profile.precipitation;
+  if (precipitation > rain.max) {
+    push('rain', precipitation, 80, rain.weight);
+  } else if (rain.dryingSensitive && options.drying && options.drying.hoursSinceRain !== null) {
+    const { hoursSinceRain, recentRain } = options.drying;
+    const dryingHours = courtDryingHours(recentRain, temp, humidity);
+    if (hoursSinceRain <= dryingHours) {
+      push('drying', hoursSinceRain, 50 * (dryingHours - hoursSinceRain + 1) / dryingHours, rain.weight);
+    }
+  }
+
+  const wind = profile.wind;
+  if (windSpeed > wind.max) {
+    push('wind', windSpeed, 60, wind.weight);
+  } else if (windSpeed > wind.calm) {
+    push('breeze', windSpeed, (windSpeed - wind.calm) / (wind.max - wind.calm) * 20, wind.weight);
+  } else if (wind.min !== undefined && windSpeed < wind.min) {
+    push('still', windSpeed, (wind.min - windSpeed) / wind.min * 20, wind.weight);
+  }
+
+  const t = profile.temp;
+  if (temp < t.min || temp > t.max) {
+    push('extreme-temp', temp, 50, t.weight, temp < t.min);
+  } else if (temp < t.idealMin || temp > t.idealMax) {
+    const distance = temp < t.idealMin ? t.idealMin - temp : temp - t.idealMax;
+    push('temp', temp, Math.min(20, distance * 4), t.weight, temp < t.idealMin);
+  }
+
+  const h = profile.humidity;
+  if (humidity > h.max) {
+    push('muggy', humidity, 30, h.weight);
+  } else if (humidity > h.idealMax) {
+    push('humid', humidity, (humidity - h.idealMax) / (h.max - h.idealMax) * 15, h.weight);
+  }
+
+  penalties.sort((a, b) => b.points - a.points);
+  const status = { ...DEFAULT_STATUS, ...profile.status };
+  const score = Math.max(0, 100 - penalties.reduce((sum, p) => sum + p.points, 0));
+  return {
+    score,
+    status: score >= 90 ? status.best
+      : penalties[0] && penalties[0].points >= 40 ? status[penalties[0].kind]
+      : status.good,
+    penalties,
+    ...rate(score)
+  };
+};
+
+const addHour = (hhmm: string) => `${String((Number(hhmm.slice(0, 2)) + 1) % 24).padStart(2, '0')}:00`;
+
+// An hour counts as daylight when its midpoint falls between sunrise and sunset.
+const isDaylightHour = (time: string, day?: DailyForecast) => {
+  if (!day || !day.sunrise || !day.sunset) return true;
+  const midpoint = `${time.split('T')[1].slice(0, 2)}:30`;
+  return midpoint >= day.sunrise && midpoint <= day.sunset;
+};
+
+export const scoreActivityHours = (
+  profile: ActivityProfile,
+  hourly: HourlyForecast[],
+  daily: DailyForecast[],
+  pastHourly: HourlyForecast[] = []
+): ActivitySlot[] => {
+  const series = [...pastHourly, ...hourly];
+  const days = new Map(daily.map(d => [d.date, d]));
+  return hourly.map((hour, i) => ({
+    time: hour.time,
+    score: scoreActivity(profile, hour, {
+      drying: getDryingContext(series, pastHourly.length + i),
+      isDaylight: isDaylightHour(hour.time, days.get(hour.time.split('T')[0]))
+    })
+  }));
+};
+
+export const findActivityWindows = (
+  profile: ActivityProfile,
+  hourly: HourlyForecast[],
+  daily: DailyForecast[],
+  pastHourly: HourlyForecast[] = [],
+  { days = 2, maxHours = 3, limit = 3 }: ActivityWindowOptions = {}
+): ActivityWindow[] => {
+  const dates = new Set(daily.slice(0, days).map(d => d.date));
+  const slots = scoreActivityHours(profile, hourly, daily, pastHourly);
+
+  const candidates: { from: number; to: number; score: number }[] = [];
+  slots.forEach((slot, from) => {
+    const date = slot.time.split('T')[0];
+    if (!dates.has(date)) return;
+    let total = 0;
+    for (let to = from; to < slots.length && to - from < maxHours; to++) {
+      const next = slots[to];
+      if (!next.time.startsWith(date) || next.score.score < MIN_WINDOW_HOUR_SCORE) break;
+      total += next.score.score;
+      candidates.push({ from, to, score: Math.round(total / (to - from + 1)) });
+    }
+  });
+
+  // Longer windows win ties so a flawless afternoon reads as one session rather than three single hours.
+  candidates.sort((a, b) => b.score - a.score || (b.to - b.from) - (a.to - a.from) || a.from - b.from);
+
+  const taken = new Set<number>();
+  const windows: ActivityWindow[] = [];
+  for (const c of candidates) {
+    if (windows.length >= limit) break;
+    let overlaps = false;
+    for (let i = c.from; i <= c.to; i++) if (taken.has(i)) overlaps = true;
+    if (overlaps) continue;
+    for (let i = c.from; i <= c.to; i++) taken.add(i);
+    const windowSlots = slots.slice(c.from, c.to + 1);
+    windows.push({
+      date: windowSlots[0].time.split('T')[0],
+      start: windowSlots[0].time.split('T')[1],
+      end: addHour(windowSlots[windowSlots.length - 1].time.split('T')[1]),
+      score: c.score,
+      slots: windowSlots
+    });
+  }
+  return windows;
+};
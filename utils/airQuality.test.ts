@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { healthBand, bandCount, HAZE_PM2_5 } from './airQuality';
+import { withAirQuality } from '../services/airQuality';
+import { weather, hours } from '../test/weather';
+
+describe('healthBand', () => {
+  it.each([
+    ['pm2_5', 9.0, 0], ['pm2_5', 9.1, 1], ['pm2_5', HAZE_PM2_5, 2],
+    ['aqi', 50, 0], ['aqi', 500, 5], ['uv', 2.9, 0], ['uv', 11, 4], ['grass', 25, 2]
+  ] as const)('puts %s %f in band %i', (metric, value, level) => {
+    expect(healthBand(metric, value).level).toBe(level);
+  });
+
+  it('labels the top band of each scale', () => {
+    expect(healthBand('aqi', 999)).toEqual({ level: 5, label: 'band.hazardous' });
+    expect(healthBand('uv', 15).label).toBe('band.uv-extreme');
+    expect(bandCount('birch')).toBe(4);
+  });
+});
+
+describe('withAirQuality', () => {
+  const report = (pm2_5: number, hourlyPm2_5: Record<string, number> = {}) => ({
+    current: { aqi: 120, pm2_5, pm10: 60, ozone: 80, uvIndex: 3, pollen: {} },
+    hourlyPm2_5
+  });
+
+  it('turns a clear or cloudy sky hazy under heavy particulates', () => {
+    expect(withAirQuality(weather({ condition: 'cloudy' }), report(40)).condition).toBe('hazy');
+    expect(withAirQuality(weather({ condition: 'clear' }), report(20)).condition).toBe('clear');
+  });
+
+  it('leaves rain, snow and fog alone', () => {
+    expect(withAirQuality(weather({ condition: 'rainy' }), report(80)).condition).toBe('rainy');
+  });
+
+  it('matches forecast hours to readings by local time', () => {
+    const hourly = hours('2026-10-18T09:00', 3);
+    const result = withAirQuality(weather({ hourly }), report(10, { '2026-10-18T10:00': 50 }));
+    expect(result.hourly!.map(h => h.condition)).toEqual(['clear', 'hazy', 'clear']);
+    expect(result.airQuality?.aqi).toBe(120);
+  });
+});
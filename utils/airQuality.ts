@@ -0,0 +1,51 @@
+import { PollenKind } from '../types';
+
+export type AirMetric = 'aqi' | 'pm2_5' | 'pm10' | 'ozone' | 'uv' | PollenKind;
+
+export interface HealthBand {
+  level: number; // 0 is harmless; also indexes BAND_COLORS, so equal levels look alike across metrics
+  label: string; // message key
+}
+
+interface BandScale {
+  limits: number[]; // upper bound (exclusive) of each band but the last
+  labels: string[];
+}
+
+const EPA_LABELS = ['band.good', 'band.moderate', 'band.sensitive', 'band.unhealthy', 'band.very-unhealthy', 'band.hazardous'];
+const UV_LABELS = ['band.uv-low', 'band.uv-moderate', 'band.uv-high', 'band.uv-very-high', 'band.uv-extreme'];
+const POLLEN_LABELS = ['band.pollen-low', 'band.pollen-moderate', 'band.pollen-high', 'band.pollen-very-high'];
+
+// US EPA breakpoints for the index and particulates (PM2.5 as revised in 2024); ozone's ppb bands converted at
+// 1.96 µg/m³ per ppb; WHO UV categories. Pollen bands follow the usual tree / grass / weed count scales.
+const SCALES: Record<AirMetric, BandScale> = {
+  aqi: { limits: [51, 101, 151, 201, 301], labels: EPA_LABELS },
+  pm2_5: { limits: [9.1, 35.5, 55.5, 125.5, 225.5], labels: EPA_LABELS },
+  pm10: { limits: [55, 155, 255, 355, 425], labels: EPA_LABELS },
+  ozone: { limits: [108, 139, 169, 208, 394], labels: EPA_LABELS },
+  uv: { limits: [3, 6, 8, 11], labels: UV_LABELS },
+  alder: { limits: [15, 90, 1500], labels: POLLEN_LABELS },
+  birch: { limits: [15, 90, 1500], labels: POLLEN_LABELS },
+  olive: { limits: [15, 90, 1500], labels: POLLEN_LABELS },
+  grass: { limits: [5, 20, 200], labels: POLLEN_LABELS },
+  mugwort: { limits: [10, 50, 500], labels: POLLEN_LABELS },
+  ragweed: { limits: [10, 50, 500], labels: POLLEN_LABELS }
+};
+
+// The EPA palette: green, yellow, orange, red, purple, maroon.
+export const BAND_COLORS = ['bg-emerald-400', 'bg-yellow-300', 'bg-orange-400', 'bg-red-500', 'bg-purple-500', 'bg-rose-900'];
+
+export const POLLEN_KINDS: PollenKind[] = ['alder', 'birch', 'grass', 'mugwort', 'olive', 'ragweed'];
+
+// Above this PM2.5 (µg/m³, where the EPA's "unhealthy for sensitive groups" starts) a clear or cloudy sky reads as hazy.
+export const HAZE_PM2_5 = 35.5;
+
+export const healthBand = (metric: AirMetric, value: number): HealthBand => {
+  const { limits, labels } = SCALES[metric];
+  const index = limits.findIndex(limit => value < limit);
+  const level = index < 0 ? limits.length : index;
+  return { level, label: labels[level] };
+};
+
+// How many bands the metric has, for drawing its meter.
+export const bandCount = (metric: AirMetric) => SCALES[metric].labels.length;
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateAlerts, recordAlerts, dismissAlert, thresholdsFor, DEFAULT_ALERT_THRESHOLDS } from './alerts';
+import { weather, hours, PLACE } from '../test/weather';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('evaluateAlerts', () => {
+  it('raises one alert per kind and day, spanning the hours that breach and naming the peak', () => {
+    const hourly = hours('2026-10-18T12:00', 18, (time) => ({
+      windGusts: time.endsWith('T14:00') ? 75 : time.endsWith('T16:00') ? 82 : 20
+    }));
+    const alerts = evaluateAlerts(weather({ hourly }), DEFAULT_ALERT_THRESHOLDS);
+    expect(alerts).toEqual([{
+      id: `${PLACE.id}:gust:2026-10-18`,
+      kind: 'gust',
+      placeId: PLACE.id,
+      placeName: 'London',
+      start: '2026-10-18T14:00',
+      end: '2026-10-18T16:00',
+      peak: 82
+    }]);
+  });
+
+  it('falls back to sustained wind where a provider reports no gusts', () => {
+    const hourly = hours('2026-10-18T12:00', 2, () => ({ windSpeed: 72 }));
+    expect(evaluateAlerts(weather({ hourly }), DEFAULT_ALERT_THRESHOLDS).map(a => a.kind)).toEqual(['gust']);
+  });
+
+  it('reports the coldest hour as the frost peak', () => {
+    const hourly = hours('2026-10-18T02:00', 4, (_, i) => ({ temp: [-1, -3, -2, 1][i] }));
+    expect(evaluateAlerts(weather({ hourly }), DEFAULT_ALERT_THRESHOLDS)[0]).toMatchObject({ kind: 'frost', peak: -3, end: '2026-10-18T04:00' });
+  });
+
+  it('respects a place\'s own thresholds, including turning thunderstorms off', () => {
+    const hourly = hours('2026-10-18T12:00', 2, () => ({ condition: 'thunderstorm', temp: 30 }));
+    const own = thresholdsFor({ [PLACE.id]: { ...DEFAULT_ALERT_THRESHOLDS, heat: 28, thunderstorm: false } }, PLACE.id);
+    expect(evaluateAlerts(weather({ hourly }), own).map(a => a.kind)).toEqual(['heat']);
+  });
+});
+
+describe('alert log', () => {
+  const [alert] = evaluateAlerts(weather({ hourly: hours('2026-10-18T12:00', 1, () => ({ temp: 36 })) }), DEFAULT_ALERT_THRESHOLDS);
+
+  it('records an alert once and keeps the time it was first raised', () => {
+    const first = recordAlerts({}, [alert], 1000);
+    expect(recordAlerts(first, [alert], 5000)[alert.id]).toEqual({ raised: 1000 });
+  });
+
+  it('forgets entries once their day is long past', () => {
+    const log = dismissAlert(recordAlerts({}, [alert], 0), alert.id);
+    expect(log[alert.id]).toEqual({ raised: 0, dismissed: true });
+    expect(recordAlerts(log, [], 4 * DAY_MS)).toEqual({});
+  });
+});
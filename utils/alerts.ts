@@ -0,0 +1,148 @@
+import { AlertKind, AlertThresholds, HourlyForecast, WeatherAlert, WeatherData } from '../types';
+import type { Locale } from '../i18n';
+
+const THRESHOLDS_KEY = 'atmo_alert_thresholds_v1';
+const ALERT_LOG_KEY = 'atmo_alert_log_v1';
+const LOG_RETENTION_MS = 3 * 24 * 60 * 60 * 1000;
+
+export const DEFAULT_ALERT_THRESHOLDS: AlertThresholds = {
+  gust: 70,
+  precipitation: 10,
+  heat: 35,
+  frost: 0,
+  thunderstorm: true
+};
+
+// Metric bounds for what the settings accept; anything outside would alert on ordinary weather or never at all.
+export const ALERT_THRESHOLD_RANGES: Record<'gust' | 'precipitation' | 'heat' | 'frost', { min: number; max: number }> = {
+  gust: { min: 20, max: 250 },
+  precipitation: { min: 1, max: 200 },
+  heat: { min: 20, max: 60 },
+  frost: { min: -40, max: 10 }
+};
+
+export interface AlertLogEntry {
+  raised: number; // when the alert was first seen; notifications only go out once
+  dismissed?: boolean;
+}
+
+export type AlertLog = Record<string, AlertLogEntry>;
+
+// Titles and messages come from the message catalog (`alert.<kind>.*`), with the peak shown in the user's units.
+interface AlertRule {
+  // The hour's value when it breaches the threshold, otherwise null.
+  match: (hour: HourlyForecast, thresholds: AlertThresholds) => number | null;
+  // Whether a larger value is worse; frost peaks at the coldest hour.
+  rising: boolean;
+}
+
+const ALERT_RULES: Record<AlertKind, AlertRule> = {
+  gust: {
+    // Providers without gust data fall back to the sustained wind, which only ever under-reports.
+    match: (h, t) => (h.windGusts ?? h.windSpeed) >= t.gust ? h.windGusts ?? h.windSpeed : null,
+    rising: true
+  },
+  precipitation: {
+    match: (h, t) => h.precipitation >= t.precipitation ? h.precipitation : null,
+    rising: true
+  },
+  heat: {
+    match: (h, t) => h.temp >= t.heat ? h.temp : null,
+    rising: true
+  },
+  frost: {
+    match: (h, t) => h.temp <= t.frost ? h.temp : null,
+    rising: false
+  },
+  thunderstorm: {
+    match: (h, t) => t.thunderstorm && h.condition === 'thunderstorm' ? 1 : null,
+    rising: true
+  }
+};
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) as T : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const loadAlertThresholds = (): Record<string, AlertThresholds> =>
+  readJson<Record<string, AlertThresholds>>(THRESHOLDS_KEY, {});
+
+export const saveAlertThresholds = (thresholds: Record<string, AlertThresholds>) => {
+  localStorage.setItem(THRESHOLDS_KEY, JSON.stringify(thresholds));
+};
+
+// Merged over the defaults so places saved before a rule existed still get it.
+export const thresholdsFor = (thresholds: Record<string, AlertThresholds>, placeId: string): AlertThresholds =>
+  ({ ...DEFAULT_ALERT_THRESHOLDS, ...thresholds[placeId] });
+
+// One alert per place, kind and day: however the hours shift between refreshes, the id stays put, which is what
+// keeps a 30-minute refresh from raising the same event again.
+export const evaluateAlerts = (weather: WeatherData, thresholds: AlertThresholds): WeatherAlert[] => {
+  const alerts: WeatherAlert[] = [];
+  (Object.keys(ALERT_RULES) as AlertKind[]).forEach(kind => {
+    const rule = ALERT_RULES[kind];
+    const byDate = new Map<string, { hour: HourlyForecast; value: number }[]>();
+    (weather.hourly || []).forEach(hour => {
+      const value = rule.match(hour, thresholds);
+      if (value === null) return;
+      const date = hour.time.split('T')[0];
+      byDate.set(date, [...(byDate.get(date) || []), { hour, value }]);
+    });
+
+    byDate.forEach((hits, date) => {
+      const values = hits.map(h => h.value);
+      const peak = rule.rising ? Math.max(...values) : Math.min(...values);
+      const start = hits[0].hour.time;
+      const end = hits[hits.length - 1].hour.time;
+      alerts.push({
+        id: `${weather.location.id}:${kind}:${date}`,
+        kind,
+        placeId: weather.location.id,
+        placeName: weather.location.name,
+        start,
+        end,
+        peak
+      });
+    });
+  });
+  return alerts.sort((a, b) => a.start.localeCompare(b.start));
+};
+
+export const loadAlertLog = (): AlertLog => readJson<AlertLog>(ALERT_LOG_KEY, {});
+
+export const saveAlertLog = (log: AlertLog) => {
+  localStorage.setItem(ALERT_LOG_KEY, JSON.stringify(log));
+};
+
+// Records newly seen alerts and forgets ones old enough that their day has passed.
+export const recordAlerts = (log: AlertLog, alerts: WeatherAlert[], now = Date.now()): AlertLog => {
+  const next: AlertLog = {};
+  Object.entries(log).forEach(([id, entry]) => {
+    if (now - entry.raised < LOG_RETENTION_MS) next[id] = entry;
+  });
+  alerts.forEach(a => {
+    if (!next[a.id]) next[a.id] = { raised: now };
+  });
+  return next;
+};
+
+export const dismissAlert = (log: AlertLog, id: string): AlertLog =>
+  ({ ...log, [id]: { raised: log[id]?.raised ?? Date.now(), dismissed: true } });
+
+export const canNotify = () => typeof Notification !== 'undefined';
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission> =>
+  canNotify() ? Notification.requestPermission() : 'denied';
+
+export const notifyAlerts = (alerts: WeatherAlert[], locale: Locale) => {
+  if (!canNotify() || Notification.permission !== 'granted') return;
+  alerts.forEach(a => {
+    // The tag lets the browser collapse a repeat if two tabs raise the same alert.
+    new Notification(`${locale.alertTitle(a)} · ${a.placeName}`, { body: locale.alertMessage(a), tag: a.id });
+  });
+};
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { computeSolarDay, computeMoonDay, moonPhase, isSunUp } from './astronomy';
+
+const MINUTE = 60 * 1000;
+const at = (iso: string) => Date.parse(iso);
+const LONDON = { lat: 51.5072, lon: -0.1276 };
+
+const expectNear = (actual: number | null | undefined, iso: string, tolerance: number) => {
+  expect(actual).not.toBeNull();
+  expect(Math.abs(actual! - at(iso))).toBeLessThan(tolerance);
+};
+
+// Reference times from the NOAA solar calculator, which the module should match to a minute or two.
+describe('computeSolarDay', () => {
+  it('matches NOAA for London at the June solstice', () => {
+    const london = computeSolarDay('2024-06-21', 51.5072, -0.1276);
+    expect(Math.abs(london.sunrise! - at('2024-06-21T03:43Z'))).toBeLessThan(2 * MINUTE);
+    expect(Math.abs(london.sunset! - at('2024-06-21T20:21Z'))).toBeLessThan(2 * MINUTE);
+    expect(Math.abs(london.solarNoon - at('2024-06-21T12:02Z'))).toBeLessThan(2 * MINUTE);
+    expect(london.civilDawn!).toBeLessThan(london.sunrise!);
+    expect(london.polar).toBeUndefined();
+  });
+
+  // Twilight and golden-hour bounds from astronomy-engine's altitude search; it gives NOAA's sunrise and sunset above.
+  it('matches the reference twilight and golden-hour times for London at the June solstice', () => {
+    const london = computeSolarDay('2024-06-21', LONDON.lat, LONDON.lon);
+    expectNear(london.nauticalDawn, '2024-06-21T01:40Z', 2 * MINUTE);
+    expectNear(london.civilDawn, '2024-06-21T02:55Z', 2 * MINUTE);
+    expectNear(london.civilDusk, '2024-06-21T21:09Z', 2 * MINUTE);
+    expectNear(london.nauticalDusk, '2024-06-21T22:24Z', 2 * MINUTE);
+    expectNear(london.goldenHourMorning?.start, '2024-06-21T03:14Z', 2 * MINUTE);
+    expectNear(london.goldenHourMorning?.end, '2024-06-21T04:37Z', 2 * MINUTE);
+    expectNear(london.goldenHourEvening?.start, '2024-06-21T19:27Z', 2 * MINUTE);
+    expectNear(london.goldenHourEvening?.end, '2024-06-21T20:49Z', 2 * MINUTE);
+  });
+
+  it('finds the local day east of the date line, with sunrise on the previous UTC date', () => {
+    const sydney = computeSolarDay('2024-06-21', -33.8688, 151.2093);
+    expect(Math.abs(sydney.sunrise! - at('2024-06-20T21:00Z'))).toBeLessThan(2 * MINUTE);
+    expect(Math.abs(sydney.sunset! - at('2024-06-21T06:54Z'))).toBeLessThan(2 * MINUTE);
+  });
+
+  it('reports polar day and night instead of times', () => {
+    const summer = computeSolarDay('2024-06-21', 69.6492, 18.9553);
+    const winter = computeSolarDay('2024-12-21', 69.6492, 18.9553);
+    expect(summer).toMatchObject({ polar: 'day', sunrise: null, sunset: null, dayLength: 24 * 60 * MINUTE });
+    expect(winter).toMatchObject({ polar: 'night', sunrise: null, dayLength: 0 });
+    // The sun never clears +6° in the Arctic winter, so golden hour runs up to noon.
+    expect(computeSolarDay('2024-12-01', 65, 25).goldenHourMorning?.end).toBe(computeSolarDay('2024-12-01', 65, 25).solarNoon);
+  });
+
+  it('agrees with isSunUp either side of sunrise', () => {
+    const { sunrise } = computeSolarDay('2024-03-20', 40.7128, -74.006);
+    expect(isSunUp(sunrise! - 5 * MINUTE, 40.7128, -74.006)).toBe(false);
+    expect(isSunUp(sunrise! + 5 * MINUTE, 40.7128, -74.006)).toBe(true);
+  });
+});
+
+// Reference rise and set times from astronomy-engine for London's local (BST) days. The 10-minute scan and the
+// simplified lunar orbit put the module within a few minutes of them.
+describe('computeMoonDay', () => {
+  const moonDay = (date: string) => computeMoonDay(date, LONDON.lat, LONDON.lon, 'Europe/London');
+
+  it('finds moonrise and moonset in either order', () => {
+    const waxing = moonDay('2024-06-14');
+    expectNear(waxing.set, '2024-06-14T00:25Z', 10 * MINUTE);
+    expectNear(waxing.rise, '2024-06-14T12:06Z', 10 * MINUTE);
+    const full = moonDay('2024-06-21');
+    expectNear(full.set, '2024-06-21T02:24Z', 10 * MINUTE);
+    expectNear(full.rise, '2024-06-21T20:44Z', 10 * MINUTE);
+  });
+
+  it('reports no moonrise on a day the moon does not rise', () => {
+    const day = moonDay('2024-06-25');
+    expect(day.rise).toBeNull();
+    expectNear(day.set, '2024-06-25T07:16Z', 10 * MINUTE);
+    // It rises just after the local midnight that ends the 25th.
+    expectNear(moonDay('2024-06-26').rise, '2024-06-25T23:07Z', 10 * MINUTE);
+  });
+
+  it('reports no moonset on a day the moon does not set', () => {
+    const day = moonDay('2024-06-09');
+    expect(day.set).toBeNull();
+    expectNear(day.rise, '2024-06-09T05:56Z', 10 * MINUTE);
+  });
+});
+
+// Moments of full and new moon from the USNO phase tables.
+describe('moonPhase', () => {
+  it('is full at the June 2024 full moon', () => {
+    const full = moonPhase(at('2024-06-22T01:08Z'));
+    expect(full.phaseName).toBe('full');
+    expect(full.phase).toBeCloseTo(0.5, 2);
+    expect(full.illumination).toBeGreaterThan(0.999);
+  });
+
+  it('is new at the June 2024 new moon', () => {
+    const fresh = moonPhase(at('2024-06-06T12:38Z'));
+    expect(fresh.phaseName).toBe('new');
+    expect(fresh.illumination).toBeLessThan(0.001);
+  });
+
+  it('waxes between new and full', () => {
+    expect(moonPhase(at('2024-06-14T05:18Z')).phaseName).toBe('first-quarter');
+  });
+});
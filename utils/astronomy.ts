@@ -0,0 +1,165 @@
+import { SolarDay, MoonDay, MoonPhaseName, TimeSpan } from '../types';
+import { zonedTimeToUtc } from './time';
+
+// Low-precision solar and lunar positions (after Meeus and the Astronomical Almanac): a minute or two for the sun and
+// a few minutes for the moon, which is as fine as a forecast app shows them.
+
+const RAD = Math.PI / 180;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const J1970 = 2440587.5;
+const J2000 = 2451545;
+const OBLIQUITY = 23.4397 * RAD;
+
+// Altitudes (degrees) that define each event. Sunrise includes refraction and the sun's radius; the moon's also
+// allows for its parallax, which is large enough to matter.
+export const SUNRISE_ALTITUDE = -0.833;
+const CIVIL_ALTITUDE = -6;
+const NAUTICAL_ALTITUDE = -12;
+const GOLDEN_HOUR_LOW = -4;
+const GOLDEN_HOUR_HIGH = 6;
+const MOONRISE_ALTITUDE = 0.125;
+const MOON_SCAN_STEP_MS = 10 * 60 * 1000;
+
+const PHASE_NAMES: MoonPhaseName[] = [
+  'new', 'waxing-crescent', 'first-quarter', 'waxing-gibbous', 'full', 'waning-gibbous', 'last-quarter', 'waning-crescent'
+];
+
+const toDays = (ms: number) => ms / DAY_MS + J1970 - J2000;
+const fromJulian = (jd: number) => (jd - J1970) * DAY_MS;
+const wrap = (degrees: number) => ((degrees % 360) + 360) % 360;
+
+const solarLongitude = (days: number) => {
+  const m = (357.5291 + 0.98560028 * days) * RAD;
+  const center = 1.9148 * Math.sin(m) + 0.02 * Math.sin(2 * m) + 0.0003 * Math.sin(3 * m);
+  return { anomaly: m, longitude: (357.5291 + 0.98560028 * days + center + 180 + 102.9372) * RAD };
+};
+
+const equatorial = (longitude: number, latitude = 0) => ({
+  rightAscension: Math.atan2(Math.sin(longitude) * Math.cos(OBLIQUITY) - Math.tan(latitude) * Math.sin(OBLIQUITY), Math.cos(longitude)),
+  declination: Math.asin(Math.sin(latitude) * Math.cos(OBLIQUITY) + Math.cos(latitude) * Math.sin(OBLIQUITY) * Math.sin(longitude))
+});
+
+const altitude = (days: number, lat: number, lon: number, rightAscension: number, declination: number) => {
+  const hourAngle = (280.16 + 360.9856235 * days + lon) * RAD - rightAscension;
+  const phi = lat * RAD;
+  return Math.asin(Math.sin(phi) * Math.sin(declination) + Math.cos(phi) * Math.cos(declination) * Math.cos(hourAngle)) / RAD;
+};
+
+const moonPosition = (days: number) => {
+  const l = (218.316 + 13.176396 * days) * RAD;
+  const m = (134.963 + 13.064993 * days) * RAD;
+  const f = (93.272 + 13.22935 * days) * RAD;
+  return { longitude: l + 6.289 * RAD * Math.sin(m), latitude: 5.128 * RAD * Math.sin(f) };
+};
+
+// Degrees above the horizon, geometric (no refraction).
+export const sunAltitude = (at: number, lat: number, lon: number) => {
+  const days = toDays(at);
+  const { rightAscension, declination } = equatorial(solarLongitude(days).longitude);
+  return altitude(days, lat, lon, rightAscension, declination);
+};
+
+export const moonAltitude = (at: number, lat: number, lon: number) => {
+  const days = toDays(at);
+  const { longitude, latitude } = moonPosition(days);
+  const { rightAscension, declination } = equatorial(longitude, latitude);
+  return altitude(days, lat, lon, rightAscension, declination);
+};
+
+// Degrees per hour, positive while the sun climbs; from an hour-wide central difference.
+export const sunClimb = (at: number, lat: number, lon: number) =>
+  sunAltitude(at + HOUR_MS / 2, lat, lon) - sunAltitude(at - HOUR_MS / 2, lat, lon);
+
+export const isSunUp = (at: number, lat: number, lon: number) => sunAltitude(at, lat, lon) > SUNRISE_ALTITUDE;
+
+// `date` is the local calendar date at the place; the transit found is the one nearest that date's local noon.
+export const computeSolarDay = (date: string, lat: number, lon: number): SolarDay => {
+  const [y, m, d] = date.split('-').map(Number);
+  const jStar = Math.round(toDays(Date.UTC(y, m - 1, d, 12))) - lon / 360;
+  const { anomaly, longitude } = solarLongitude(jStar);
+  const transit = J2000 + jStar + 0.0053 * Math.sin(anomaly) - 0.0069 * Math.sin(2 * longitude);
+  const declination = Math.asin(Math.sin(longitude) * Math.sin(OBLIQUITY));
+  const phi = lat * RAD;
+
+  // Returns the [rising, setting] pair for an altitude, or which way the sun stays if it never crosses it.
+  const crossing = (altitudeDeg: number): [number, number] | 'above' | 'below' => {
+    const cos = (Math.sin(altitudeDeg * RAD) - Math.sin(phi) * Math.sin(declination)) / (Math.cos(phi) * Math.cos(declination));
+    if (cos > 1) return 'below';
+    if (cos < -1) return 'above';
+    const offset = Math.acos(cos) / RAD / 360;
+    return [fromJulian(transit - offset), fromJulian(transit + offset)];
+  };
+  const times = (altitudeDeg: number) => {
+    const c = crossing(altitudeDeg);
+    return Array.isArray(c) ? c : [null, null] as const;
+  };
+
+  const solarNoon = fromJulian(transit);
+  const horizon = crossing(SUNRISE_ALTITUDE);
+  const [sunrise, sunset] = times(SUNRISE_ALTITUDE);
+  const [civilDawn, civilDusk] = times(CIVIL_ALTITUDE);
+  const [nauticalDawn, nauticalDusk] = times(NAUTICAL_ALTITUDE);
+
+  // Golden hour runs from -4° to +6°. On winter days the sun never climbs past +6°, so it lasts until noon and resumes after.
+  const low = crossing(GOLDEN_HOUR_LOW);
+  const high = crossing(GOLDEN_HOUR_HIGH);
+  let goldenHourMorning: TimeSpan | null = null;
+  let goldenHourEvening: TimeSpan | null = null;
+  if (Array.isArray(low)) {
+    goldenHourMorning = { start: low[0], end: Array.isArray(high) ? high[0] : solarNoon };
+    goldenHourEvening = { start: Array.isArray(high) ? high[1] : solarNoon, end: low[1] };
+  }
+
+  return {
+    date,
+    solarNoon,
+    sunrise,
+    sunset,
+    civilDawn,
+    civilDusk,
+    nauticalDawn,
+    nauticalDusk,
+    goldenHourMorning,
+    goldenHourEvening,
+    dayLength: Array.isArray(horizon) ? horizon[1] - horizon[0] : horizon === 'above' ? DAY_MS : 0,
+    ...(!Array.isArray(horizon) && { polar: horizon === 'above' ? 'day' as const : 'night' as const })
+  };
+};
+
+// Phase and illumination from the moon's elongation from the sun, at the given instant.
+export const moonPhase = (at: number): Pick<MoonDay, 'phase' | 'illumination' | 'phaseName'> => {
+  const days = toDays(at);
+  const elongation = wrap((moonPosition(days).longitude - solarLongitude(days).longitude) / RAD);
+  const phase = elongation / 360;
+  return {
+    phase,
+    illumination: (1 - Math.cos(elongation * RAD)) / 2,
+    phaseName: PHASE_NAMES[Math.round(phase * 8) % 8]
+  };
+};
+
+// The moon has no tidy closed form, so the local day is scanned for horizon crossings and each is interpolated.
+export const computeMoonDay = (date: string, lat: number, lon: number, timeZone?: string): MoonDay => {
+  const start = zonedTimeToUtc(`${date}T00:00`, timeZone);
+  const [y, m, d] = date.split('-').map(Number);
+  const next = new Date(Date.UTC(y, m - 1, d + 1)).toISOString().slice(0, 10);
+  const end = zonedTimeToUtc(`${next}T00:00`, timeZone);
+
+  let rise: number | null = null;
+  let set: number | null = null;
+  let prevTime = start;
+  let prev = moonAltitude(start, lat, lon) - MOONRISE_ALTITUDE;
+  for (let t = start + MOON_SCAN_STEP_MS; t <= end && (rise === null || set === null); t += MOON_SCAN_STEP_MS) {
+    const current = moonAltitude(t, lat, lon) - MOONRISE_ALTITUDE;
+    if ((prev < 0) !== (current < 0)) {
+      const crossedAt = prevTime + (t - prevTime) * prev / (prev - current);
+      if (current >= 0 && rise === null) rise = crossedAt;
+      if (current < 0 && set === null) set = crossedAt;
+    }
+    prev = current;
+    prevTime = t;
+  }
+
+  return { ...moonPhase((start + end) / 2), rise, set };
+};
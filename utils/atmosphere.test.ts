@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { buildAtmosphere, contrastRatio, CONTRAST_TARGET } from './atmosphere';
+import { WeatherCondition } from '../types';
+
+const CONDITIONS: WeatherCondition[] = ['clear', 'partly-cloudy', 'cloudy', 'hazy', 'fog', 'drizzle', 'rainy', 'snow', 'thunderstorm'];
+const ALTITUDES = [-30, -12, -6, -2, 0, 3, 8, 20, 45, 70];
+
+const rgb = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
+
+describe('buildAtmosphere', () => {
+  it('keeps the text readable over every stop of every sky', () => {
+    CONDITIONS.forEach(condition => ALTITUDES.forEach(altitude => [-10, 10].forEach(climb => {
+      const theme = buildAtmosphere({ altitude, climb, condition });
+      theme.stops.forEach(stop => expect(contrastRatio(rgb(stop), rgb(theme.text))).toBeGreaterThanOrEqual(CONTRAST_TARGET));
+    })));
+  });
+
+  it('uses dark text by day and light text at night', () => {
+    expect(buildAtmosphere({ altitude: 45, climb: 5, condition: 'clear' }).text).toBe('#1c1917');
+    expect(buildAtmosphere({ altitude: -30, climb: -5, condition: 'clear' }).text).toBe('#f5f5f4');
+  });
+
+  it('greys the sky as cloud cover rises', () => {
+    const saturation = (hex: string) => Math.max(...rgb(hex)) - Math.min(...rgb(hex));
+    const clear = buildAtmosphere({ altitude: 40, climb: 5, condition: 'clear', cloudCover: 0 });
+    const overcast = buildAtmosphere({ altitude: 40, climb: 5, condition: 'clear', cloudCover: 100 });
+    expect(saturation(overcast.stops[0])).toBeLessThan(saturation(clear.stops[0]));
+  });
+
+  it('draws the background from the same stops it reports', () => {
+    const theme = buildAtmosphere({ altitude: 2, climb: -8, condition: 'partly-cloudy' });
+    expect(theme.background).toBe(`linear-gradient(180deg, ${theme.stops.join(', ')})`);
+  });
+});
@@ -0,0 +1,144 @@
+import { AtmosphericTheme, SkyKeyframe, WeatherCondition, WeatherData, SavedLocation } from '../types';
+import { SKY_DAWN, SKY_DUSK, OVERCAST, SKY_TINTS } from '../constants';
+import { sunAltitude, sunClimb } from './astronomy';
+
+type Rgb = [number, number, number];
+
+// WCAG AA for body text.
+export const CONTRAST_TARGET = 4.5;
+
+export const EINK_THEME: AtmosphericTheme = { background: '#ffffff', text: '#000000', stops: ['#ffffff'] };
+
+const LIGHT_TEXT = '#f5f5f4';
+const DARK_TEXT = '#1c1917';
+
+// How far each blend segment is checked between its stops: sRGB blends can dip darker than either end.
+const SEGMENT_SAMPLES = 8;
+const SETTLE_STEPS = 16;
+
+// A sun climbing or sinking this fast (°/h) takes the full dawn or dusk palette; slower, near a polar
+// midnight or noon, it blends the two so the sky never flips at the turning point.
+const FULL_TREND_RATE = 4;
+
+// Daylight fades the overcast and condition tints between these altitudes (°).
+const TINT_NIGHT = -10;
+const TINT_DAY = 8;
+
+// Cloud cover assumed when the provider reports none.
+const CONDITION_CLOUD_COVER: Record<WeatherCondition, number> = {
+  clear: 5,
+  'partly-cloudy': 45,
+  cloudy: 90,
+  hazy: 20,
+  fog: 100,
+  drizzle: 90,
+  rainy: 100,
+  snow: 95,
+  thunderstorm: 100
+};
+
+export interface SkyState {
+  altitude: number; // sun, degrees
+  climb: number; // °/h, positive while rising
+  condition: WeatherCondition;
+  cloudCover?: number; // %
+}
+
+const clamp01 = (v: number) => Math.min(Math.max(v, 0), 1);
+
+const parseHex = (hex: string): Rgb => {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+const toHex = (rgb: Rgb) => `#${rgb.map(c => Math.round(c).toString(16).padStart(2, '0')).join('')}`;
+
+const mix = (a: Rgb, b: Rgb, t: number): Rgb => [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t];
+
+const linear = (c: number) => {
+  const v = c / 255;
+  return v <= 0.03928 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+};
+
+export const relativeLuminance = ([r, g, b]: Rgb) => 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+
+export const contrastRatio = (a: Rgb, b: Rgb) => {
+  const [hi, lo] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (hi + 0.05) / (lo + 0.05);
+};
+
+// Stops at an altitude, linear between the keyframes either side and held beyond the ends.
+const sample = (keyframes: SkyKeyframe[], altitude: number): Rgb[] => {
+  const next = keyframes.findIndex(k => k.altitude > altitude);
+  if (next === 0) return keyframes[0].stops.map(parseHex);
+  if (next === -1) return keyframes[keyframes.length - 1].stops.map(parseHex);
+  const [a, b] = [keyframes[next - 1], keyframes[next]];
+  const t = (altitude - a.altitude) / (b.altitude - a.altitude);
+  return a.stops.map((stop, i) => mix(parseHex(stop), parseHex(b.stops[i]), t));
+};
+
+// The lowest contrast with `text` anywhere along the gradient, not just at its stops.
+const worstContrast = (stops: Rgb[], text: Rgb) => {
+  let worst = Infinity;
+  for (let i = 0; i < stops.length - 1; i++) {
+    for (let k = 0; k <= SEGMENT_SAMPLES; k++) {
+      worst = Math.min(worst, contrastRatio(mix(stops[i], stops[i + 1], k / SEGMENT_SAMPLES), text));
+    }
+  }
+  return stops.length === 1 ? contrastRatio(stops[0], text) : worst;
+};
+
+// The smallest push toward `anchor` that passes. At a full push every stop is the anchor, which always passes.
+const settle = (passes: (t: number) => boolean) => {
+  if (passes(0)) return 0;
+  let [lo, hi] = [0, 1];
+  for (let i = 0; i < SETTLE_STEPS; i++) {
+    const mid = (lo + hi) / 2;
+    if (passes(mid)) hi = mid;
+    else lo = mid;
+  }
+  return hi;
+};
+
+// Darkens (for light text) or lightens (for dark text) just the stops that fall short, then the whole gradient
+// if a blend between two passing stops still dips below the target. Stops are rounded as they are pushed, so
+// what is checked is exactly what gets rendered.
+const ensureContrast = (stops: Rgb[], text: Rgb, anchor: Rgb): Rgb[] => {
+  const toward = (stop: Rgb, t: number) => mix(stop, anchor, t).map(Math.round) as Rgb;
+  const each = stops.map(stop => toward(stop, settle(t => contrastRatio(toward(stop, t), text) >= CONTRAST_TARGET)));
+  const whole = settle(t => worstContrast(each.map(stop => toward(stop, t)), text) >= CONTRAST_TARGET);
+  return each.map(stop => toward(stop, whole));
+};
+
+export const buildAtmosphere = ({ altitude, climb, condition, cloudCover }: SkyState): AtmosphericTheme => {
+  const rising = clamp01(0.5 + climb / (2 * FULL_TREND_RATE));
+  const dawn = sample(SKY_DAWN, altitude);
+  const dusk = sample(SKY_DUSK, altitude);
+  const daylight = clamp01((altitude - TINT_NIGHT) / (TINT_DAY - TINT_NIGHT));
+
+  const cover = clamp01((cloudCover ?? CONDITION_CLOUD_COVER[condition]) / 100);
+  const overcast = mix(parseHex(OVERCAST.night), parseHex(OVERCAST.day), daylight);
+  const tint = SKY_TINTS[condition];
+
+  const stops = dusk.map((stop, i) => {
+    const sky = mix(stop, dawn[i], rising);
+    const clouded = mix(sky, overcast, cover * OVERCAST.amount);
+    return tint ? mix(clouded, mix(parseHex(tint.night), parseHex(tint.day), daylight), tint.amount) : clouded;
+  });
+
+  const light = parseHex(LIGHT_TEXT);
+  const dark = parseHex(DARK_TEXT);
+  const useLight = worstContrast(stops, light) >= worstContrast(stops, dark);
+  const readable = ensureContrast(stops, useLight ? light : dark, useLight ? [0, 0, 0] : [255, 255, 255]);
+
+  const stopsHex = readable.map(toHex);
+  return {
+    background: `linear-gradient(180deg, ${stopsHex.join(', ')})`,
+    text: useLight ? LIGHT_TEXT : DARK_TEXT,
+    stops: stopsHex
+  };
+};
+
+// The sky over a place at a moment, with the sun where it actually is then.
+export const atmosphereAt = (at: number, { lat, lon }: SavedLocation, { condition, cloudCover }: Pick<WeatherData, 'condition' | 'cloudCover'>) =>
+  buildAtmosphere({ altitude: sunAltitude(at, lat, lon), climb: sunClimb(at, lat, lon), condition, cloudCover });
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { buildBriefingFacts, renderBriefing, buildBriefingPrompt } from './briefing';
+import { createLocale } from '../i18n';
+import { METRIC_UNITS, US_UNITS } from './units';
+import { weather, hours, day } from '../test/weather';
+
+const en = createLocale('en', METRIC_UNITS);
+const daily = [day('2026-10-18', { tempMax: 21.4, sunrise: '07:00', sunset: '18:00' }), day('2026-10-19', { tempMax: 19, sunrise: '07:00', sunset: '18:00' })];
+// Rain from 15:00 to 18:00 and a breeze from 13:00 on the first day.
+const forecast = weather({
+  hourly: hours('2026-10-18T00:00', 48, time => {
+    const h = Number(time.slice(11, 13));
+    const today = time.startsWith('2026-10-18');
+    return { precipitation: today && h >= 15 && h < 18 ? 1.2 : 0, windSpeed: today && h >= 13 ? 24 : 5 };
+  }),
+  daily
+});
+
+describe('buildBriefingFacts', () => {
+  it('covers the rest of today from the current hour', () => {
+    const facts = buildBriefingFacts(forecast, '2026-10-18T07')!;
+    expect(facts).toMatchObject({ date: '2026-10-18', isTomorrow: false, from: '07:00', until: '00:00', high: 21.4, breezyFrom: '13:00' });
+    expect(facts.rain).toEqual([{ start: '15:00', end: '18:00', total: 3.6 }]);
+    expect(facts.court).toMatchObject({ start: '07:00', end: '10:00' });
+  });
+
+  it('switches to tomorrow in the evening', () => {
+    expect(buildBriefingFacts(forecast, '2026-10-18T21')).toMatchObject({ date: '2026-10-19', isTomorrow: true, from: '00:00', rain: [] });
+  });
+
+  it('has nothing to say without hourly data', () => {
+    expect(buildBriefingFacts(weather(), '2026-10-18T07')).toBeNull();
+  });
+});
+
+describe('renderBriefing', () => {
+  it('writes a one-line summary in the user\'s language and units', () => {
+    const facts = buildBriefingFacts(forecast, '2026-10-18T07')!;
+    expect(renderBriefing(facts, en)).toBe('Dry until 15:00, breezy after 13:00, high of 21°, best court window 07:00–10:00.');
+    expect(renderBriefing(facts, createLocale('de', METRIC_UNITS))).toBe('Trocken bis 15:00, windig ab 13:00, bis 21°, bestes Platzfenster 07:00–10:00.');
+    expect(renderBriefing(facts, createLocale('en', US_UNITS))).toContain('high of 71°');
+  });
+
+  it('says when rain is already falling', () => {
+    expect(renderBriefing(buildBriefingFacts(forecast, '2026-10-18T16')!, en)).toMatch(/^Rain until 18:00, breezy, high of 21°/);
+  });
+
+  it('prefixes tomorrow\'s briefing', () => {
+    expect(renderBriefing(buildBriefingFacts(forecast, '2026-10-18T21')!, en)).toMatch(/^Tomorrow: Dry, high of 19°/);
+  });
+});
+
+describe('buildBriefingPrompt', () => {
+  it('hands the model the facts already in the reader\'s units, with the template as an example', () => {
+    const facts = buildBriefingFacts(forecast, '2026-10-18T07')!;
+    const prompt = buildBriefingPrompt(facts, createLocale('en', US_UNITS));
+    expect(JSON.parse(prompt.facts)).toMatchObject({ place: 'London', day: 'today', high: '71°' });
+    expect(JSON.parse(prompt.facts).breezyFrom).toMatch(/^1:00\sPM$/);
+    expect(prompt.instructions).toContain(renderBriefing(facts, createLocale('en', US_UNITS)));
+  });
+});
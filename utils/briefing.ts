@@ -0,0 +1,112 @@
+import { WeatherData, HourlyForecast, BriefingFacts, RainSpell } from '../types';
+import type { Locale } from '../i18n';
+import { LANGUAGE_NAMES } from '../i18n';
+import { TENNIS_PROFILE } from '../constants';
+import { findActivityWindows } from './activityScoring';
+
+// What the model is asked to write from; the facts are already in the reader's units and clock.
+export interface BriefingPrompt {
+  instructions: string;
+  facts: string; // JSON
+}
+
+// Hourly rain below this is a trace that would not stop play or wet a commute.
+const RAIN_MM = 0.2;
+const BREEZY_KMH = 20;
+// From this local hour the rest of today is too short to brief on, so tomorrow is covered instead.
+const LOOK_AHEAD_HOUR = 20;
+const MIN_COURT_SCORE = 60;
+
+const hhmm = (time: string) => time.split('T')[1];
+const nextHour = (time: string) => `${String((Number(time.slice(11, 13)) + 1) % 24).padStart(2, '0')}:00`;
+
+const rainSpells = (hours: HourlyForecast[]): RainSpell[] => {
+  const spells: RainSpell[] = [];
+  let current: RainSpell | null = null;
+  hours.forEach((hour, i) => {
+    const wet = hour.precipitation >= RAIN_MM;
+    if (wet && current && hours[i - 1]?.precipitation >= RAIN_MM) {
+      current.end = nextHour(hour.time);
+      current.total += hour.precipitation;
+    } else if (wet) {
+      current = { start: hhmm(hour.time), end: nextHour(hour.time), total: hour.precipitation };
+      spells.push(current);
+    }
+  });
+  return spells.map(s => ({ ...s, total: Math.round(s.total * 10) / 10 }));
+};
+
+// `hour` is the place's local hour, e.g. 2024-05-01T07: a briefing is written once per hour, not per refresh.
+export const buildBriefingFacts = (weather: WeatherData, hour: string): BriefingFacts | null => {
+  const hourly = weather.hourly || [];
+  const daily = weather.daily || [];
+  const today = hour.slice(0, 10);
+  const isTomorrow = Number(hour.slice(11, 13)) >= LOOK_AHEAD_HOUR;
+  const date = isTomorrow ? daily.find(d => d.date > today)?.date : today;
+  const hours = hourly.filter(h => h.time.startsWith(`${date}T`) && h.time.slice(0, 13) >= hour);
+  if (!date || hours.length === 0) return null;
+
+  const day = daily.find(d => d.date === date);
+  const temps = hours.map(h => h.temp);
+  const breezy = hours.find(h => h.windSpeed >= BREEZY_KMH);
+  const court = findActivityWindows(TENNIS_PROFILE, hourly, daily, weather.pastHourly, { days: 2, limit: 6 })
+    .find(w => w.date === date && w.score >= MIN_COURT_SCORE);
+
+  return {
+    place: weather.location.name,
+    date,
+    isTomorrow,
+    from: hhmm(hours[0].time),
+    until: nextHour(hours[hours.length - 1].time),
+    condition: hours[0].condition,
+    temp: hours[0].temp,
+    high: day?.tempMax ?? Math.max(...temps),
+    low: day?.tempMin ?? Math.min(...temps),
+    rain: rainSpells(hours),
+    breezyFrom: breezy ? hhmm(breezy.time) : null,
+    maxWind: Math.max(...hours.map(h => h.windSpeed)),
+    court: court ?? null
+  };
+};
+
+// The deterministic briefing: used when no model is configured, while one is writing, and when one fails.
+export const renderBriefing = (facts: BriefingFacts, { t, time, temperature }: Locale): string => {
+  const [firstRain] = facts.rain;
+  const parts = [
+    !firstRain ? t('briefing.dry')
+      : firstRain.start !== facts.from ? t('briefing.dry-until', { time: time(firstRain.start) })
+      : firstRain.end === facts.until ? t('briefing.rain')
+      : t('briefing.rain-until', { time: time(firstRain.end) }),
+    facts.breezyFrom === null ? null
+      : facts.breezyFrom === facts.from ? t('briefing.breezy')
+      : t('briefing.breezy-after', { time: time(facts.breezyFrom) }),
+    t('briefing.high', { high: temperature(facts.high) }),
+    facts.court ? t('briefing.court', { start: time(facts.court.start), end: time(facts.court.end) }) : t('briefing.no-court')
+  ];
+  const summary = parts.filter(Boolean).join(t('briefing.separator')) + t('briefing.end');
+  return facts.isTomorrow ? t('briefing.tomorrow', { summary }) : summary;
+};
+
+export const buildBriefingPrompt = (facts: BriefingFacts, locale: Locale): BriefingPrompt => {
+  const { time, temperature, wind, precipitation, condition } = locale;
+  return {
+    instructions: [
+      `Write a one-sentence morning weather briefing in ${LANGUAGE_NAMES[locale.language]} for someone who plays tennis.`,
+      'Use only the facts given and keep times and values exactly as written. At most 25 words, no greeting, no emoji.',
+      `Example of the tone: "${renderBriefing(facts, locale)}"`
+    ].join(' '),
+    facts: JSON.stringify({
+      place: facts.place,
+      day: facts.isTomorrow ? 'tomorrow' : 'today',
+      covers: `${time(facts.from)}–${time(facts.until)}`,
+      sky: condition(facts.condition, true),
+      now: temperature(facts.temp),
+      high: temperature(facts.high),
+      low: temperature(facts.low),
+      rain: facts.rain.map(s => ({ from: time(s.start), until: time(s.end), total: precipitation(s.total) })),
+      breezyFrom: facts.breezyFrom && time(facts.breezyFrom),
+      strongestWind: wind(facts.maxWind),
+      bestCourtTime: facts.court && { from: time(facts.court.start), until: time(facts.court.end), score: facts.court.score }
+    })
+  };
+};
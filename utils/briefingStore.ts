@@ -0,0 +1,32 @@
+import { Briefing, UnitPreferences, Language } from '../types';
+
+const BRIEFINGS_KEY = 'atmo_briefings_v1';
+// A day of hourly briefings for one place, or a few hours each for several.
+const MAX_BRIEFINGS = 24;
+
+interface StoredBriefing {
+  briefing: Briefing;
+  timestamp: number;
+}
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) as T : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+// The text quotes temperatures and times, so language and units are part of what it was written for.
+export const briefingKey = (placeId: string, hour: string, source: Briefing['source'], language: Language, units: UnitPreferences) =>
+  [placeId, hour, source, language, units.temperature, units.wind, units.precipitation, units.timeFormat].join('|');
+
+export const readBriefing = (key: string): Briefing | null =>
+  readJson<Record<string, StoredBriefing>>(BRIEFINGS_KEY, {})[key]?.briefing ?? null;
+
+export const writeBriefing = (key: string, briefing: Briefing) => {
+  const entries = { ...readJson<Record<string, StoredBriefing>>(BRIEFINGS_KEY, {}), [key]: { briefing, timestamp: Date.now() } };
+  const newest = Object.entries(entries).sort(([, a], [, b]) => b.timestamp - a.timestamp).slice(0, MAX_BRIEFINGS);
+  localStorage.setItem(BRIEFINGS_KEY, JSON.stringify(Object.fromEntries(newest)));
+};
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { temperatureAnomaly, precipitationAnomaly, normalFor, recentDays } from './climate';
+import { ClimateNormals, HistoryDay } from '../types';
+
+const normals = (precipitation: number): ClimateNormals => ({
+  startYear: 1991,
+  endYear: 2020,
+  days: { '10-16': { tempMax: 16, tempMin: 8, precipitation }, '10-17': { tempMax: 15.8, tempMin: 7.9, precipitation } }
+});
+
+const history = (precipitation: number[]): HistoryDay[] =>
+  precipitation.map((p, i) => ({ date: `2026-10-${16 + i}`, tempMax: 15, tempMin: 8, precipitation: p }));
+
+describe('temperatureAnomaly', () => {
+  it('calls anything within a degree of normal near', () => {
+    expect(temperatureAnomaly(16.9, 16).deviation).toBe('near');
+    expect(temperatureAnomaly(17, 16)).toEqual({ value: 17, normal: 16, delta: 1, deviation: 'above' });
+    expect(temperatureAnomaly(14, 16).deviation).toBe('below');
+  });
+});
+
+describe('precipitationAnomaly', () => {
+  it('compares the period\'s rain with the normal for the same dates', () => {
+    expect(precipitationAnomaly(history([3, 6]), normals(3))).toEqual({ total: 9, normal: 6, percent: 150 });
+  });
+
+  it('gives no percentage when the period is normally close to dry', () => {
+    expect(precipitationAnomaly(history([2, 0]), normals(0.2)).percent).toBeNull();
+  });
+
+  it('leaves out days without a normal on both sides', () => {
+    expect(precipitationAnomaly(history([3, 6, 40]), normals(3))).toMatchObject({ total: 9, normal: 6 });
+  });
+});
+
+describe('normalFor', () => {
+  it('looks a date up by month and day whatever the year', () => {
+    expect(normalFor(normals(1), '1999-10-17')?.tempMax).toBe(15.8);
+    expect(normalFor(normals(1), '2026-02-29')).toBeUndefined();
+  });
+
+  it('takes the most recent finished days', () => {
+    expect(recentDays(history([1, 2, 3]), 2).map(d => d.precipitation)).toEqual([2, 3]);
+  });
+});
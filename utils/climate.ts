@@ -0,0 +1,49 @@
+import { ClimateNormal, ClimateNormals, HistoryDay } from '../types';
+
+// Within this many °C of the normal, a day reads as ordinary rather than warm or cool.
+const NEAR_NORMAL_C = 1;
+// Below this much normal rain over the period (mm), a percentage of it says nothing useful.
+const MIN_NORMAL_PRECIPITATION = 1;
+
+export type Deviation = 'above' | 'below' | 'near';
+
+export interface TemperatureAnomaly {
+  value: number; // °C
+  normal: number; // °C
+  delta: number; // °C, value minus normal
+  deviation: Deviation;
+}
+
+export interface PrecipitationAnomaly {
+  total: number; // mm over the period
+  normal: number; // mm the normals add up to over the same dates
+  percent: number | null; // of normal; null when the period is normally near-dry
+}
+
+export const normalFor = (normals: ClimateNormals, date: string): ClimateNormal | undefined => normals.days[date.slice(5, 10)];
+
+export const temperatureAnomaly = (value: number, normal: number): TemperatureAnomaly => {
+  const delta = value - normal;
+  return {
+    value,
+    normal,
+    delta,
+    deviation: Math.abs(delta) < NEAR_NORMAL_C ? 'near' : delta > 0 ? 'above' : 'below'
+  };
+};
+
+// Days without a normal (never, with a full archive) are left out of both sides so the totals stay comparable.
+export const precipitationAnomaly = (days: HistoryDay[], normals: ClimateNormals): PrecipitationAnomaly => {
+  let total = 0;
+  let normal = 0;
+  days.forEach(day => {
+    const n = normalFor(normals, day.date);
+    if (!n) return;
+    total += day.precipitation;
+    normal += n.precipitation;
+  });
+  return { total, normal, percent: normal < MIN_NORMAL_PRECIPITATION ? null : Math.round(total / normal * 100) };
+};
+
+// The last `count` finished days, oldest first.
+export const recentDays = (history: HistoryDay[], count: number) => history.slice(-count);
@@ -0,0 +1,40 @@
+import { CachedHistory, HistoryDay, ClimateNormals } from '../types';
+
+// Kept apart from the forecast cache in locationStore: these change daily at most, so they outlive many refreshes.
+const RECENT_PREFIX = 'atmo_recent_history_v1';
+const NORMALS_PREFIX = 'atmo_climate_normals_v1';
+
+// A day only drops into the recent history once it has finished, so twice a day is plenty.
+export const RECENT_HISTORY_TTL = 12 * 60 * 60 * 1000;
+// Thirty-year averages do not move; this only guards against a bad first response sticking forever.
+export const CLIMATE_NORMALS_TTL = 90 * 24 * 60 * 60 * 1000;
+
+const readJson = <T>(key: string): T | null => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) as T : null;
+  } catch {
+    return null;
+  }
+};
+
+const write = <T>(key: string, data: T) => {
+  const entry: CachedHistory<T> = { data, timestamp: Date.now() };
+  localStorage.setItem(key, JSON.stringify(entry));
+};
+
+export const isHistoryFresh = <T>(entry: CachedHistory<T> | null, ttl: number, now = Date.now()): entry is CachedHistory<T> =>
+  !!entry && now - entry.timestamp < ttl;
+
+export const readRecentHistory = (id: string) => readJson<CachedHistory<HistoryDay[]>>(`${RECENT_PREFIX}:${id}`);
+
+export const writeRecentHistory = (id: string, days: HistoryDay[]) => write(`${RECENT_PREFIX}:${id}`, days);
+
+export const readClimateNormals = (id: string) => readJson<CachedHistory<ClimateNormals>>(`${NORMALS_PREFIX}:${id}`);
+
+export const writeClimateNormals = (id: string, normals: ClimateNormals) => write(`${NORMALS_PREFIX}:${id}`, normals);
+
+export const removeHistory = (id: string) => {
+  localStorage.removeItem(`${RECENT_PREFIX}:${id}`);
+  localStorage.removeItem(`${NORMALS_PREFIX}:${id}`);
+};
@@ -0,0 +1,50 @@
+import { SavedLocation } from '../types';
+import { makePlace } from './locationStore';
+
+export type KioskFormat = 'screen' | 'png';
+
+export interface KioskConfig {
+  width: number;
+  height: number;
+  format: KioskFormat;
+  // Render once and stop: no clock, refresh or flash timers. For headless screenshots and image fetches.
+  isStatic: boolean;
+  clockMinutes: number;
+  refreshMinutes: number;
+  flashMinutes: number; // 0 disables the anti-ghosting flash
+  place?: SavedLocation;
+}
+
+const DEFAULT_WIDTH = 600;
+const DEFAULT_HEIGHT = 800;
+const DEFAULT_CLOCK_MINUTES = 5;
+const DEFAULT_REFRESH_MINUTES = 30;
+const DEFAULT_FLASH_MINUTES = 60;
+
+const positive = (value: string | null, fallback: number, min = 1) => {
+  const n = Number(value);
+  return value !== null && Number.isFinite(n) && n >= min ? n : fallback;
+};
+
+// Kiosk mode is chosen by URL so a wall frame can be pointed at it without touching settings, e.g.
+// `/?kiosk=1&w=600&h=800&lat=59.91&lon=10.75&name=Oslo`. Returns null for the normal app.
+export const readKioskConfig = (search: string): KioskConfig | null => {
+  const params = new URLSearchParams(search);
+  const kiosk = params.get('kiosk');
+  if (kiosk === null || kiosk === '0' || kiosk === 'false') return null;
+
+  const lat = Number(params.get('lat'));
+  const lon = Number(params.get('lon'));
+  const hasPlace = params.has('lat') && params.has('lon') && Number.isFinite(lat) && Number.isFinite(lon);
+
+  return {
+    width: positive(params.get('w'), DEFAULT_WIDTH, 100),
+    height: positive(params.get('h'), DEFAULT_HEIGHT, 100),
+    format: params.get('format') === 'png' ? 'png' : 'screen',
+    isStatic: params.get('static') === '1' || params.get('format') === 'png',
+    clockMinutes: positive(params.get('clock'), DEFAULT_CLOCK_MINUTES),
+    refreshMinutes: positive(params.get('refresh'), DEFAULT_REFRESH_MINUTES, 5),
+    flashMinutes: positive(params.get('flash'), DEFAULT_FLASH_MINUTES, 0),
+    place: hasPlace ? makePlace(lat, lon, params.get('name') || 'Here', { timezone: params.get('tz') || undefined }) : undefined
+  };
+};
@@ -0,0 +1,125 @@
+import { WeatherData, WeatherAlert } from '../types';
+import type { Locale } from '../i18n';
+import { toLocalIso, formatClock } from './time';
+import { computeSolarDay, isSunUp } from './astronomy';
+import { svgText as text, drawSvg } from './svg';
+
+export interface KioskRenderOptions {
+  width: number;
+  height: number;
+  now: Date;
+  locale: Locale;
+  alerts?: WeatherAlert[];
+  sourceLabel?: string;
+  isOffline?: boolean;
+}
+
+const INK = '#000';
+const PAPER = '#fff';
+const FONT = "Inter, 'Helvetica Neue', Helvetica, Arial, sans-serif";
+const HOURLY_STEP = 3;
+
+const rule = (x1: number, x2: number, y: number, weight = 2) =>
+  `<rect x="${Math.round(x1)}" y="${Math.round(y)}" width="${Math.round(x2 - x1)}" height="${weight}" fill="${INK}" />`;
+
+// A 1-bit layout for e-paper: pure black on white, no greys, gradients or opacity, so nothing dithers or ghosts.
+// The same SVG is shown on the kiosk screen and rasterised for the PNG output, which keeps the two identical.
+export const renderKioskSvg = (weather: WeatherData, { width, height, now, locale, alerts = [], sourceLabel, isOffline }: KioskRenderOptions): string => {
+  const pad = Math.round(Math.min(width, height) * 0.06);
+  const unit = Math.min(width, height) / 100;
+  const right = width - pad;
+  const timeZone = weather.location.timezone;
+  const localNow = toLocalIso(now, timeZone);
+  const parts: string[] = [];
+
+  let y = pad + unit * 5;
+  parts.push(text(pad, y, unit * 5, weather.location.name.toUpperCase(), 'font-weight="700" letter-spacing="2"'));
+  parts.push(text(right, y, unit * 5, locale.time(localNow.split('T')[1]), 'font-weight="700" text-anchor="end"'));
+  y += unit * 4.5;
+  parts.push(text(pad, y, unit * 3.2, locale.longDate(localNow.split('T')[0])));
+  y += unit * 3;
+  parts.push(rule(pad, right, y));
+
+  const tempSize = Math.min(unit * 26, height * 0.18);
+  y += tempSize * 0.95;
+  parts.push(text(pad - unit, y, tempSize, locale.temperature(weather.temp), 'font-weight="700" letter-spacing="-4"'));
+  const today = weather.daily?.[0];
+  const { lat, lon } = weather.location;
+  const solar = computeSolarDay(localNow.split('T')[0], lat, lon);
+  const facts = [
+    locale.condition(weather.condition, isSunUp(now.getTime(), lat, lon)),
+    today ? locale.t('kiosk.high-low', { high: locale.temperature(today.tempMax), low: locale.temperature(today.tempMin) }) : '',
+    locale.t('kiosk.wind', { speed: locale.wind(weather.windSpeed) }),
+    locale.t('kiosk.humidity', { humidity: Math.round(weather.humidity) }),
+    solar.sunrise !== null && solar.sunset !== null
+      ? locale.t('kiosk.sun', { sunrise: locale.time(formatClock(solar.sunrise, timeZone)), sunset: locale.time(formatClock(solar.sunset, timeZone)) })
+      : ''
+  ].filter(Boolean).map(fact => fact.toUpperCase());
+  facts.forEach((fact, i) => {
+    parts.push(text(right, y - tempSize * 0.68 + i * unit * 4.4, unit * (i === 0 ? 3.8 : 3), fact, `text-anchor="end"${i === 0 ? ' font-weight="700"' : ''}`));
+  });
+  y += unit * 4;
+  parts.push(rule(pad, right, y));
+
+  // Next hours, every third hour so the row stays legible from across a room.
+  const hours = (weather.hourly || []).filter((_, i) => i % HOURLY_STEP === 0);
+  const columns = Math.min(hours.length, Math.max(3, Math.floor((right - pad) / (unit * 16))));
+  const colWidth = (right - pad) / Math.max(1, columns);
+  if (columns > 0) {
+    y += unit * 6;
+    hours.slice(0, columns).forEach((hour, i) => {
+      const x = pad + colWidth * i + colWidth / 2;
+      parts.push(text(x, y, unit * 3, locale.time(hour.time.split('T')[1]), 'text-anchor="middle"'));
+      parts.push(text(x, y + unit * 6, unit * 5, locale.temperature(hour.temp), 'font-weight="700" text-anchor="middle"'));
+      if (hour.precipitation > 0) parts.push(text(x, y + unit * 10.5, unit * 2.8, locale.precipitation(hour.precipitation), 'text-anchor="middle"'));
+    });
+    y += unit * 13;
+    parts.push(rule(pad, right, y));
+  }
+
+  const footerHeight = unit * 5 + (alerts.length > 0 ? unit * 9 : 0);
+  const rowHeight = unit * 7;
+  const days = (weather.daily || []).slice(1, 1 + Math.max(0, Math.floor((height - pad - footerHeight - y) / rowHeight)));
+  days.forEach(day => {
+    y += rowHeight;
+    parts.push(text(pad, y - unit * 2, unit * 3.6, locale.weekday(day.date).toUpperCase(), 'font-weight="700"'));
+    parts.push(text(pad + unit * 14, y - unit * 2, unit * 3.2, locale.condition(day.condition, true)));
+    parts.push(text(right, y - unit * 2, unit * 3.6, `${locale.temperature(day.tempMax)} / ${locale.temperature(day.tempMin)}`, 'font-weight="700" text-anchor="end"'));
+  });
+
+  // Alerts are inverted, the one thing on the screen meant to be seen first.
+  const footerY = height - pad;
+  if (alerts.length > 0) {
+    const alert = alerts[0];
+    const barY = footerY - unit * 13;
+    parts.push(`<rect x="${pad}" y="${Math.round(barY)}" width="${right - pad}" height="${Math.round(unit * 8)}" fill="${INK}" />`);
+    const more = alerts.length > 1 ? `  +${alerts.length - 1}` : '';
+    parts.push(text(pad + unit * 2, barY + unit * 5.2, unit * 3, `${locale.alertTitle(alert).toUpperCase()} · ${locale.alertMessage(alert)}${more}`, `font-weight="700" fill="${PAPER}"`));
+  }
+  const updated = weather.fetchedAt === undefined ? locale.t('kiosk.no-data')
+    : locale.t(isOffline ? 'kiosk.offline-since' : 'kiosk.updated', { time: locale.time(formatClock(weather.fetchedAt, timeZone)) });
+  parts.push(text(pad, footerY, unit * 2.6, updated.toUpperCase()));
+  if (sourceLabel) parts.push(text(right, footerY, unit * 2.6, sourceLabel.toUpperCase(), 'text-anchor="end"'));
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT.replace(/"/g, '&quot;')}" fill="${INK}" shape-rendering="crispEdges">`,
+    `<rect width="${width}" height="${height}" fill="${PAPER}" />`,
+    ...parts,
+    '</svg>'
+  ].join('\n');
+};
+
+// Rasterises the SVG and snaps every pixel to black or white, so frames that fetch an image get true 1-bit output.
+export const rasteriseKioskSvg = async (svg: string, width: number, height: number): Promise<string> => {
+  const canvas = await drawSvg(svg, width, height);
+  const context = canvas.getContext('2d')!;
+  const pixels = context.getImageData(0, 0, width, height);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    const luminance = 0.299 * pixels.data[i] + 0.587 * pixels.data[i + 1] + 0.114 * pixels.data[i + 2];
+    const value = luminance < 160 ? 0 : 255;
+    pixels.data[i] = pixels.data[i + 1] = pixels.data[i + 2] = value;
+    pixels.data[i + 3] = 255;
+  }
+  context.putImageData(pixels, 0, 0);
+  return canvas.toDataURL('image/png');
+};
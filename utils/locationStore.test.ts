@@ -0,0 +1,83 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi } from 'vitest';
+import {
+  makePlace, writeWeatherCache, readWeatherCache, readLastWeatherCache, isWeatherFresh, resumableWeather,
+  movePlace, pushRecentSearch, WEATHER_CACHE_TTL, CURRENT_LOCATION_NAME
+} from './locationStore';
+import { weather, PLACE } from '../test/weather';
+
+const MINUTE = 60 * 1000;
+const NOON = Date.parse('2026-10-18T12:00:00Z');
+
+describe('weather cache expiry', () => {
+  it('stays fresh for the cache lifetime and not a moment longer', () => {
+    vi.useFakeTimers({ now: NOON });
+    writeWeatherCache(weather());
+    const cached = readWeatherCache(PLACE.id);
+
+    vi.setSystemTime(NOON + WEATHER_CACHE_TTL - MINUTE);
+    expect(isWeatherFresh(cached, 'open-meteo')).toBe(true);
+    vi.setSystemTime(NOON + WEATHER_CACHE_TTL);
+    expect(isWeatherFresh(cached, 'open-meteo')).toBe(false);
+  });
+
+  it('dates an entry by when the data was fetched, not when it was written', () => {
+    vi.useFakeTimers({ now: NOON });
+    writeWeatherCache(weather(), NOON - 2 * WEATHER_CACHE_TTL);
+    expect(isWeatherFresh(readWeatherCache(PLACE.id), 'open-meteo')).toBe(false);
+  });
+
+  it('treats another provider\'s data as stale', () => {
+    writeWeatherCache(weather({ source: 'met-norway' }));
+    expect(isWeatherFresh(readWeatherCache(PLACE.id), 'met-norway')).toBe(true);
+    expect(isWeatherFresh(readWeatherCache(PLACE.id), 'open-meteo')).toBe(false);
+  });
+
+  it('has nothing for a place never fetched', () => {
+    expect(readWeatherCache('0.000,0.000')).toBeNull();
+    expect(isWeatherFresh(null, 'open-meteo')).toBe(false);
+  });
+});
+
+describe('resumableWeather', () => {
+  it('resumes the last named place while it is fresh', () => {
+    writeWeatherCache(weather());
+    expect(resumableWeather(readLastWeatherCache(), 'open-meteo')?.data.location).toEqual(PLACE);
+  });
+
+  it.each([CURRENT_LOCATION_NAME, 'CURRENT LOCATION', 'current location'])('skips an unnamed located place saved as "%s"', name => {
+    writeWeatherCache(weather({ location: makePlace(51.5, -0.12, name) }));
+    expect(readLastWeatherCache()).not.toBeNull();
+    expect(resumableWeather(readLastWeatherCache(), 'open-meteo')).toBeNull();
+  });
+
+  it('skips a named place once it has expired', () => {
+    vi.useFakeTimers({ now: NOON });
+    writeWeatherCache(weather());
+    vi.setSystemTime(NOON + WEATHER_CACHE_TTL + MINUTE);
+    expect(resumableWeather(readLastWeatherCache(), 'open-meteo')).toBeNull();
+  });
+});
+
+describe('places', () => {
+  const a = makePlace(1, 1, 'A');
+  const b = makePlace(2, 2, 'B');
+  const c = makePlace(3, 3, 'C');
+
+  it('rounds ids to about 100m so a repeat search finds the same entry', () => {
+    expect(makePlace(51.50721, -0.12758, 'London').id).toBe(makePlace(51.5074, -0.1276, 'London').id);
+  });
+
+  it('moves a place within bounds and ignores moves past either end', () => {
+    expect(movePlace([a, b, c], c.id, -1).map(p => p.name)).toEqual(['A', 'C', 'B']);
+    expect(movePlace([a, b, c], a.id, -1)).toEqual([a, b, c]);
+    expect(movePlace([a, b, c], c.id, 1)).toEqual([a, b, c]);
+  });
+
+  it('keeps recent searches unique, newest first, and capped', () => {
+    [a, b, c, a].forEach(pushRecentSearch);
+    expect(pushRecentSearch(b).map(p => p.name)).toEqual(['B', 'A', 'C']);
+    for (let i = 0; i < 10; i++) pushRecentSearch(makePlace(10 + i, 0, `P${i}`));
+    expect(pushRecentSearch(a)).toHaveLength(6);
+  });
+});
@@ -0,0 +1,81 @@
+import { SavedLocation, CachedWeather, WeatherData, WeatherProviderId } from '../types';
+
+const PLACES_KEY = 'atmo_saved_locations_v1';
+const LAST_PLACE_KEY = 'atmo_last_location_v1';
+const CACHE_PREFIX = 'open_meteo_weather_cache_v7';
+const RECENT_SEARCHES_KEY = 'atmo_recent_searches_v1';
+const MAX_RECENT_SEARCHES = 6;
+
+export const WEATHER_CACHE_TTL = 30 * 60 * 1000;
+// The name a located place keeps when reverse geocoding finds nothing better.
+export const CURRENT_LOCATION_NAME = 'Current Location';
+
+// ~100m of rounding, so a re-search of the same city lands on the same cache entry.
+export const placeId = (lat: number, lon: number) => `${lat.toFixed(3)},${lon.toFixed(3)}`;
+
+export const makePlace = (lat: number, lon: number, name: string, extra: Omit<SavedLocation, 'id' | 'name' | 'lat' | 'lon'> = {}): SavedLocation => ({
+  id: placeId(lat, lon),
+  name,
+  lat,
+  lon,
+  ...extra
+});
+
+const readJson = <T>(key: string): T | null => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) as T : null;
+  } catch {
+    return null;
+  }
+};
+
+export const loadPlaces = (): SavedLocation[] => readJson<SavedLocation[]>(PLACES_KEY) || [];
+
+export const savePlaces = (places: SavedLocation[]) => {
+  localStorage.setItem(PLACES_KEY, JSON.stringify(places));
+};
+
+export const readWeatherCache = (id: string): CachedWeather | null => readJson<CachedWeather>(`${CACHE_PREFIX}:${id}`);
+
+export const writeWeatherCache = (data: WeatherData, timestamp = Date.now()) => {
+  const entry: CachedWeather = { data, timestamp };
+  localStorage.setItem(`${CACHE_PREFIX}:${data.location.id}`, JSON.stringify(entry));
+  localStorage.setItem(LAST_PLACE_KEY, data.location.id);
+};
+
+// A cache entry from another provider counts as stale, so switching sources always shows the new source's data.
+export const isWeatherFresh = (cached: CachedWeather | null, provider: WeatherProviderId, now = Date.now()): cached is CachedWeather =>
+  !!cached && now - cached.timestamp < WEATHER_CACHE_TTL && cached.data.source === provider;
+
+// What a launch can show without asking for a position fix. An unnamed located place is skipped: the device may
+// have moved since, so it is located again rather than resumed.
+export const resumableWeather = (cached: CachedWeather | null, provider: WeatherProviderId, now = Date.now()): CachedWeather | null =>
+  isWeatherFresh(cached, provider, now) && cached.data.location.name.toUpperCase() !== CURRENT_LOCATION_NAME.toUpperCase() ? cached : null;
+
+export const removeWeatherCache = (id: string) => {
+  localStorage.removeItem(`${CACHE_PREFIX}:${id}`);
+};
+
+export const readLastWeatherCache = (): CachedWeather | null => {
+  const id = localStorage.getItem(LAST_PLACE_KEY);
+  return id ? readWeatherCache(id) : null;
+};
+
+export const movePlace = (places: SavedLocation[], id: string, offset: number): SavedLocation[] => {
+  const from = places.findIndex(p => p.id === id);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= places.length) return places;
+  const next = [...places];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+export const loadRecentSearches = (): SavedLocation[] => readJson<SavedLocation[]>(RECENT_SEARCHES_KEY) || [];
+
+export const pushRecentSearch = (place: SavedLocation): SavedLocation[] => {
+  const recent = [place, ...loadRecentSearches().filter(p => p.id !== place.id)].slice(0, MAX_RECENT_SEARCHES);
+  localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(recent));
+  return recent;
+};
@@ -0,0 +1,16 @@
+import { useSyncExternalStore } from 'react';
+
+// Either a request for more contrast or a forced palette (Windows high contrast); both get the e-ink styling.
+export const HIGH_CONTRAST_QUERY = '(prefers-contrast: more), (forced-colors: active)';
+
+// Without matchMedia (tests, old embedded browsers) no preference is assumed.
+const mediaQuery = (query: string) => typeof window.matchMedia === 'function' ? window.matchMedia(query) : null;
+
+export const useMediaQuery = (query: string): boolean => useSyncExternalStore(
+  (onChange) => {
+    const list = mediaQuery(query);
+    list?.addEventListener('change', onChange);
+    return () => list?.removeEventListener('change', onChange);
+  },
+  () => mediaQuery(query)?.matches ?? false
+);
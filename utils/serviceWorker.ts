@@ -0,0 +1,32 @@
+const PERIODIC_SYNC_TAG = 'refresh-weather';
+const PERIODIC_SYNC_INTERVAL = 60 * 60 * 1000;
+
+// Not in TypeScript's DOM library yet.
+interface PeriodicSyncManager {
+  register(tag: string, options?: { minInterval: number }): Promise<void>;
+}
+
+// Periodic Background Sync is Chromium-only and only granted to installed apps; everywhere else the app
+// refreshes while it is open.
+const registerPeriodicSync = async (registration: ServiceWorkerRegistration) => {
+  if (!('periodicSync' in registration)) return;
+  const periodicSync = registration.periodicSync as PeriodicSyncManager;
+  try {
+    const status = await navigator.permissions.query({ name: 'periodic-background-sync' as PermissionName });
+    if (status.state === 'granted') await periodicSync.register(PERIODIC_SYNC_TAG, { minInterval: PERIODIC_SYNC_INTERVAL });
+  } catch (e) {
+    console.error("Periodic sync unavailable", e);
+  }
+};
+
+export const registerServiceWorker = (url: string | undefined = process.env.SERVICE_WORKER) => {
+  if (!url || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', async () => {
+    try {
+      const registration = await navigator.serviceWorker.register(url);
+      await registerPeriodicSync(registration);
+    } catch (e) {
+      console.error("Service worker registration failed", e);
+    }
+  });
+};
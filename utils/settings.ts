@@ -0,0 +1,35 @@
+import { AppSettings, WeatherProviderId } from '../types';
+import { defaultUnitsFor } from './units';
+import { detectLanguage } from '../i18n';
+
+const SETTINGS_KEY = 'atmo_settings_v1';
+
+// `WEATHER_PROVIDER=fixture npm run dev` pins the data source, e.g. to work offline against recorded responses.
+const PINNED_PROVIDER = (process.env.WEATHER_PROVIDER || undefined) as WeatherProviderId | undefined;
+
+const BROWSER_LOCALE = typeof navigator !== 'undefined' ? navigator.language : 'en';
+
+// Units and language start from the browser locale, so a US browser opens in °F and mph.
+export const DEFAULT_SETTINGS: AppSettings = {
+  reverseGeocoder: 'offline',
+  weatherProvider: PINNED_PROVIDER || 'open-meteo',
+  units: defaultUnitsFor(BROWSER_LOCALE),
+  language: detectLanguage(BROWSER_LOCALE),
+  briefing: 'template'
+};
+
+// Merged over the defaults so settings saved by an older build pick up newly added fields.
+export const loadSettings = (): AppSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    const saved = raw ? JSON.parse(raw) : {};
+    const settings: AppSettings = { ...DEFAULT_SETTINGS, ...saved, units: { ...DEFAULT_SETTINGS.units, ...saved.units } };
+    return PINNED_PROVIDER ? { ...settings, weatherProvider: PINNED_PROVIDER } : settings;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,92 @@
+import { WeatherData, AtmosphericTheme, ActivityProfile, ActivityScore } from '../types';
+import type { Locale } from '../i18n';
+import { toLocalIso } from './time';
+import { isSunUp } from './astronomy';
+import { svgText as text, escapeXml, drawSvg } from './svg';
+
+export interface ShareCardOptions {
+  locale: Locale;
+  theme: AtmosphericTheme;
+  at: number; // the moment shown, ms epoch
+  activity?: { profile: ActivityProfile, score: ActivityScore };
+  sourceLabel?: string;
+  isEink?: boolean;
+}
+
+// The Open Graph image size, so a shared link or chat preview shows the card uncropped.
+export const SHARE_CARD_WIDTH = 1200;
+export const SHARE_CARD_HEIGHT = 630;
+
+const PAD = 72;
+const FONT = "Inter, 'Helvetica Neue', Helvetica, Arial, sans-serif";
+const ACCENT = '#2FD1A6';
+
+// The same sky and text colour as the screen, drawn as plain SVG so it can be rasterised without the DOM.
+export const renderShareCardSvg = (weather: WeatherData, { locale, theme, at, activity, sourceLabel, isEink }: ShareCardOptions): string => {
+  const { lat, lon, timezone } = weather.location;
+  const [date, clock] = toLocalIso(new Date(at), timezone).split('T');
+  const parts: string[] = [];
+
+  parts.push(text(PAD, PAD + 14, 16, 'ATMOSPHERE', 'font-weight="700" letter-spacing="8" opacity="0.5"'));
+  parts.push(text(PAD, PAD + 76, 44, weather.location.name.toUpperCase(), 'letter-spacing="6"'));
+  parts.push(text(PAD, PAD + 118, 24, `${locale.longDate(date)} · ${locale.time(clock)}`, 'opacity="0.7"'));
+  parts.push(text(PAD - 8, 450, 220, locale.temperature(weather.temp), `font-weight="${isEink ? 700 : 200}" letter-spacing="-8"`));
+  parts.push(text(PAD, 520, 36, locale.condition(weather.condition, isSunUp(at, lat, lon)).toUpperCase(), 'letter-spacing="8" opacity="0.8"'));
+
+  if (activity) {
+    const { profile, score } = activity;
+    const x = 720;
+    const width = SHARE_CARD_WIDTH - PAD - x;
+    const top = 250;
+    parts.push(isEink
+      ? `<rect x="${x}" y="${top}" width="${width}" height="250" rx="40" fill="none" stroke="${theme.text}" stroke-width="3" />`
+      : `<rect x="${x}" y="${top}" width="${width}" height="250" rx="40" fill="${theme.text}" opacity="0.06" />`);
+    parts.push(text(x + 40, top + 56, 16, locale.profileTitle(profile).toUpperCase(), 'font-weight="700" letter-spacing="6" opacity="0.5"'));
+    parts.push(text(x + 40, top + 136, 56, locale.t(score.label), `font-weight="${isEink ? 700 : 300}"`));
+    parts.push(`<rect x="${x + 40}" y="${top + 168}" width="${width - 80}" height="4" fill="${theme.text}" opacity="0.15" />`);
+    parts.push(`<rect x="${x + 40}" y="${top + 168}" width="${Math.round((width - 80) * score.score / 100)}" height="4" fill="${isEink ? theme.text : ACCENT}" />`);
+    parts.push(text(x + 40, top + 212, 18, locale.t(score.status).toUpperCase(), 'font-weight="700" letter-spacing="4" opacity="0.6"'));
+    parts.push(text(x + width - 40, top + 212, 18, locale.t('activity.sync', { score: score.score }).toUpperCase(), 'font-weight="700" letter-spacing="4" opacity="0.6" text-anchor="end"'));
+  }
+
+  if (sourceLabel) {
+    parts.push(text(SHARE_CARD_WIDTH - PAD, SHARE_CARD_HEIGHT - PAD + 10, 14, locale.t('app.source', { source: sourceLabel }).toUpperCase(), 'letter-spacing="6" opacity="0.4" text-anchor="end"'));
+  }
+
+  const stops = theme.stops.map((color, i) =>
+    `<stop offset="${theme.stops.length > 1 ? i / (theme.stops.length - 1) : 0}" stop-color="${color}" />`).join('');
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${SHARE_CARD_WIDTH}" height="${SHARE_CARD_HEIGHT}" viewBox="0 0 ${SHARE_CARD_WIDTH} ${SHARE_CARD_HEIGHT}" font-family="${escapeXml(FONT)}" fill="${theme.text}">`,
+    `<defs><linearGradient id="sky" x1="0" y1="0" x2="0" y2="1">${stops}</linearGradient></defs>`,
+    `<rect width="${SHARE_CARD_WIDTH}" height="${SHARE_CARD_HEIGHT}" fill="url(#sky)" />`,
+    ...parts,
+    '</svg>'
+  ].join('\n');
+};
+
+export const renderShareCard = async (weather: WeatherData, options: ShareCardOptions): Promise<Blob> => {
+  const canvas = await drawSvg(renderShareCardSvg(weather, options), SHARE_CARD_WIDTH, SHARE_CARD_HEIGHT);
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Share card encoding failed")), 'image/png'));
+};
+
+export const shareCardFileName = (weather: WeatherData, at: number) => {
+  const slug = weather.location.name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'weather';
+  const [date, clock] = toLocalIso(new Date(at), weather.location.timezone).split('T');
+  return `atmosphere-${slug}-${date}-${clock.replace(':', '')}.png`;
+};
+
+// The system share sheet where it takes files (mostly mobile), otherwise a plain download.
+export const shareImage = async (blob: Blob, fileName: string, title: string) => {
+  const file = new File([blob], fileName, { type: 'image/png' });
+  if (navigator.canShare?.({ files: [file] })) {
+    await navigator.share({ files: [file], title });
+    return;
+  }
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
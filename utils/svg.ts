@@ -0,0 +1,32 @@
+// Helpers for the string-built SVGs (kiosk screen, share card) and for turning them into pixels.
+
+export const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const svgText = (x: number, y: number, size: number, content: string, attrs = '') =>
+  `<text x="${Math.round(x)}" y="${Math.round(y)}" font-size="${Math.round(size)}" ${attrs}>${escapeXml(content)}</text>`;
+
+// Draws the SVG onto a fresh canvas of the given size. Web fonts don't load inside an SVG image, so text falls
+// back through the SVG's font-family list.
+export const drawSvg = (svg: string, width: number, height: number): Promise<HTMLCanvasElement> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  const image = new Image();
+  image.onload = () => {
+    URL.revokeObjectURL(url);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      reject(new Error("Canvas unavailable"));
+      return;
+    }
+    context.drawImage(image, 0, 0, width, height);
+    resolve(canvas);
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error("SVG render failed"));
+  };
+  image.src = url;
+});
@@ -0,0 +1,47 @@
+const deviceTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const parts = (date: Date, timeZone: string) => {
+  const values: Record<string, string> = {};
+  new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  }).formatToParts(date).forEach(p => { values[p.type] = p.value; });
+  return values;
+};
+
+// Wall-clock time at the location, in the same "YYYY-MM-DDTHH:MM" shape Open-Meteo returns with timezone=auto.
+export const toLocalIso = (date: Date, timeZone: string = deviceTimeZone()) => {
+  const p = parts(date, timeZone);
+  return `${p.year}-${p.month}-${p.day}T${p.hour}:${p.minute}`;
+};
+
+// "HH:MM" for timestamps such as when data was fetched; device-local unless a zone is given.
+export const formatClock = (timestamp: number, timeZone?: string) => toLocalIso(new Date(timestamp), timeZone).split('T')[1];
+
+export const utcOffset = (date: Date, timeZone: string = deviceTimeZone()) => {
+  const p = parts(date, timeZone);
+  const wall = Date.UTC(Number(p.year), Number(p.month) - 1, Number(p.day), Number(p.hour), Number(p.minute));
+  const minutes = Math.round((wall - date.getTime()) / 60000);
+  const abs = Math.abs(minutes);
+  return `${minutes < 0 ? '-' : '+'}${String(Math.floor(abs / 60)).padStart(2, '0')}:${String(abs % 60).padStart(2, '0')}`;
+};
+
+// The instant a wall-clock "YYYY-MM-DDTHH:MM" at the location happens. The second pass settles DST-change days,
+// where the offset at the first guess differs from the offset at the answer.
+export const zonedTimeToUtc = (localIso: string, timeZone: string = deviceTimeZone()) => {
+  const [date, time = '00:00'] = localIso.split('T');
+  const [y, m, d] = date.split('-').map(Number);
+  const [hh, mm] = time.split(':').map(Number);
+  const wall = Date.UTC(y, m - 1, d, hh, mm);
+  const offsetAt = (instant: number) => {
+    const p = parts(new Date(instant), timeZone);
+    return Date.UTC(Number(p.year), Number(p.month) - 1, Number(p.day), Number(p.hour), Number(p.minute)) - instant;
+  };
+  const guess = wall - offsetAt(wall);
+  return wall - offsetAt(guess);
+};
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import {
+  convertTemperature, toCelsius, convertWind, toKmh, convertPrecipitation, toMillimetres, roundForInput,
+  formatTemperature, formatTemperatureDelta, formatWind, formatPrecipitation, formatTime, defaultUnitsFor, METRIC_UNITS, US_UNITS
+} from './units';
+
+describe('conversion', () => {
+  it('round-trips every unit back to metric', () => {
+    expect(toCelsius(convertTemperature(21.5, 'fahrenheit'), 'fahrenheit')).toBeCloseTo(21.5);
+    for (const unit of ['kmh', 'mph', 'ms', 'knots'] as const) expect(toKmh(convertWind(37, unit), unit)).toBeCloseTo(37);
+    expect(toMillimetres(convertPrecipitation(12.7, 'inch'), 'inch')).toBeCloseTo(12.7);
+  });
+
+  it('keeps a rounded threshold stable when it goes back and forth through metric', () => {
+    const shown = roundForInput(convertWind(70, 'mph'));
+    expect(shown).toBe(43.5);
+    expect(roundForInput(convertWind(toKmh(shown, 'mph'), 'mph'))).toBe(shown);
+  });
+});
+
+describe('formatting', () => {
+  it('applies the Fahrenheit offset to temperatures but not to differences', () => {
+    expect(formatTemperature(0, 'fahrenheit')).toBe('32°');
+    expect(formatTemperature(21.6, 'celsius')).toBe('22°');
+    expect(formatTemperatureDelta(2, 'fahrenheit')).toBe('+4°');
+    expect(formatTemperatureDelta(-3, 'celsius')).toBe('−3°');
+    expect(formatTemperatureDelta(0.2, 'celsius')).toBe('0°');
+  });
+
+  it('keeps a decimal only for light winds in m/s', () => {
+    expect(formatWind(18, 'ms')).toBe('5.0 m/s');
+    expect(formatWind(40, 'ms')).toBe('11 m/s');
+    expect(formatWind(18, 'knots')).toBe('10 kn');
+    expect(formatWind(16.09344, 'mph')).toBe('10 mph');
+  });
+
+  it('gives inches two decimals and millimetres one', () => {
+    expect(formatPrecipitation(2.54, 'mm')).toBe('2.5 mm');
+    expect(formatPrecipitation(25.4, 'inch')).toBe('1.00 in');
+  });
+
+  it('formats wall-clock times without shifting them', () => {
+    expect(formatTime('07:05', '24h')).toBe('07:05');
+    expect(formatTime('19:30', '12h')).toMatch(/^7:30\sPM$/);
+    expect(formatTime('00:00', '12h')).toMatch(/^12:00\sAM$/);
+    expect(formatTime('sunrise', '24h')).toBe('sunrise');
+  });
+
+  it('defaults to US units only for US locales', () => {
+    expect(defaultUnitsFor('en-US')).toBe(US_UNITS);
+    expect(defaultUnitsFor('en-GB')).toBe(METRIC_UNITS);
+    expect(defaultUnitsFor('de')).toBe(METRIC_UNITS);
+  });
+});
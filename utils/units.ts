@@ -0,0 +1,78 @@
+import { TemperatureUnit, WindUnit, PrecipitationUnit, TimeFormat, UnitPreferences } from '../types';
+
+// Everything inside the app stays metric (°C, km/h, mm) as the providers deliver it; these convert at the edges,
+// for display and for threshold inputs, so scoring and alert rules never see anything else.
+
+const KMH_PER: Record<WindUnit, number> = {
+  kmh: 1,
+  mph: 1.609344,
+  ms: 3.6,
+  knots: 1.852
+};
+
+const MM_PER_INCH = 25.4;
+
+export const TEMPERATURE_UNIT_LABELS: Record<TemperatureUnit, string> = { celsius: '°C', fahrenheit: '°F' };
+export const WIND_UNIT_LABELS: Record<WindUnit, string> = { kmh: 'km/h', mph: 'mph', ms: 'm/s', knots: 'kn' };
+export const PRECIPITATION_UNIT_LABELS: Record<PrecipitationUnit, string> = { mm: 'mm', inch: 'in' };
+
+export const METRIC_UNITS: UnitPreferences = { temperature: 'celsius', wind: 'kmh', precipitation: 'mm', timeFormat: '24h' };
+export const US_UNITS: UnitPreferences = { temperature: 'fahrenheit', wind: 'mph', precipitation: 'inch', timeFormat: '12h' };
+
+export const convertTemperature = (celsius: number, unit: TemperatureUnit) =>
+  unit === 'fahrenheit' ? celsius * 9 / 5 + 32 : celsius;
+
+export const toCelsius = (value: number, unit: TemperatureUnit) =>
+  unit === 'fahrenheit' ? (value - 32) * 5 / 9 : value;
+
+export const convertWind = (kmh: number, unit: WindUnit) => kmh / KMH_PER[unit];
+
+export const toKmh = (value: number, unit: WindUnit) => value * KMH_PER[unit];
+
+export const convertPrecipitation = (mm: number, unit: PrecipitationUnit) =>
+  unit === 'inch' ? mm / MM_PER_INCH : mm;
+
+export const toMillimetres = (value: number, unit: PrecipitationUnit) =>
+  unit === 'inch' ? value * MM_PER_INCH : value;
+
+// Rounds a converted threshold for an input field without drifting when it is converted back and forth.
+export const roundForInput = (value: number, decimals = 1) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+export const formatTemperature = (celsius: number, unit: TemperatureUnit) =>
+  `${Math.round(convertTemperature(celsius, unit))}°`;
+
+// A difference between two temperatures: scaled, but without the Fahrenheit offset.
+export const formatTemperatureDelta = (celsius: number, unit: TemperatureUnit) => {
+  const value = Math.round(unit === 'fahrenheit' ? celsius * 9 / 5 : celsius);
+  return `${value > 0 ? '+' : value < 0 ? '−' : ''}${Math.abs(value)}°`;
+};
+
+// m/s and knots are small numbers where a decimal still matters at light winds.
+export const formatWind = (kmh: number, unit: WindUnit) => {
+  const value = convertWind(kmh, unit);
+  const shown = unit === 'ms' && value < 10 ? value.toFixed(1) : String(Math.round(value));
+  return `${shown} ${WIND_UNIT_LABELS[unit]}`;
+};
+
+export const formatPrecipitation = (mm: number, unit: PrecipitationUnit) =>
+  unit === 'inch'
+    ? `${convertPrecipitation(mm, unit).toFixed(2)} ${PRECIPITATION_UNIT_LABELS.inch}`
+    : `${mm.toFixed(1)} ${PRECIPITATION_UNIT_LABELS.mm}`;
+
+// `hhmm` is a wall-clock "HH:MM" already local to the place, so it is formatted as UTC to avoid any shift.
+export const formatTime = (hhmm: string, format: TimeFormat, localeTag = 'en-US') => {
+  const [hours, minutes] = hhmm.split(':').map(Number);
+  if (!Number.isFinite(hours) || !Number.isFinite(minutes)) return hhmm;
+  return new Intl.DateTimeFormat(localeTag, {
+    hour: format === '12h' ? 'numeric' : '2-digit',
+    minute: '2-digit',
+    hourCycle: format === '12h' ? 'h12' : 'h23',
+    timeZone: 'UTC'
+  }).format(new Date(Date.UTC(2000, 0, 1, hours, minutes)));
+};
+
+export const defaultUnitsFor = (localeTag: string): UnitPreferences =>
+  /-US$/i.test(localeTag) ? US_UNITS : METRIC_UNITS;
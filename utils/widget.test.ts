@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { readWidgetConfig, WIDGET_SIZES } from './widget';
+
+describe('readWidgetConfig', () => {
+  it('is null for the normal app', () => {
+    expect(readWidgetConfig('')).toBeNull();
+    expect(readWidgetConfig('?widget=0')).toBeNull();
+  });
+
+  it('reads size, language and place from the query', () => {
+    const config = readWidgetConfig('?widget=1&size=large&lang=de&lat=51.51&lon=-0.13&name=London')!;
+    expect(config).toMatchObject({ size: 'large', ...WIDGET_SIZES.large, language: 'de', cards: ['now', 'tennis'] });
+    expect(config.place).toMatchObject({ name: 'London', lat: 51.51, lon: -0.13 });
+  });
+
+  it.each(['constructor', 'toString', '__proto__', 'hasOwnProperty'])('ignores the inherited key %s as a size or language', key => {
+    const config = readWidgetConfig(`?widget=1&size=${key}&lang=${key}`)!;
+    expect(config).toMatchObject({ size: 'medium', ...WIDGET_SIZES.medium });
+    expect(config.language).toBeUndefined();
+  });
+});
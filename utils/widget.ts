@@ -0,0 +1,74 @@
+import { SavedLocation, Language, UnitPreferences, AtmosphericTheme } from '../types';
+import { makePlace } from './locationStore';
+import { METRIC_UNITS, US_UNITS } from './units';
+import { LANGUAGE_NAMES } from '../i18n';
+
+export type WidgetSize = 'small' | 'medium' | 'large';
+export type WidgetTheme = 'sky' | 'light' | 'dark' | 'eink';
+
+export interface WidgetConfig {
+  size: WidgetSize;
+  width: number;
+  height: number;
+  theme: WidgetTheme;
+  // 'now', 'stats', or an activity profile id such as 'tennis'; shown in this order.
+  cards: string[];
+  refreshMinutes: number;
+  place?: SavedLocation;
+  language?: Language;
+  units?: UnitPreferences;
+}
+
+export const WIDGET_SIZES: Record<WidgetSize, { width: number, height: number }> = {
+  small: { width: 320, height: 180 },
+  medium: { width: 360, height: 420 },
+  large: { width: 720, height: 420 }
+};
+
+// Flat backgrounds for sites whose own colours would clash with a moving sky.
+export const WIDGET_THEMES: Record<'light' | 'dark', AtmosphericTheme> = {
+  light: { background: '#f2ebe3', text: '#1c1917', stops: ['#f2ebe3'] },
+  dark: { background: '#15171c', text: '#f5f5f4', stops: ['#15171c'] }
+};
+
+const THEMES: WidgetTheme[] = ['sky', 'light', 'dark', 'eink'];
+const DEFAULT_CARDS = ['now', 'tennis'];
+const DEFAULT_REFRESH_MINUTES = 30;
+
+const positive = (value: string | null, fallback: number, min = 1) => {
+  const n = Number(value);
+  return value !== null && Number.isFinite(n) && n >= min ? n : fallback;
+};
+
+// The embeddable widget is an iframe route, set up entirely by URL so a page can embed it without any settings, e.g.
+// `/?widget=1&size=medium&theme=sky&cards=now,tennis&lat=51.51&lon=-0.13&name=London`. Returns null for the normal app.
+export const readWidgetConfig = (search: string): WidgetConfig | null => {
+  const params = new URLSearchParams(search);
+  const widget = params.get('widget');
+  if (widget === null || widget === '0' || widget === 'false') return null;
+
+  // Query values come from whatever page embeds the iframe, so lookups are own-key only: `?lang=constructor` is no language.
+  const requestedSize = params.get('size') || 'medium';
+  const size: WidgetSize = Object.hasOwn(WIDGET_SIZES, requestedSize) ? requestedSize as WidgetSize : 'medium';
+  const preset = WIDGET_SIZES[size];
+  const theme = params.get('theme') as WidgetTheme;
+  const cards = (params.get('cards') || '').split(',').map(c => c.trim()).filter(Boolean);
+  const language = params.get('lang');
+  const units = params.get('units');
+
+  const lat = Number(params.get('lat'));
+  const lon = Number(params.get('lon'));
+  const hasPlace = params.has('lat') && params.has('lon') && Number.isFinite(lat) && Number.isFinite(lon);
+
+  return {
+    size,
+    width: positive(params.get('w'), preset.width, 160),
+    height: positive(params.get('h'), preset.height, 100),
+    theme: THEMES.includes(theme) ? theme : 'sky',
+    cards: cards.length > 0 ? cards : DEFAULT_CARDS,
+    refreshMinutes: positive(params.get('refresh'), DEFAULT_REFRESH_MINUTES, 5),
+    place: hasPlace ? makePlace(lat, lon, params.get('name') || 'Here', { timezone: params.get('tz') || undefined }) : undefined,
+    language: language !== null && Object.hasOwn(LANGUAGE_NAMES, language) ? language as Language : undefined,
+    units: units === 'metric' ? METRIC_UNITS : units === 'us' ? US_UNITS : undefined
+  };
+};
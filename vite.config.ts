@@ -1,6 +1,8 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { pwaPlugin } from './pwa/vitePlugin';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,15 +11,25 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), pwaPlugin(__dirname)],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.WEATHER_PROVIDER': JSON.stringify(env.WEATHER_PROVIDER || ''),
+        // The service worker only registers in builds; in dev it would cache modules Vite expects to hot-swap.
+        'process.env.SERVICE_WORKER': JSON.stringify(mode === 'production' ? '/sw.js' : '')
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        // Pure modules run under node; files that need the DOM or localStorage start with `// @vitest-environment jsdom`.
+        environment: 'node',
+        setupFiles: ['./test/setup.ts'],
+        unstubGlobals: true,
+        restoreMocks: true
       }
     };
 });